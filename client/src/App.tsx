@@ -9,6 +9,9 @@ import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
 import Dashboard from "./pages/Dashboard";
 import ReceivePage from "./pages/ReceivePage";
+import RequestUploadPage from "./pages/RequestUploadPage";
+import VerifyEmailPage from "./pages/VerifyEmailPage";
+import ResetPasswordPage from "./pages/ResetPasswordPage";
 import { SubscriptionSuccess } from "./pages/SubscriptionSuccess";
 
 const App = () => (
@@ -23,7 +26,10 @@ const App = () => (
               <Route path="/" component={Index} />
               <Route path="/dashboard" component={Dashboard} />
               <Route path="/receive/:token" component={ReceivePage} />
+              <Route path="/request/:token" component={RequestUploadPage} />
               <Route path="/subscription-success" component={SubscriptionSuccess} />
+              <Route path="/verify-email" component={VerifyEmailPage} />
+              <Route path="/reset-password" component={ResetPasswordPage} />
               {/* Add more routes as components are migrated */}
               <Route component={NotFound} />
             </Switch>
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { MonitorSmartphone, LogOut } from 'lucide-react';
+
+interface ActiveSession {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  lastSeenAt: string;
+  createdAt: string;
+  current: boolean;
+}
+
+// Devices signed in to the account, each of which can be signed out
+export const ActiveSessions = () => {
+  const { user, logout } = useAuth();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+
+  const fetchSessions = async () => {
+    try {
+      setSessions(await apiRequest('/api/sessions'));
+    } catch (error) {
+      console.error('Error loading sessions:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchSessions();
+    }
+  }, [user]);
+
+  const revokeSession = async (session: ActiveSession) => {
+    try {
+      await apiRequest(`/api/sessions/${session.id}`, { method: 'DELETE' });
+      if (session.current) {
+        await logout();
+        return;
+      }
+      setSessions(sessions.filter(s => s.id !== session.id));
+      toast({
+        title: "Session ended",
+        description: "That device has been signed out",
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  const revokeAllSessions = async () => {
+    try {
+      await apiRequest('/api/sessions', { method: 'DELETE' });
+      await logout();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <MonitorSmartphone className="mr-2 h-5 w-5" />
+          Active Sessions
+        </CardTitle>
+        <CardDescription>
+          Devices currently signed in to your account
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {sessions.map(session => (
+            <div key={session.id} className="flex items-center justify-between">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate max-w-[300px]">
+                  {session.userAgent || 'Unknown device'}
+                  {session.current && <Badge variant="secondary" className="ml-2">This device</Badge>}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  {session.ipAddress ? `${session.ipAddress} • ` : ''}
+                  Last active {new Date(session.lastSeenAt).toLocaleString()}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => revokeSession(session)}>
+                Sign out
+              </Button>
+            </div>
+          ))}
+        </div>
+        <Button variant="outline" onClick={revokeAllSessions}>
+          <LogOut className="mr-2 h-4 w-4" />
+          Log out everywhere
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,241 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { KeySquare, Plus, Copy } from 'lucide-react';
+
+interface ApiKey {
+  id: string;
+  name: string;
+  keyPrefix: string;
+  scopes: string[];
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+  expired: boolean;
+}
+
+const SCOPE_DESCRIPTIONS: Record<string, string> = {
+  'files:read': 'List files, folders and versions',
+  'files:write': 'Upload, rename, move and delete files',
+  'links:create': 'Create shared links and share codes',
+  'analytics:read': 'Read download analytics',
+};
+
+// Personal API keys for scripts and CI jobs. A key is shown once, when it
+// is created.
+export const ApiKeys = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState('90');
+  const [newKey, setNewKey] = useState<string | null>(null);
+
+  const fetchKeys = async () => {
+    try {
+      const data = await apiRequest('/api/api-keys');
+      setKeys(data.keys);
+      setScopes(data.scopes);
+    } catch (error) {
+      console.error('Error loading API keys:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchKeys();
+    }
+  }, [user]);
+
+  const showError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const toggleScope = (scope: string, checked: boolean) => {
+    setSelectedScopes(checked
+      ? [...selectedScopes, scope]
+      : selectedScopes.filter(s => s !== scope));
+  };
+
+  const createKey = async () => {
+    try {
+      const data = await apiRequest('/api/api-keys', {
+        method: 'POST',
+        body: JSON.stringify({
+          name,
+          scopes: selectedScopes,
+          expiresInDays: expiresInDays === 'never' ? null : parseInt(expiresInDays, 10),
+        }),
+      });
+      setCreating(false);
+      setName('');
+      setSelectedScopes([]);
+      setNewKey(data.key);
+      fetchKeys();
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const revokeKey = async (apiKey: ApiKey) => {
+    try {
+      await apiRequest(`/api/api-keys/${apiKey.id}`, { method: 'DELETE' });
+      setKeys(keys.filter(k => k.id !== apiKey.id));
+      toast({
+        title: "API key revoked",
+        description: `${apiKey.name} no longer works`,
+      });
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const copyNewKey = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    toast({
+      title: "Copied",
+      description: "API key copied to clipboard",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeySquare className="mr-2 h-5 w-5" />
+          API Keys
+        </CardTitle>
+        <CardDescription>
+          Keys for scripts and CI jobs, sent as <span className="font-mono">Authorization: Bearer &lt;key&gt;</span>.
+          Each can only do what its scopes allow.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {newKey && (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Copy your new key now. It won't be shown again.
+            </p>
+            <div className="p-4 bg-muted rounded-lg font-mono text-sm break-all">{newKey}</div>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={copyNewKey}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button onClick={() => setNewKey(null)}>Done</Button>
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {keys.map(apiKey => (
+            <div key={apiKey.id} className="flex items-center justify-between">
+              <div className="min-w-0">
+                <p className="text-sm font-medium">
+                  {apiKey.name}
+                  <span className="ml-2 font-mono text-xs text-muted-foreground">{apiKey.keyPrefix}…</span>
+                  {apiKey.expired && <Badge variant="destructive" className="ml-2">Expired</Badge>}
+                </p>
+                <div className="flex flex-wrap gap-1 my-1">
+                  {apiKey.scopes.map(scope => <Badge key={scope} variant="secondary">{scope}</Badge>)}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {apiKey.lastUsedAt ? `Last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : 'Never used'} •{' '}
+                  {apiKey.expiresAt ? `Expires ${new Date(apiKey.expiresAt).toLocaleDateString()}` : 'Never expires'}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => revokeKey(apiKey)}>
+                Revoke
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button variant="outline" onClick={() => setCreating(true)}>
+          <Plus className="mr-2 h-4 w-4" />
+          Create API Key
+        </Button>
+      </CardContent>
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create API Key</DialogTitle>
+            <DialogDescription>
+              Give the key only the scopes the job needs.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="api-key-name">Name</Label>
+              <Input
+                id="api-key-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                placeholder="e.g. Release pipeline"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Scopes</Label>
+              {scopes.map(scope => (
+                <div key={scope} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`api-key-scope-${scope}`}
+                    checked={selectedScopes.includes(scope)}
+                    onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                  />
+                  <Label htmlFor={`api-key-scope-${scope}`} className="font-normal">
+                    <span className="font-mono">{scope}</span>
+                    {SCOPE_DESCRIPTIONS[scope] && (
+                      <span className="text-muted-foreground"> — {SCOPE_DESCRIPTIONS[scope]}</span>
+                    )}
+                  </Label>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="api-key-expiry">Expires</Label>
+              <Select value={expiresInDays} onValueChange={setExpiresInDays}>
+                <SelectTrigger id="api-key-expiry">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="7">In 7 days</SelectItem>
+                  <SelectItem value="30">In 30 days</SelectItem>
+                  <SelectItem value="90">In 90 days</SelectItem>
+                  <SelectItem value="365">In a year</SelectItem>
+                  <SelectItem value="never">Never</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button onClick={createKey} disabled={!name.trim() || selectedScopes.length === 0}>
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
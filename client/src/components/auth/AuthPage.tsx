@@ -7,11 +7,16 @@ import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Separator } from '@/components/ui/separator';
+import { TwoFactorPrompt } from '@/components/auth/TwoFactorPrompt';
+import { ForgotPasswordForm } from '@/components/auth/ForgotPasswordForm';
 import { Lock, Mail, User, Chrome } from 'lucide-react';
 
 export const AuthPage: React.FC = () => {
-  const { user, signIn, signUp, signInWithGoogle } = useAuth();
+  const { user, login, signUp, signInWithGoogle } = useAuth();
   const [isLoading, setIsLoading] = useState(false);
+  const [signInError, setSignInError] = useState('');
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [forgotPassword, setForgotPassword] = useState(false);
 
   // Redirect if already authenticated
   if (user) {
@@ -22,12 +27,21 @@ export const AuthPage: React.FC = () => {
     e.preventDefault();
     setIsLoading(true);
     
+    setSignInError('');
     const formData = new FormData(e.currentTarget);
     const email = formData.get('email') as string;
     const password = formData.get('password') as string;
     
-    await signIn(email, password);
-    setIsLoading(false);
+    try {
+      const result = await login(email, password);
+      if (result.twoFactorRequired) {
+        setChallengeToken(result.challengeToken);
+      }
+    } catch (err) {
+      setSignInError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setIsLoading(false);
+    }
   };
 
   const handleSignUp = async (e: React.FormEvent<HTMLFormElement>) => {
@@ -91,39 +105,59 @@ export const AuthPage: React.FC = () => {
               </div>
 
               <TabsContent value="signin" className="space-y-4 mt-4">
-                <form onSubmit={handleSignIn} className="space-y-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-email">Email</Label>
-                    <div className="relative">
-                      <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="signin-email"
-                        name="email"
-                        type="email"
-                        placeholder="Enter your email"
-                        className="pl-10"
-                        required
-                      />
+                {challengeToken ? (
+                  <TwoFactorPrompt
+                    challengeToken={challengeToken}
+                    onCancel={() => setChallengeToken(null)}
+                  />
+                ) : forgotPassword ? (
+                  <ForgotPasswordForm onBack={() => setForgotPassword(false)} />
+                ) : (
+                  <form onSubmit={handleSignIn} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-email">Email</Label>
+                      <div className="relative">
+                        <Mail className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="signin-email"
+                          name="email"
+                          type="email"
+                          placeholder="Enter your email"
+                          className="pl-10"
+                          required
+                        />
+                      </div>
                     </div>
-                  </div>
-                  <div className="space-y-2">
-                    <Label htmlFor="signin-password">Password</Label>
-                    <div className="relative">
-                      <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-                      <Input
-                        id="signin-password"
-                        name="password"
-                        type="password"
-                        placeholder="Enter your password"
-                        className="pl-10"
-                        required
-                      />
+                    <div className="space-y-2">
+                      <Label htmlFor="signin-password">Password</Label>
+                      <div className="relative">
+                        <Lock className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                        <Input
+                          id="signin-password"
+                          name="password"
+                          type="password"
+                          placeholder="Enter your password"
+                          className="pl-10"
+                          required
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="link"
+                        className="px-0 h-auto text-sm"
+                        onClick={() => setForgotPassword(true)}
+                      >
+                        Forgot password?
+                      </Button>
                     </div>
-                  </div>
-                  <Button type="submit" className="w-full" disabled={isLoading}>
-                    {isLoading ? "Signing in..." : "Sign In"}
-                  </Button>
-                </form>
+                    {signInError && (
+                      <p className="text-sm text-destructive">{signInError}</p>
+                    )}
+                    <Button type="submit" className="w-full" disabled={isLoading}>
+                      {isLoading ? "Signing in..." : "Sign In"}
+                    </Button>
+                  </form>
+                )}
               </TabsContent>
 
               <TabsContent value="signup" className="space-y-4 mt-4">
@@ -0,0 +1,49 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Mail } from 'lucide-react';
+
+// Public links and share codes stay off until the address is verified
+export const EmailVerificationBanner = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [sending, setSending] = useState(false);
+
+  if (!user || user.emailVerified) return null;
+
+  const resend = async () => {
+    setSending(true);
+    try {
+      await apiRequest('/api/auth/resend-verification', { method: 'POST' });
+      toast({
+        title: "Verification email sent",
+        description: `Check ${user.email} for the link`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <Alert className="mb-8">
+      <Mail className="h-4 w-4" />
+      <AlertDescription className="flex items-center justify-between gap-4">
+        <span>
+          Verify your email address to share files with links and share codes. We sent a link to {user.email}.
+        </span>
+        <Button variant="outline" size="sm" onClick={resend} disabled={sending}>
+          {sending ? 'Sending...' : 'Resend'}
+        </Button>
+      </AlertDescription>
+    </Alert>
+  );
+};
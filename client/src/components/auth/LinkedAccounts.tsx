@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Link2 } from 'lucide-react';
+
+interface LinkedIdentity {
+  id: string;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  lastUsedAt: string;
+  createdAt: string;
+}
+
+// Single sign-on accounts that sign in as this user; hidden until one is
+// linked by signing in with it
+export const LinkedAccounts = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [identities, setIdentities] = useState<LinkedIdentity[]>([]);
+
+  const fetchIdentities = async () => {
+    try {
+      setIdentities(await apiRequest('/api/auth/identities'));
+    } catch (error) {
+      console.error('Error loading linked accounts:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchIdentities();
+    }
+  }, [user]);
+
+  const unlink = async (identity: LinkedIdentity) => {
+    try {
+      await apiRequest(`/api/auth/identities/${identity.id}`, { method: 'DELETE' });
+      setIdentities(identities.filter(i => i.id !== identity.id));
+      toast({
+        title: "Account unlinked",
+        description: `${identity.providerName} no longer signs in to this account`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message,
+      });
+    }
+  };
+
+  if (identities.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Link2 className="mr-2 h-5 w-5" />
+          Linked Accounts
+        </CardTitle>
+        <CardDescription>
+          Single sign-on accounts you can sign in with. Signing in with one again, under this
+          account's email address, links it again.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {identities.map(identity => (
+          <div key={identity.id} className="flex items-center justify-between">
+            <div className="min-w-0">
+              <p className="text-sm font-medium">{identity.providerName}</p>
+              <p className="text-xs text-muted-foreground truncate max-w-[300px]">
+                {identity.email ? `${identity.email} • ` : ''}
+                Last used {new Date(identity.lastUsedAt).toLocaleString()}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => unlink(identity)}>
+              Unlink
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
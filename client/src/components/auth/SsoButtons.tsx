@@ -0,0 +1,51 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Separator } from '@/components/ui/separator';
+import { KeyRound } from 'lucide-react';
+
+interface SsoProvider {
+  id: string;
+  name: string;
+}
+
+// Sign in with one of the configured OpenID Connect providers; renders
+// nothing when there are none
+export const SsoButtons = () => {
+  const [providers, setProviders] = useState<SsoProvider[]>([]);
+
+  useEffect(() => {
+    fetch('/api/auth/oidc/providers')
+      .then(response => (response.ok ? response.json() : []))
+      .then(setProviders)
+      .catch(error => console.error('Error loading sign-in providers:', error));
+  }, []);
+
+  if (providers.length === 0) return null;
+
+  return (
+    <div className="space-y-4 mb-4">
+      {providers.map(provider => (
+        <Button
+          key={provider.id}
+          type="button"
+          variant="outline"
+          className="w-full"
+          // The server redirects on to the provider and back
+          onClick={() => window.location.assign(`/api/auth/oidc/${provider.id}/login`)}
+        >
+          <KeyRound className="mr-2 h-4 w-4" />
+          Continue with {provider.name}
+        </Button>
+      ))}
+
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <Separator className="w-full" />
+        </div>
+        <div className="relative flex justify-center text-xs uppercase">
+          <span className="bg-card px-2 text-muted-foreground">or</span>
+        </div>
+      </div>
+    </div>
+  );
+};
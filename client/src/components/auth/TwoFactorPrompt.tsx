@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ShieldCheck } from 'lucide-react';
+
+interface TwoFactorPromptProps {
+  challengeToken: string;
+  onSuccess?: () => void;
+  onCancel: () => void;
+}
+
+// Second sign-in step for accounts with two-factor authentication
+export const TwoFactorPrompt: React.FC<TwoFactorPromptProps> = ({ challengeToken, onSuccess, onCancel }) => {
+  const { completeTwoFactorLogin } = useAuth();
+  const [code, setCode] = useState('');
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await completeTwoFactorLogin(challengeToken, code);
+      onSuccess?.();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+        <ShieldCheck className="h-4 w-4 text-primary" />
+        <span>
+          {useRecoveryCode
+            ? 'Enter one of your recovery codes'
+            : 'Enter the 6-digit code from your authenticator app'}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="two-factor-code">{useRecoveryCode ? 'Recovery code' : 'Verification code'}</Label>
+        <Input
+          id="two-factor-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          autoFocus
+          autoComplete="one-time-code"
+          inputMode={useRecoveryCode ? 'text' : 'numeric'}
+          placeholder={useRecoveryCode ? 'XXXX-XXXX' : '123456'}
+          maxLength={useRecoveryCode ? 9 : 6}
+          className="font-mono"
+        />
+      </div>
+
+      {error && (
+        <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <Button type="submit" className="w-full" disabled={isSubmitting || !code}>
+        {isSubmitting ? 'Verifying...' : 'Verify'}
+      </Button>
+
+      <div className="flex justify-between">
+        <Button
+          type="button"
+          variant="link"
+          className="text-sm px-0"
+          onClick={() => {
+            setUseRecoveryCode(!useRecoveryCode);
+            setCode('');
+            setError('');
+          }}
+        >
+          {useRecoveryCode ? 'Use authenticator app' : 'Use a recovery code'}
+        </Button>
+        <Button type="button" variant="link" className="text-sm px-0" onClick={onCancel}>
+          Back to sign in
+        </Button>
+      </div>
+    </form>
+  );
+};
@@ -0,0 +1,277 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ShieldCheck, KeyRound, Copy } from 'lucide-react';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  enabledAt: string | null;
+  recoveryCodesRemaining: number;
+}
+
+interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data URL
+}
+
+// Actions on an enabled second factor that take the account password
+type PasswordAction = 'reset' | 'recovery-codes' | 'disable';
+
+const PASSWORD_ACTIONS: Record<PasswordAction, { title: string; description: string; confirm: string }> = {
+  reset: {
+    title: 'Set Up New Authenticator',
+    description: 'Your current authenticator keeps working until the new one is confirmed.',
+    confirm: 'Continue',
+  },
+  'recovery-codes': {
+    title: 'Regenerate Recovery Codes',
+    description: 'Your existing recovery codes will stop working.',
+    confirm: 'Regenerate',
+  },
+  disable: {
+    title: 'Disable Two-Factor Authentication',
+    description: 'Signing in will only take your password.',
+    confirm: 'Disable',
+  },
+};
+
+export const TwoFactorSettings = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordAction, setPasswordAction] = useState<PasswordAction | null>(null);
+  const [password, setPassword] = useState('');
+
+  const fetchStatus = async () => {
+    try {
+      setStatus(await apiRequest('/api/auth/2fa'));
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchStatus();
+    }
+  }, [user]);
+
+  const showError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  const startSetup = async (currentPassword?: string) => {
+    try {
+      const data = await apiRequest('/api/auth/2fa/setup', {
+        method: 'POST',
+        body: JSON.stringify(currentPassword ? { password: currentPassword } : {}),
+      });
+      setSetup(data);
+      setCode('');
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const confirmSetup = async () => {
+    try {
+      const data = await apiRequest('/api/auth/2fa/enable', {
+        method: 'POST',
+        body: JSON.stringify({ code }),
+      });
+      setSetup(null);
+      setRecoveryCodes(data.recoveryCodes);
+      fetchStatus();
+      toast({
+        title: "Two-factor authentication enabled",
+        description: "You'll be asked for a code when you sign in",
+      });
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const runPasswordAction = async () => {
+    if (!passwordAction) return;
+
+    const action = passwordAction;
+    setPasswordAction(null);
+    try {
+      if (action === 'reset') {
+        await startSetup(password);
+      } else if (action === 'recovery-codes') {
+        const data = await apiRequest('/api/auth/2fa/recovery-codes', {
+          method: 'POST',
+          body: JSON.stringify({ password }),
+        });
+        setRecoveryCodes(data.recoveryCodes);
+        fetchStatus();
+      } else {
+        await apiRequest('/api/auth/2fa/disable', {
+          method: 'POST',
+          body: JSON.stringify({ password }),
+        });
+        fetchStatus();
+        toast({
+          title: "Two-factor authentication disabled",
+          description: "Signing in only takes your password now",
+        });
+      }
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setPassword('');
+    }
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+    toast({
+      title: "Copied",
+      description: "Recovery codes copied to clipboard",
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="mr-2 h-5 w-5" />
+          Two-Factor Authentication
+          {status?.enabled && <Badge variant="secondary" className="ml-2">Enabled</Badge>}
+        </CardTitle>
+        <CardDescription>
+          Ask for a code from an authenticator app in addition to your password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {recoveryCodes ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Save these recovery codes somewhere safe. Each can be used once to sign in without your
+              authenticator, and they won't be shown again.
+            </p>
+            <div className="grid grid-cols-2 gap-2 p-4 bg-muted rounded-lg font-mono text-sm">
+              {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+            </div>
+            <div className="flex space-x-2">
+              <Button variant="outline" onClick={copyRecoveryCodes}>
+                <Copy className="mr-2 h-4 w-4" />
+                Copy
+              </Button>
+              <Button onClick={() => setRecoveryCodes(null)}>I've saved them</Button>
+            </div>
+          </div>
+        ) : setup ? (
+          <div className="space-y-3">
+            <p className="text-sm">
+              Scan this QR code with your authenticator app, then enter the code it shows.
+            </p>
+            <img src={setup.qrCode} alt="Authenticator QR code" className="h-48 w-48 rounded-md bg-white p-2" />
+            <p className="text-xs text-muted-foreground">
+              Can't scan it? Enter this key instead: <span className="font-mono break-all">{setup.secret}</span>
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="two-factor-setup-code">Verification code</Label>
+              <div className="flex space-x-2">
+                <Input
+                  id="two-factor-setup-code"
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  autoComplete="one-time-code"
+                  inputMode="numeric"
+                  placeholder="123456"
+                  maxLength={6}
+                  className="font-mono"
+                />
+                <Button onClick={confirmSetup} disabled={code.length !== 6}>
+                  Confirm
+                </Button>
+              </div>
+            </div>
+            <Button variant="link" className="px-0" onClick={() => setSetup(null)}>
+              Cancel
+            </Button>
+          </div>
+        ) : status?.enabled ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Enabled {status.enabledAt && new Date(status.enabledAt).toLocaleDateString()} •{' '}
+              {status.recoveryCodesRemaining} recovery codes left
+            </p>
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={() => setPasswordAction('recovery-codes')}>
+                <KeyRound className="mr-2 h-4 w-4" />
+                Regenerate Recovery Codes
+              </Button>
+              <Button variant="outline" onClick={() => setPasswordAction('reset')}>
+                Set Up New Authenticator
+              </Button>
+              <Button variant="destructive" onClick={() => setPasswordAction('disable')}>
+                Disable
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button onClick={() => startSetup()} disabled={!status}>
+            Enable Two-Factor Authentication
+          </Button>
+        )}
+      </CardContent>
+
+      <Dialog
+        open={!!passwordAction}
+        onOpenChange={(open) => {
+          if (!open) {
+            setPasswordAction(null);
+            setPassword('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{passwordAction && PASSWORD_ACTIONS[passwordAction].title}</DialogTitle>
+            <DialogDescription>
+              {passwordAction && PASSWORD_ACTIONS[passwordAction].description} Enter your password to continue.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="two-factor-password">Password</Label>
+            <Input
+              id="two-factor-password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              placeholder="Enter your password"
+            />
+          </div>
+          <DialogFooter>
+            <Button
+              variant={passwordAction === 'disable' ? 'destructive' : 'default'}
+              onClick={runPasswordAction}
+              disabled={!password}
+            >
+              {passwordAction && PASSWORD_ACTIONS[passwordAction].confirm}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
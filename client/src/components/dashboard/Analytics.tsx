@@ -3,6 +3,7 @@ import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { ShareSecurityEvents } from '@/components/sharing/ShareSecurityEvents';
 import { 
   BarChart3,
   Download,
@@ -217,6 +218,8 @@ export const Analytics: React.FC = () => {
           </CardContent>
         </Card>
       </div>
+
+      <ShareSecurityEvents />
     </div>
   );
 };
\ No newline at end of file
@@ -20,7 +20,8 @@ import {
   Settings, 
   LogOut,
   Shield,
-  Home
+  Home,
+  Trash2
 } from 'lucide-react';
 
 interface DashboardLayoutProps {
@@ -44,6 +45,7 @@ export const DashboardLayout: React.FC<DashboardLayoutProps> = ({ children }) =>
     { icon: Upload, label: 'Upload', href: '/dashboard/upload' },
     { icon: Files, label: 'My Files', href: '/dashboard/files' },
     { icon: Share, label: 'Shared Links', href: '/dashboard/shared' },
+    { icon: Trash2, label: 'Trash', href: '/dashboard/trash' },
     { icon: BarChart3, label: 'Analytics', href: '/dashboard/analytics' },
     { icon: Settings, label: 'Settings', href: '/dashboard/settings' },
   ];
@@ -8,6 +8,10 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
 import { Badge } from '@/components/ui/badge';
+import { ActiveSessions } from '@/components/auth/ActiveSessions';
+import { TwoFactorSettings } from '@/components/auth/TwoFactorSettings';
+import { LinkedAccounts } from '@/components/auth/LinkedAccounts';
+import { ApiKeys } from '@/components/auth/ApiKeys';
 import { 
   Settings as SettingsIcon,
   User,
@@ -246,6 +250,14 @@ export const Settings: React.FC = () => {
           </CardContent>
         </Card>
 
+        <TwoFactorSettings />
+
+        <LinkedAccounts />
+
+        <ApiKeys />
+
+        <ActiveSessions />
+
         <Card className="border-destructive">
           <CardHeader>
             <CardTitle className="flex items-center text-destructive">
@@ -1,15 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { apiRequest } from '@/lib/queryClient';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { FolderTree, type FolderSummary } from '@/components/files/FolderTree';
+import { FileVersions } from '@/components/files/FileVersions';
 import { 
   File, 
   Download, 
@@ -23,7 +27,14 @@ import {
   Copy,
   Mail,
   Code,
-  MoreHorizontal
+  MoreHorizontal,
+  Package,
+  Folder,
+  FolderPlus,
+  FolderInput,
+  Pencil,
+  ChevronRight,
+  History
 } from 'lucide-react';
 
 interface FileData {
@@ -38,6 +49,9 @@ interface FileData {
   download_limit: number | null;
   expires_at: string | null;
   share_code: string | null;
+  scan_status?: 'pending_scan' | 'clean' | 'quarantined' | 'not_scanned';
+  scan_result?: string | null;
+  is_encrypted?: boolean;
   created_at: string;
   updated_at: string;
 }
@@ -51,8 +65,29 @@ interface ShareLinkData {
   expires_at: string | null;
   is_active: boolean;
   recipient_email: string | null;
+  pinned_version_id?: string | null;
 }
 
+// Listings come from the API, which names fields in camelCase
+const toFileData = (file: any): FileData => ({
+  id: file.id,
+  original_name: file.originalName,
+  file_size: file.fileSize,
+  file_type: file.fileType,
+  storage_path: file.storagePath,
+  is_public: file.isPublic,
+  is_locked: file.isLocked,
+  download_count: file.downloadCount,
+  download_limit: file.downloadLimit,
+  expires_at: file.expiresAt,
+  share_code: file.shareCode,
+  scan_status: file.scanStatus,
+  scan_result: file.scanResult,
+  is_encrypted: file.isEncrypted,
+  created_at: file.createdAt,
+  updated_at: file.updatedAt,
+});
+
 export const FileManager: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
@@ -66,26 +101,38 @@ export const FileManager: React.FC = () => {
   const [downloadLimit, setDownloadLimit] = useState<string>('');
   const [expiryDays, setExpiryDays] = useState<string>('7');
   const [sharePassword, setSharePassword] = useState('');
+  const [bundleFileIds, setBundleFileIds] = useState<string[]>([]);
+  const [bundleName, setBundleName] = useState('');
+  const [creatingBundle, setCreatingBundle] = useState(false);
+  const [passwordFile, setPasswordFile] = useState<FileData | null>(null);
+  const [filePassword, setFilePassword] = useState('');
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
+  const [folders, setFolders] = useState<FolderSummary[]>([]);
+  const [breadcrumbs, setBreadcrumbs] = useState<FolderSummary[]>([]);
+  const [treeVersion, setTreeVersion] = useState(0);
+  // Open for a new folder ({}) or for renaming one ({ folder })
+  const [folderDialog, setFolderDialog] = useState<{ folder?: FolderSummary } | null>(null);
+  const [folderName, setFolderName] = useState('');
+  const [movingFile, setMovingFile] = useState<FileData | null>(null);
+  const [moveTargetId, setMoveTargetId] = useState<string | null>(null);
+  const [versionsFile, setVersionsFile] = useState<FileData | null>(null);
 
   useEffect(() => {
     if (user) {
       fetchFiles();
     }
-  }, [user]);
+  }, [user, currentFolderId]);
 
   const fetchFiles = async () => {
     try {
-      const { data, error } = await supabase
-        .from('files')
-        .select('*')
-        .eq('user_id', user?.id)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setFiles(data || []);
+      const listing = await apiRequest(`/api/folders/${currentFolderId ?? 'root'}/contents`);
+      const data: FileData[] = listing.files.map(toFileData);
+      setFiles(data);
+      setFolders(listing.folders);
+      setBreadcrumbs(listing.breadcrumbs);
 
       // Fetch shared links for each file
-      const fileIds = data?.map(f => f.id) || [];
+      const fileIds = data.map(f => f.id);
       if (fileIds.length > 0) {
         const { data: linksData } = await supabase
           .from('shared_links')
@@ -292,19 +339,26 @@ export const FileManager: React.FC = () => {
     }
   };
 
-  const toggleFileLock = async (fileId: string, currentStatus: boolean) => {
+  const openPasswordDialog = (file: FileData) => {
+    setFilePassword('');
+    setPasswordFile(file);
+  };
+
+  // The password unlocks the file's share code; shared links have their own
+  const saveFilePassword = async () => {
+    if (!passwordFile || !filePassword) return;
+
     try {
-      const { error } = await supabase
-        .from('files')
-        .update({ is_locked: !currentStatus })
-        .eq('id', fileId);
+      await apiRequest(`/api/files/${passwordFile.id}/password`, {
+        method: 'PUT',
+        body: JSON.stringify({ password: filePassword }),
+      });
 
-      if (error) throw error;
-      
+      setPasswordFile(null);
       fetchFiles();
       toast({
-        title: "File lock updated",
-        description: `File is now ${!currentStatus ? 'locked' : 'unlocked'}`,
+        title: "File locked",
+        description: "The share code now asks for this password",
       });
     } catch (error: any) {
       toast({
@@ -315,27 +369,35 @@ export const FileManager: React.FC = () => {
     }
   };
 
-  const deleteFile = async (fileId: string, storagePath: string) => {
-    try {
-      // Delete from storage
-      const { error: storageError } = await supabase.storage
-        .from('files')
-        .remove([storagePath]);
+  const clearFilePassword = async () => {
+    if (!passwordFile) return;
 
-      if (storageError) throw storageError;
+    try {
+      await apiRequest(`/api/files/${passwordFile.id}/password`, { method: 'DELETE' });
 
-      // Delete from database
-      const { error: dbError } = await supabase
-        .from('files')
-        .delete()
-        .eq('id', fileId);
+      setPasswordFile(null);
+      fetchFiles();
+      toast({
+        title: "File unlocked",
+        description: "The share code works without a password again",
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error updating file",
+        description: error.message,
+      });
+    }
+  };
 
-      if (dbError) throw dbError;
+  const deleteFile = async (fileId: string) => {
+    try {
+      await apiRequest(`/api/files/${fileId}`, { method: 'DELETE' });
 
       fetchFiles();
       toast({
-        title: "File deleted",
-        description: "File has been permanently deleted",
+        title: "Moved to trash",
+        description: "The file's links stop working until you restore it from the trash",
       });
     } catch (error: any) {
       toast({
@@ -380,6 +442,162 @@ export const FileManager: React.FC = () => {
     }
   };
 
+  const refreshFolders = () => {
+    setTreeVersion(version => version + 1);
+    fetchFiles();
+  };
+
+  const openFolderDialog = (folder?: FolderSummary) => {
+    setFolderName(folder?.name ?? '');
+    setFolderDialog({ folder });
+  };
+
+  // Create a folder in the current one, or rename the folder the dialog is for
+  const saveFolder = async () => {
+    if (!folderDialog || !folderName.trim()) return;
+
+    try {
+      if (folderDialog.folder) {
+        await apiRequest(`/api/folders/${folderDialog.folder.id}`, {
+          method: 'PATCH',
+          body: JSON.stringify({ name: folderName.trim() }),
+        });
+      } else {
+        await apiRequest('/api/folders', {
+          method: 'POST',
+          body: JSON.stringify({ name: folderName.trim(), parentId: currentFolderId }),
+        });
+      }
+
+      setFolderDialog(null);
+      refreshFolders();
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error saving folder",
+        description: error.message,
+      });
+    }
+  };
+
+  // The folder and its sub-folders go for good; the files in them go to the trash
+  const deleteFolder = async (folder: FolderSummary) => {
+    try {
+      const result = await apiRequest(`/api/folders/${folder.id}`, { method: 'DELETE' });
+
+      refreshFolders();
+      toast({
+        title: "Folder deleted",
+        description: `${result.deletedFiles} ${result.deletedFiles === 1 ? 'file' : 'files'} moved to trash`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error deleting folder",
+        description: error.message,
+      });
+    }
+  };
+
+  // Recipients can browse the folder and everything below it
+  const shareFolder = async (folder: FolderSummary) => {
+    try {
+      const link = await apiRequest('/api/shared-links', {
+        method: 'POST',
+        body: JSON.stringify({
+          folderId: folder.id,
+          linkType: 'public',
+          shareToken: crypto.randomUUID().replace(/-/g, ''),
+        }),
+      });
+
+      await navigator.clipboard.writeText(`${window.location.origin}/receive/${link.shareToken}`);
+      toast({
+        title: "Folder shared",
+        description: "Share link copied to clipboard",
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error sharing folder",
+        description: error.message,
+      });
+    }
+  };
+
+  const openMoveDialog = (file: FileData) => {
+    setMoveTargetId(currentFolderId);
+    setMovingFile(file);
+  };
+
+  const moveFile = async () => {
+    if (!movingFile) return;
+
+    try {
+      await apiRequest(`/api/files/${movingFile.id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ folderId: moveTargetId }),
+      });
+
+      setMovingFile(null);
+      fetchFiles();
+      toast({
+        title: "File moved",
+        description: `${movingFile.original_name} was moved`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error moving file",
+        description: error.message,
+      });
+    }
+  };
+
+  const toggleBundleFile = (fileId: string, checked: boolean) => {
+    setBundleFileIds(prev => checked ? [...prev, fileId] : prev.filter(id => id !== fileId));
+  };
+
+  // Share the selected files together under one link
+  const shareAsBundle = async () => {
+    if (bundleFileIds.length === 0) return;
+
+    try {
+      setCreatingBundle(true);
+      const bundle = await apiRequest('/api/bundles', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: bundleName.trim() || `${bundleFileIds.length} files`,
+          fileIds: bundleFileIds,
+        }),
+      });
+      const link = await apiRequest('/api/shared-links', {
+        method: 'POST',
+        body: JSON.stringify({
+          bundleId: bundle.id,
+          linkType: 'public',
+          shareToken: crypto.randomUUID().replace(/-/g, ''),
+        }),
+      });
+
+      await navigator.clipboard.writeText(`${window.location.origin}/receive/${link.shareToken}`);
+      toast({
+        title: "Bundle shared",
+        description: "Share link copied to clipboard",
+      });
+      setBundleFileIds([]);
+      setBundleName('');
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error creating bundle",
+        description: error.message,
+      });
+    } finally {
+      setCreatingBundle(false);
+    }
+  };
+
   if (loading) {
     return <div className="flex items-center justify-center h-64">Loading files...</div>;
   }
@@ -393,274 +611,478 @@ export const FileManager: React.FC = () => {
         </p>
       </div>
 
-      {files.length === 0 ? (
+      {bundleFileIds.length > 0 && (
         <Card>
-          <CardContent className="text-center py-12">
-            <File className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
-            <h3 className="text-lg font-medium mb-2">No files uploaded yet</h3>
-            <p className="text-muted-foreground mb-4">Start by uploading your first file.</p>
-            <Button asChild>
-              <a href="/dashboard/upload">Upload Files</a>
+          <CardContent className="p-4 flex items-center space-x-2">
+            <Package className="h-5 w-5 text-muted-foreground shrink-0" />
+            <span className="text-sm whitespace-nowrap">
+              {bundleFileIds.length} {bundleFileIds.length === 1 ? 'file' : 'files'} selected
+            </span>
+            <Input
+              value={bundleName}
+              onChange={(e) => setBundleName(e.target.value)}
+              placeholder="Bundle name"
+            />
+            <Button onClick={shareAsBundle} disabled={creatingBundle}>
+              <Share2 className="mr-2 h-4 w-4" />
+              Share as Bundle
+            </Button>
+            <Button variant="ghost" onClick={() => setBundleFileIds([])}>
+              Clear
             </Button>
           </CardContent>
         </Card>
-      ) : (
-        <div className="grid gap-4">
-          {files.map((file) => (
-            <Card key={file.id}>
-              <CardContent className="p-6">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center space-x-4">
-                    <File className="h-8 w-8 text-muted-foreground" />
-                    <div>
-                      <h3 className="font-medium">{file.original_name}</h3>
-                      <div className="flex items-center space-x-4 text-sm text-muted-foreground">
-                        <span>{formatFileSize(file.file_size)}</span>
-                        <span>{file.download_count} downloads</span>
-                        <span>Uploaded {formatDate(file.created_at)}</span>
-                      </div>
-                      <div className="flex items-center space-x-2 mt-2">
-                        <Badge variant={file.is_public ? "default" : "secondary"}>
-                          {file.is_public ? "Public" : "Private"}
-                        </Badge>
-                        {file.is_locked && (
-                          <Badge variant="destructive">Locked</Badge>
-                        )}
-                        {file.expires_at && new Date(file.expires_at) < new Date() && (
-                          <Badge variant="destructive">Expired</Badge>
-                        )}
-                        {file.share_code && (
-                          <Badge variant="outline">Code: {file.share_code}</Badge>
-                        )}
+      )}
+
+      <div className="grid gap-6 md:grid-cols-[220px_1fr]">
+        <Card className="h-fit">
+          <CardContent className="p-2">
+            <FolderTree selectedId={currentFolderId} onSelect={setCurrentFolderId} refreshKey={treeVersion} />
+          </CardContent>
+        </Card>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <nav className="flex flex-wrap items-center text-sm">
+              <Button variant="link" size="sm" className="px-1" onClick={() => setCurrentFolderId(null)}>
+                My Files
+              </Button>
+              {breadcrumbs.map(crumb => (
+                <React.Fragment key={crumb.id}>
+                  <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                  <Button variant="link" size="sm" className="px-1" onClick={() => setCurrentFolderId(crumb.id)}>
+                    {crumb.name}
+                  </Button>
+                </React.Fragment>
+              ))}
+            </nav>
+            <Button variant="outline" size="sm" onClick={() => openFolderDialog()}>
+              <FolderPlus className="mr-2 h-4 w-4" />
+              New Folder
+            </Button>
+          </div>
+
+          {folders.map(folder => (
+            <Card key={folder.id}>
+              <CardContent className="p-4 flex items-center justify-between">
+                <button
+                  type="button"
+                  className="flex items-center space-x-4 min-w-0 text-left"
+                  onClick={() => setCurrentFolderId(folder.id)}
+                >
+                  <Folder className="h-8 w-8 text-muted-foreground shrink-0" />
+                  <span className="font-medium truncate">{folder.name}</span>
+                </button>
+                <div className="flex items-center space-x-2">
+                  <Button variant="ghost" size="sm" onClick={() => shareFolder(folder)} title="Share folder">
+                    <Share2 className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => openFolderDialog(folder)} title="Rename folder">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => deleteFolder(folder)} title="Delete folder">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+
+          {files.length === 0 ? (folders.length === 0 && (
+            <Card>
+              <CardContent className="text-center py-12">
+                <File className="mx-auto h-12 w-12 text-muted-foreground mb-4" />
+                <h3 className="text-lg font-medium mb-2">{currentFolderId ? 'This folder is empty' : 'No files uploaded yet'}</h3>
+                <p className="text-muted-foreground mb-4">Start by uploading your first file.</p>
+                <Button asChild>
+                  <a href="/dashboard/upload">Upload Files</a>
+                </Button>
+              </CardContent>
+            </Card>
+          )) : (
+            <div className="grid gap-4">
+              {files.map((file) => (
+                <Card key={file.id}>
+                  <CardContent className="p-6">
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center space-x-4">
+                        <Checkbox
+                          checked={bundleFileIds.includes(file.id)}
+                          onCheckedChange={(checked) => toggleBundleFile(file.id, checked === true)}
+                          aria-label={`Select ${file.original_name}`}
+                        />
+                        <File className="h-8 w-8 text-muted-foreground" />
+                        <div>
+                          <h3 className="font-medium">{file.original_name}</h3>
+                          <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+                            <span>{formatFileSize(file.file_size)}</span>
+                            <span>{file.download_count} downloads</span>
+                            <span>Uploaded {formatDate(file.created_at)}</span>
+                          </div>
+                          <div className="flex items-center space-x-2 mt-2">
+                            <Badge variant={file.is_public ? "default" : "secondary"}>
+                              {file.is_public ? "Public" : "Private"}
+                            </Badge>
+                            {file.is_locked && (
+                              <Badge variant="destructive">Locked</Badge>
+                            )}
+                            {file.expires_at && new Date(file.expires_at) < new Date() && (
+                              <Badge variant="destructive">Expired</Badge>
+                            )}
+                            {file.share_code && (
+                              <Badge variant="outline">Code: {file.share_code}</Badge>
+                            )}
+                            {file.scan_status === 'pending_scan' && (
+                              <Badge variant="secondary">Scanning for malware</Badge>
+                            )}
+                            {file.scan_status === 'clean' && (
+                              <Badge variant="outline">Scan: clean</Badge>
+                            )}
+                            {file.scan_status === 'quarantined' && (
+                              <Badge variant="destructive" title={file.scan_result || undefined}>
+                                Quarantined{file.scan_result ? `: ${file.scan_result}` : ''}
+                              </Badge>
+                            )}
+                            {file.scan_status === 'not_scanned' && (
+                              <Badge variant="outline">{file.scan_result ? `Not scanned: ${file.scan_result}` : 'Encrypted, not scanned'}</Badge>
+                            )}
+                          </div>
+                        </div>
                       </div>
-                    </div>
-                  </div>
-
-                  <div className="flex items-center space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => downloadFile(file)}
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => toggleFileVisibility(file.id, file.is_public)}
-                    >
-                      {file.is_public ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
-                    </Button>
-
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => toggleFileLock(file.id, file.is_locked)}
-                    >
-                      {file.is_locked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
-                    </Button>
-
-                    <Dialog open={shareDialogOpen} onOpenChange={setShareDialogOpen}>
-                      <DialogTrigger asChild>
+
+                      <div className="flex items-center space-x-2">
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => setSelectedFile(file)}
+                          onClick={() => downloadFile(file)}
                         >
-                          <Share2 className="h-4 w-4" />
+                          <Download className="h-4 w-4" />
                         </Button>
-                      </DialogTrigger>
-                      <DialogContent>
-                        <DialogHeader>
-                          <DialogTitle>Share File</DialogTitle>
-                          <DialogDescription>
-                            Create a sharing link for {selectedFile?.original_name}
-                          </DialogDescription>
-                        </DialogHeader>
-
-                        <div className="space-y-4">
-                          <div>
-                            <Label htmlFor="shareMethod">Share Method</Label>
-                            <Select value={shareMethod} onValueChange={(value: any) => setShareMethod(value)}>
-                              <SelectTrigger>
-                                <SelectValue placeholder="Select sharing method" />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="public">
-                                  <div className="flex items-center space-x-2">
-                                    <Copy className="h-4 w-4" />
-                                    <span>Direct Link</span>
-                                  </div>
-                                </SelectItem>
-                                <SelectItem value="email">
-                                  <div className="flex items-center space-x-2">
-                                    <Mail className="h-4 w-4" />
-                                    <span>Email Link</span>
-                                  </div>
-                                </SelectItem>
-                                <SelectItem value="code">
-                                  <div className="flex items-center space-x-2">
-                                    <Code className="h-4 w-4" />
-                                    <span>Share Code</span>
-                                  </div>
-                                </SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </div>
 
-                          {shareMethod === 'email' && (
-                            <div>
-                              <Label htmlFor="recipientEmail">Recipient Email</Label>
-                              <Input
-                                id="recipientEmail"
-                                type="email"
-                                value={recipientEmail}
-                                onChange={(e) => setRecipientEmail(e.target.value)}
-                                placeholder="Enter email address"
-                              />
-                            </div>
-                          )}
-
-                          <div>
-                            <Label htmlFor="downloadLimit">Download Limit (optional)</Label>
-                            <Input
-                              id="downloadLimit"
-                              type="number"
-                              value={downloadLimit}
-                              onChange={(e) => setDownloadLimit(e.target.value)}
-                              placeholder="Unlimited"
-                            />
-                          </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => toggleFileVisibility(file.id, file.is_public)}
+                        >
+                          {file.is_public ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
+                        </Button>
 
-                          <div>
-                            <Label htmlFor="sharePassword">Password Protection (optional)</Label>
-                            <Input
-                              id="sharePassword"
-                              type="password"
-                              value={sharePassword}
-                              onChange={(e) => setSharePassword(e.target.value)}
-                              placeholder="Enter password to protect the link"
-                            />
-                          </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openPasswordDialog(file)}
+                        >
+                          {file.is_locked ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
+                        </Button>
 
-                          <div>
-                            <Label htmlFor="expiryDays">Expires in (days)</Label>
-                            <Select value={expiryDays} onValueChange={setExpiryDays}>
-                              <SelectTrigger>
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="1">1 day</SelectItem>
-                                <SelectItem value="7">7 days</SelectItem>
-                                <SelectItem value="30">30 days</SelectItem>
-                                <SelectItem value="90">90 days</SelectItem>
-                                <SelectItem value="never">Never</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </div>
-                        </div>
+                        <Dialog open={shareDialogOpen} onOpenChange={setShareDialogOpen}>
+                          <DialogTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setSelectedFile(file)}
+                            >
+                              <Share2 className="h-4 w-4" />
+                            </Button>
+                          </DialogTrigger>
+                          <DialogContent>
+                            <DialogHeader>
+                              <DialogTitle>Share File</DialogTitle>
+                              <DialogDescription>
+                                Create a sharing link for {selectedFile?.original_name}
+                              </DialogDescription>
+                            </DialogHeader>
 
-                        <DialogFooter>
-                          <Button variant="outline" onClick={() => setShareDialogOpen(false)}>
-                            Cancel
-                          </Button>
-                          <Button onClick={createShareLink}>
-                            Create Share Link
-                          </Button>
-                        </DialogFooter>
-                      </DialogContent>
-                    </Dialog>
-
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => deleteFile(file.id, file.storage_path)}
-                    >
-                      <Trash2 className="h-4 w-4" />
-                    </Button>
-                  </div>
-                </div>
+                            <div className="space-y-4">
+                              <div>
+                                <Label htmlFor="shareMethod">Share Method</Label>
+                                <Select value={shareMethod} onValueChange={(value: any) => setShareMethod(value)}>
+                                  <SelectTrigger>
+                                    <SelectValue placeholder="Select sharing method" />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="public">
+                                      <div className="flex items-center space-x-2">
+                                        <Copy className="h-4 w-4" />
+                                        <span>Direct Link</span>
+                                      </div>
+                                    </SelectItem>
+                                    <SelectItem value="email">
+                                      <div className="flex items-center space-x-2">
+                                        <Mail className="h-4 w-4" />
+                                        <span>Email Link</span>
+                                      </div>
+                                    </SelectItem>
+                                    <SelectItem value="code">
+                                      <div className="flex items-center space-x-2">
+                                        <Code className="h-4 w-4" />
+                                        <span>Share Code</span>
+                                      </div>
+                                    </SelectItem>
+                                  </SelectContent>
+                                </Select>
+                              </div>
 
-                {/* Show existing share links */}
-                {sharedLinks[file.id] && sharedLinks[file.id].length > 0 && (
-                  <div className="mt-4 pt-4 border-t">
-                    <h4 className="text-sm font-medium mb-2">Active Share Links</h4>
-                    <div className="space-y-2">
-                      {sharedLinks[file.id].map((link) => {
-                        const baseUrl = window.location.origin;
-                        const shareUrl = link.link_type === 'code' 
-                          ? `${baseUrl}/code` 
-                          : `${baseUrl}/share/${link.share_token}`;
-                        
-                        return (
-                          <div key={link.id} className="flex items-center justify-between text-xs p-2 bg-muted rounded">
-                            <div className="flex-1">
-                              <div className="flex items-center mb-1">
-                                <Badge variant="outline" className="mr-2">
-                                  {link.link_type}
-                                </Badge>
-                                {link.recipient_email && <span className="text-muted-foreground">{link.recipient_email}</span>}
-                                <span className="ml-2">{link.download_count} downloads</span>
-                                {link.download_limit && <span> / {link.download_limit}</span>}
+                              {shareMethod === 'email' && (
+                                <div>
+                                  <Label htmlFor="recipientEmail">Recipient Email</Label>
+                                  <Input
+                                    id="recipientEmail"
+                                    type="email"
+                                    value={recipientEmail}
+                                    onChange={(e) => setRecipientEmail(e.target.value)}
+                                    placeholder="Enter email address"
+                                  />
+                                </div>
+                              )}
+
+                              <div>
+                                <Label htmlFor="downloadLimit">Download Limit (optional)</Label>
+                                <Input
+                                  id="downloadLimit"
+                                  type="number"
+                                  value={downloadLimit}
+                                  onChange={(e) => setDownloadLimit(e.target.value)}
+                                  placeholder="Unlimited"
+                                />
                               </div>
-                              <div className="flex items-center space-x-2">
+
+                              <div>
+                                <Label htmlFor="sharePassword">Password Protection (optional)</Label>
                                 <Input
-                                  value={shareUrl}
-                                  readOnly
-                                  className="text-xs h-6 bg-background"
+                                  id="sharePassword"
+                                  type="password"
+                                  value={sharePassword}
+                                  onChange={(e) => setSharePassword(e.target.value)}
+                                  placeholder="Enter password to protect the link"
                                 />
-                                <Button
-                                  size="sm"
-                                  variant="outline"
-                                  className="h-6 px-2"
-                                  onClick={async () => {
-                                    await navigator.clipboard.writeText(shareUrl);
-                                    toast({
-                                      title: "Link copied",
-                                      description: "Share link copied to clipboard",
-                                    });
-                                  }}
-                                >
-                                  <Copy className="h-3 w-3" />
-                                </Button>
-                                {link.link_type === 'email' && (
-                                  <Button
-                                    size="sm"
-                                    variant="outline"
-                                    className="h-6 px-2"
-                                    onClick={() => {
-                                      const subject = `File shared: ${file.original_name}`;
-                                      const body = `Hi,\n\nI've shared a file with you: ${file.original_name}\n\nAccess it here: ${shareUrl}\n\nBest regards`;
-                                      window.open(`mailto:${link.recipient_email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`);
-                                    }}
-                                  >
-                                    <Mail className="h-3 w-3" />
-                                  </Button>
-                                )}
+                              </div>
+
+                              <div>
+                                <Label htmlFor="expiryDays">Expires in (days)</Label>
+                                <Select value={expiryDays} onValueChange={setExpiryDays}>
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    <SelectItem value="1">1 day</SelectItem>
+                                    <SelectItem value="7">7 days</SelectItem>
+                                    <SelectItem value="30">30 days</SelectItem>
+                                    <SelectItem value="90">90 days</SelectItem>
+                                    <SelectItem value="never">Never</SelectItem>
+                                  </SelectContent>
+                                </Select>
                               </div>
                             </div>
-                            <div className="flex items-center space-x-2 ml-2">
-                              {link.expires_at && (
-                                <span className="text-muted-foreground">
-                                  Expires {formatDate(link.expires_at)}
-                                </span>
-                              )}
-                              <Badge variant={link.is_active ? "default" : "secondary"}>
-                                {link.is_active ? "Active" : "Inactive"}
-                              </Badge>
-                            </div>
-                          </div>
-                        );
-                      })}
+
+                            <DialogFooter>
+                              <Button variant="outline" onClick={() => setShareDialogOpen(false)}>
+                                Cancel
+                              </Button>
+                              <Button onClick={createShareLink}>
+                                Create Share Link
+                              </Button>
+                            </DialogFooter>
+                          </DialogContent>
+                        </Dialog>
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openMoveDialog(file)}
+                          title="Move to folder"
+                        >
+                          <FolderInput className="h-4 w-4" />
+                        </Button>
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setVersionsFile(file)}
+                          title="Versions"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteFile(file.id)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
                     </div>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
-          ))}
+
+                    {/* Show existing share links */}
+                    {sharedLinks[file.id] && sharedLinks[file.id].length > 0 && (
+                      <div className="mt-4 pt-4 border-t">
+                        <h4 className="text-sm font-medium mb-2">Active Share Links</h4>
+                        <div className="space-y-2">
+                          {sharedLinks[file.id].map((link) => {
+                            const baseUrl = window.location.origin;
+                            const shareUrl = link.link_type === 'code' 
+                              ? `${baseUrl}/code` 
+                              : `${baseUrl}/share/${link.share_token}`;
+                        
+                            return (
+                              <div key={link.id} className="flex items-center justify-between text-xs p-2 bg-muted rounded">
+                                <div className="flex-1">
+                                  <div className="flex items-center mb-1">
+                                    <Badge variant="outline" className="mr-2">
+                                      {link.link_type}
+                                    </Badge>
+                                    {link.recipient_email && <span className="text-muted-foreground">{link.recipient_email}</span>}
+                                    <span className="ml-2">{link.download_count} downloads</span>
+                                    {link.download_limit && <span> / {link.download_limit}</span>}
+                                  </div>
+                                  <div className="flex items-center space-x-2">
+                                    <Input
+                                      value={shareUrl}
+                                      readOnly
+                                      className="text-xs h-6 bg-background"
+                                    />
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="h-6 px-2"
+                                      onClick={async () => {
+                                        await navigator.clipboard.writeText(shareUrl);
+                                        toast({
+                                          title: "Link copied",
+                                          description: "Share link copied to clipboard",
+                                        });
+                                      }}
+                                    >
+                                      <Copy className="h-3 w-3" />
+                                    </Button>
+                                    {link.link_type === 'email' && (
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="h-6 px-2"
+                                        onClick={() => {
+                                          const subject = `File shared: ${file.original_name}`;
+                                          const body = `Hi,\n\nI've shared a file with you: ${file.original_name}\n\nAccess it here: ${shareUrl}\n\nBest regards`;
+                                          window.open(`mailto:${link.recipient_email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`);
+                                        }}
+                                      >
+                                        <Mail className="h-3 w-3" />
+                                      </Button>
+                                    )}
+                                  </div>
+                                </div>
+                                <div className="flex items-center space-x-2 ml-2">
+                                  {link.expires_at && (
+                                    <span className="text-muted-foreground">
+                                      Expires {formatDate(link.expires_at)}
+                                    </span>
+                                  )}
+                                  <Badge variant={link.is_active ? "default" : "secondary"}>
+                                    {link.is_active ? "Active" : "Inactive"}
+                                  </Badge>
+                                </div>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+          )}
         </div>
-      )}
+      </div>
+
+      <Dialog open={!!passwordFile} onOpenChange={(open) => !open && setPasswordFile(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{passwordFile?.is_locked ? 'Change Password' : 'Lock File'}</DialogTitle>
+            <DialogDescription>
+              Anyone opening {passwordFile?.original_name} with its share code will need this password.
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="filePassword">Password</Label>
+            <Input
+              id="filePassword"
+              type="password"
+              value={filePassword}
+              onChange={(e) => setFilePassword(e.target.value)}
+              placeholder={passwordFile?.is_locked ? 'Enter a new password' : 'Enter a password'}
+            />
+          </div>
+          <DialogFooter>
+            {passwordFile?.is_locked && (
+              <Button variant="outline" onClick={clearFilePassword}>
+                <Unlock className="mr-2 h-4 w-4" />
+                Remove Password
+              </Button>
+            )}
+            <Button onClick={saveFilePassword} disabled={!filePassword}>
+              <Lock className="mr-2 h-4 w-4" />
+              {passwordFile?.is_locked ? 'Change Password' : 'Lock File'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!folderDialog} onOpenChange={(open) => !open && setFolderDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{folderDialog?.folder ? 'Rename Folder' : 'New Folder'}</DialogTitle>
+            <DialogDescription>
+              {folderDialog?.folder
+                ? `Choose a new name for ${folderDialog.folder.name}.`
+                : `The folder is created in ${breadcrumbs[breadcrumbs.length - 1]?.name ?? 'My Files'}.`}
+            </DialogDescription>
+          </DialogHeader>
+          <div>
+            <Label htmlFor="folderName">Name</Label>
+            <Input
+              id="folderName"
+              value={folderName}
+              onChange={(e) => setFolderName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && saveFolder()}
+              placeholder="Folder name"
+            />
+          </div>
+          <DialogFooter>
+            <Button onClick={saveFolder} disabled={!folderName.trim()}>
+              {folderDialog?.folder ? 'Rename' : 'Create Folder'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!movingFile} onOpenChange={(open) => !open && setMovingFile(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Move File</DialogTitle>
+            <DialogDescription>
+              Choose the folder {movingFile?.original_name} should go in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="max-h-72 overflow-y-auto rounded-md border p-2">
+            <FolderTree selectedId={moveTargetId} onSelect={setMoveTargetId} refreshKey={treeVersion} />
+          </div>
+          <DialogFooter>
+            <Button onClick={moveFile} disabled={moveTargetId === currentFolderId}>
+              <FolderInput className="mr-2 h-4 w-4" />
+              Move Here
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <FileVersions
+        file={versionsFile}
+        links={versionsFile ? sharedLinks[versionsFile.id] ?? [] : []}
+        onClose={() => setVersionsFile(null)}
+        onChanged={fetchFiles}
+      />
     </div>
   );
 };
\ No newline at end of file
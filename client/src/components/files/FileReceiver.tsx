@@ -1,32 +1,117 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Copy, Share, Mail, QrCode, Link } from 'lucide-react';
+import { Copy, Share, Mail, QrCode, Link, Trash2, Ban } from 'lucide-react';
+
+interface FileRequest {
+  id: string;
+  token: string;
+  title: string;
+  description: string | null;
+  maxFileSize: number | null;
+  allowedFileTypes: string[] | null;
+  expiresAt: string | null;
+  isActive: boolean;
+  uploadCount: number;
+  createdAt: string;
+}
+
+const requestUrl = (token: string) => `${window.location.origin}/request/${token}`;
 
 export const FileReceiver: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [receiverName, setReceiverName] = useState('');
   const [description, setDescription] = useState('');
+  const [maxSizeMb, setMaxSizeMb] = useState('');
+  const [allowedTypes, setAllowedTypes] = useState('');
+  const [deadline, setDeadline] = useState('');
   const [receiveUrl, setReceiveUrl] = useState('');
+  const [requests, setRequests] = useState<FileRequest[]>([]);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchRequests();
+    }
+  }, [user]);
 
-  const generateReceiveLink = () => {
+  const fetchRequests = async () => {
+    try {
+      setRequests(await apiRequest('/api/file-requests'));
+    } catch (error) {
+      console.error('Error fetching file requests:', error);
+    }
+  };
+
+  const generateReceiveLink = async () => {
     if (!user) return;
-    
-    const baseUrl = window.location.origin;
-    const receiveToken = Math.random().toString(36).substring(2) + Date.now().toString(36);
-    const url = `${baseUrl}/receive/${receiveToken}`;
-    setReceiveUrl(url);
+
+    try {
+      setCreating(true);
+      const request: FileRequest = await apiRequest('/api/file-requests', {
+        method: 'POST',
+        body: JSON.stringify({
+          title: receiverName.trim() || 'File Request',
+          description: description || null,
+          maxFileSize: maxSizeMb ? Math.round(parseFloat(maxSizeMb) * 1024 * 1024) : null,
+          allowedFileTypes: allowedTypes || null,
+          // The deadline is the end of the chosen day
+          expiresAt: deadline ? new Date(`${deadline}T23:59:59`).toISOString() : null,
+        }),
+      });
+      setReceiveUrl(requestUrl(request.token));
+      setRequests(prev => [request, ...prev]);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could not create request",
+        description: error.message,
+      });
+    } finally {
+      setCreating(false);
+    }
   };
 
-  const copyToClipboard = async () => {
+  const closeRequest = async (id: string) => {
     try {
-      await navigator.clipboard.writeText(receiveUrl);
+      const updated: FileRequest = await apiRequest(`/api/file-requests/${id}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ isActive: false }),
+      });
+      setRequests(prev => prev.map(request => request.id === id ? updated : request));
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could not close request",
+        description: error.message,
+      });
+    }
+  };
+
+  const deleteRequest = async (id: string) => {
+    try {
+      await apiRequest(`/api/file-requests/${id}`, { method: 'DELETE' });
+      setRequests(prev => prev.filter(request => request.id !== id));
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Could not delete request",
+        description: error.message,
+      });
+    }
+  };
+
+  const copyToClipboard = async (url = receiveUrl) => {
+    try {
+      await navigator.clipboard.writeText(url);
       toast({
         title: "Link copied",
         description: "Receive link copied to clipboard",
@@ -85,7 +170,40 @@ export const FileReceiver: React.FC = () => {
               />
             </div>
 
-            <Button onClick={generateReceiveLink} className="w-full">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="maxSize">Max File Size in MB (Optional)</Label>
+                <Input
+                  id="maxSize"
+                  type="number"
+                  min="1"
+                  value={maxSizeMb}
+                  onChange={(e) => setMaxSizeMb(e.target.value)}
+                  placeholder="e.g., 100"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="deadline">Deadline (Optional)</Label>
+                <Input
+                  id="deadline"
+                  type="date"
+                  value={deadline}
+                  onChange={(e) => setDeadline(e.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="allowedTypes">Allowed File Types (Optional)</Label>
+              <Input
+                id="allowedTypes"
+                value={allowedTypes}
+                onChange={(e) => setAllowedTypes(e.target.value)}
+                placeholder="e.g., .pdf, .docx, image/*"
+              />
+            </div>
+
+            <Button onClick={generateReceiveLink} className="w-full" disabled={creating}>
               <Share className="mr-2 h-4 w-4" />
               Generate Receive Link
             </Button>
@@ -109,7 +227,7 @@ export const FileReceiver: React.FC = () => {
                     readOnly 
                     className="font-mono text-sm"
                   />
-                  <Button onClick={copyToClipboard} size="sm" variant="outline">
+                  <Button onClick={() => copyToClipboard()} size="sm" variant="outline">
                     <Copy className="h-4 w-4" />
                   </Button>
                 </div>
@@ -145,8 +263,8 @@ export const FileReceiver: React.FC = () => {
                 <ul className="text-sm text-muted-foreground space-y-1">
                   <li>• Share this link with anyone</li>
                   <li>• They can upload files directly to your account</li>
-                  <li>• You'll receive notifications when files are uploaded</li>
-                  <li>• Files are secure and only accessible by you</li>
+                  <li>• You'll get an email when files are uploaded</li>
+                  <li>• Files land in My Files and are only accessible by you</li>
                 </ul>
               </div>
             </CardContent>
@@ -158,15 +276,59 @@ export const FileReceiver: React.FC = () => {
         <CardHeader>
           <CardTitle>Recent File Requests</CardTitle>
           <CardDescription>
-            Files that have been sent to you through receive links.
+            Your request links and how many files each has received.
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="text-center py-8 text-muted-foreground">
-            <QrCode className="mx-auto h-12 w-12 mb-4" />
-            <p>No files received yet</p>
-            <p className="text-sm">Files sent to your receive links will appear here</p>
-          </div>
+          {requests.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <QrCode className="mx-auto h-12 w-12 mb-4" />
+              <p>No file requests yet</p>
+              <p className="text-sm">Files sent to your request links appear in My Files</p>
+            </div>
+          ) : (
+            <ul className="divide-y">
+              {requests.map(request => {
+                const expired = !!request.expiresAt && new Date(request.expiresAt) < new Date();
+                return (
+                  <li key={request.id} className="py-3 flex items-center justify-between">
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{request.title}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {request.uploadCount} {request.uploadCount === 1 ? 'file' : 'files'} received
+                        {request.expiresAt && ` • Deadline ${new Date(request.expiresAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2 shrink-0">
+                      {!request.isActive ? (
+                        <Badge variant="secondary">Closed</Badge>
+                      ) : expired ? (
+                        <Badge variant="destructive">Past deadline</Badge>
+                      ) : (
+                        <Badge variant="default">Open</Badge>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => copyToClipboard(requestUrl(request.token))}>
+                        <Copy className="h-4 w-4" />
+                      </Button>
+                      {request.isActive && (
+                        <Button variant="ghost" size="sm" onClick={() => closeRequest(request.id)} title="Stop accepting files">
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteRequest(request.id)}
+                        className="text-destructive hover:text-destructive"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
         </CardContent>
       </Card>
     </div>
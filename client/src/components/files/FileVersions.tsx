@@ -0,0 +1,222 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+import { authorizedFetch } from '@/lib/authToken';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { History, RotateCcw, Upload } from 'lucide-react';
+
+interface FileVersion {
+  id: string;
+  versionNumber: number;
+  fileSize: number;
+  fileType: string;
+  scanStatus: string;
+  createdAt: string;
+}
+
+export interface VersionedLink {
+  id: string;
+  share_token: string;
+  link_type: string;
+  pinned_version_id?: string | null;
+}
+
+interface FileVersionsProps {
+  file: { id: string; original_name: string; is_encrypted?: boolean } | null;
+  links: VersionedLink[];
+  onClose: () => void;
+  // The file's current content or its links changed
+  onChanged: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Version history for one file. New versions keep the file's id, share code
+// and links; links serve the current version unless pinned to another.
+export const FileVersions: React.FC<FileVersionsProps> = ({ file, links, onClose, onChanged }) => {
+  const { toast } = useToast();
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [pins, setPins] = useState<Record<string, string | null>>({});
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const fetchVersions = async (fileId: string) => {
+    try {
+      const data = await apiRequest(`/api/files/${fileId}/versions`);
+      setVersions([...data.versions].sort((a: FileVersion, b: FileVersion) => b.versionNumber - a.versionNumber));
+      setCurrentVersion(data.currentVersion);
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  useEffect(() => {
+    if (file) {
+      fetchVersions(file.id);
+      setPins(Object.fromEntries(links.map(link => [link.id, link.pinned_version_id ?? null])));
+    }
+  }, [file?.id]);
+
+  const showError = (error: any) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message,
+    });
+  };
+
+  // multipart, so the JSON content type apiRequest sets would break it
+  const uploadVersion = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !selected) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', selected);
+      const response = await authorizedFetch(`/api/files/${file.id}/versions`, {
+        method: 'POST',
+        body: formData,
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || 'Upload failed');
+
+      await fetchVersions(file.id);
+      onChanged();
+      toast({
+        title: "New version uploaded",
+        description: `Version ${data.version.versionNumber} is now current`,
+      });
+    } catch (error: any) {
+      showError(error);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const restoreVersion = async (version: FileVersion) => {
+    if (!file) return;
+
+    try {
+      await apiRequest(`/api/files/${file.id}/versions/${version.id}/restore`, { method: 'POST' });
+      setCurrentVersion(version.versionNumber);
+      onChanged();
+      toast({
+        title: "Version restored",
+        description: `Version ${version.versionNumber} is now current`,
+      });
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  const pinLink = async (link: VersionedLink, versionId: string | null) => {
+    try {
+      await apiRequest(`/api/shared-links/${link.id}/pin`, {
+        method: 'PATCH',
+        body: JSON.stringify({ versionId }),
+      });
+      setPins(prev => ({ ...prev, [link.id]: versionId }));
+      onChanged();
+    } catch (error: any) {
+      showError(error);
+    }
+  };
+
+  return (
+    <Dialog open={!!file} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="mr-2 h-5 w-5" />
+            Versions
+          </DialogTitle>
+          <DialogDescription>
+            {file?.original_name} keeps its share code and links when you upload a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <ul className="divide-y rounded-lg border max-h-64 overflow-y-auto">
+            {versions.map(version => (
+              <li key={version.id} className="p-3 flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="text-sm font-medium">
+                    Version {version.versionNumber}
+                    {version.versionNumber === currentVersion && <Badge className="ml-2">Current</Badge>}
+                    {version.scanStatus === 'pending_scan' && <Badge variant="secondary" className="ml-2">Scanning</Badge>}
+                    {version.scanStatus === 'quarantined' && <Badge variant="destructive" className="ml-2">Quarantined</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(version.fileSize)} • {new Date(version.createdAt).toLocaleString()}
+                  </p>
+                </div>
+                {version.versionNumber !== currentVersion && (
+                  <Button variant="outline" size="sm" onClick={() => restoreVersion(version)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <input ref={inputRef} type="file" className="hidden" onChange={uploadVersion} />
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => inputRef.current?.click()}
+            disabled={uploading || file?.is_encrypted}
+          >
+            <Upload className="mr-2 h-4 w-4" />
+            {uploading ? 'Uploading...' : 'Upload New Version'}
+          </Button>
+          {file?.is_encrypted && (
+            <p className="text-xs text-muted-foreground">
+              New versions of encrypted files have to be encrypted in the browser first, which this dialog can't do yet.
+            </p>
+          )}
+
+          {links.length > 0 && (
+            <div className="space-y-2">
+              <Label>Shared links</Label>
+              {links.map(link => (
+                <div key={link.id} className="flex items-center justify-between gap-2">
+                  <span className="text-sm font-mono truncate">{link.link_type} • {link.share_token}</span>
+                  <Select
+                    value={pins[link.id] ?? 'latest'}
+                    onValueChange={(value) => pinLink(link, value === 'latest' ? null : value)}
+                  >
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="latest">Current version</SelectItem>
+                      {versions.map(version => (
+                        <SelectItem key={version.id} value={version.id}>
+                          Version {version.versionNumber}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
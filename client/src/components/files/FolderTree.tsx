@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, HardDrive } from 'lucide-react';
+
+export interface FolderSummary {
+  id: string;
+  name: string;
+}
+
+interface FolderTreeProps {
+  selectedId: string | null; // null is the top level
+  onSelect: (folderId: string | null) => void;
+  // Bump to reload after folders are created, renamed, moved or deleted
+  refreshKey?: number;
+}
+
+// The user's folders as an expandable tree. Sub-folders are fetched the
+// first time a folder is expanded.
+export const FolderTree: React.FC<FolderTreeProps> = ({ selectedId, onSelect, refreshKey }) => {
+  const [children, setChildren] = useState<Record<string, FolderSummary[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const loadChildren = async (folderId: string | null) => {
+    try {
+      const listing = await apiRequest(`/api/folders/${folderId ?? 'root'}/contents`);
+      setChildren(prev => ({ ...prev, [folderId ?? 'root']: listing.folders }));
+    } catch (error) {
+      console.error('Error loading folders:', error);
+    }
+  };
+
+  useEffect(() => {
+    setChildren({});
+    loadChildren(null);
+    expanded.forEach(folderId => loadChildren(folderId));
+  }, [refreshKey]);
+
+  const toggle = (folderId: string) => {
+    const next = new Set(expanded);
+    if (next.has(folderId)) {
+      next.delete(folderId);
+    } else {
+      next.add(folderId);
+      if (!children[folderId]) loadChildren(folderId);
+    }
+    setExpanded(next);
+  };
+
+  const renderFolders = (parentKey: string, depth: number): React.ReactNode =>
+    (children[parentKey] ?? []).map(folder => {
+      const isOpen = expanded.has(folder.id);
+      return (
+        <li key={folder.id}>
+          <div className="flex items-center" style={{ paddingLeft: depth * 12 }}>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => toggle(folder.id)}>
+              {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+            </Button>
+            <Button
+              variant={selectedId === folder.id ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 flex-1 justify-start min-w-0"
+              onClick={() => onSelect(folder.id)}
+            >
+              {isOpen ? <FolderOpen className="mr-2 h-4 w-4 shrink-0" /> : <Folder className="mr-2 h-4 w-4 shrink-0" />}
+              <span className="truncate">{folder.name}</span>
+            </Button>
+          </div>
+          {isOpen && <ul>{renderFolders(folder.id, depth + 1)}</ul>}
+        </li>
+      );
+    });
+
+  return (
+    <nav className="space-y-1 text-sm">
+      <Button
+        variant={selectedId === null ? 'secondary' : 'ghost'}
+        size="sm"
+        className="h-7 w-full justify-start"
+        onClick={() => onSelect(null)}
+      >
+        <HardDrive className="mr-2 h-4 w-4" />
+        My Files
+      </Button>
+      <ul>{renderFolders('root', 0)}</ul>
+    </nav>
+  );
+};
@@ -1,11 +1,14 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { apiRequest } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { 
   Share,
   Copy,
@@ -24,6 +27,7 @@ interface SharedLink {
   download_limit: number | null;
   download_count: number;
   expires_at: string | null;
+  allow_inline_view?: boolean;
   created_at: string;
   files: {
     original_name: string;
@@ -122,6 +126,25 @@ export const SharedLinks: React.FC = () => {
     }
   };
 
+  const setInlineView = async (id: string, allowInlineView: boolean) => {
+    try {
+      await apiRequest(`/api/shared-links/${id}/inline-view`, {
+        method: 'PATCH',
+        body: JSON.stringify({ allowInlineView }),
+      });
+
+      setSharedLinks(prev => prev.map(link =>
+        link.id === id ? { ...link, allow_inline_view: allowInlineView } : link
+      ));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "Could not change viewing for this link.",
+      });
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -283,6 +306,17 @@ export const SharedLinks: React.FC = () => {
                       </Button>
                     </div>
                   </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Switch
+                      id={`inline-view-${link.id}`}
+                      checked={link.allow_inline_view !== false}
+                      onCheckedChange={(checked) => setInlineView(link.id, checked)}
+                    />
+                    <Label htmlFor={`inline-view-${link.id}`} className="text-sm">
+                      Let recipients view in the browser without downloading
+                    </Label>
+                  </div>
                 </CardContent>
               </Card>
             );
@@ -0,0 +1,188 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { File, RotateCcw, Trash2 } from 'lucide-react';
+
+interface TrashedFile {
+  id: string;
+  originalName: string;
+  fileSize: number;
+  deletedAt: string;
+  purgeAt: string;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Deleted files, restorable until the server purges them
+export const TrashView = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [files, setFiles] = useState<TrashedFile[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      fetchTrash();
+    }
+  }, [user]);
+
+  const fetchTrash = async () => {
+    try {
+      const data = await apiRequest('/api/trash');
+      setFiles(data.files);
+      setRetentionDays(data.retentionDays);
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error loading trash",
+        description: error.message,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const restoreFile = async (file: TrashedFile) => {
+    try {
+      await apiRequest(`/api/trash/${file.id}/restore`, { method: 'POST' });
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+      toast({
+        title: "File restored",
+        description: `${file.originalName} and its links are back`,
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error restoring file",
+        description: error.message,
+      });
+    }
+  };
+
+  const deleteForever = async (file: TrashedFile) => {
+    try {
+      await apiRequest(`/api/trash/${file.id}`, { method: 'DELETE' });
+      setFiles(prev => prev.filter(f => f.id !== file.id));
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error deleting file",
+        description: error.message,
+      });
+    }
+  };
+
+  const emptyTrash = async () => {
+    try {
+      await apiRequest('/api/trash', { method: 'DELETE' });
+      setFiles([]);
+      toast({
+        title: "Trash emptied",
+        description: "All files in the trash have been permanently deleted",
+      });
+    } catch (error: any) {
+      toast({
+        variant: "destructive",
+        title: "Error emptying trash",
+        description: error.message,
+      });
+    }
+  };
+
+  if (loading) {
+    return <div className="text-center py-8">Loading trash...</div>;
+  }
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <div>
+          <CardTitle>Trash</CardTitle>
+          <CardDescription>
+            Deleted files can be restored for {retentionDays} days, then they are deleted permanently.
+          </CardDescription>
+        </div>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button variant="outline" disabled={files.length === 0}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Empty Trash
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {files.length} {files.length === 1 ? 'file' : 'files'} will be deleted permanently. This can't be undone.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={emptyTrash}>Delete Permanently</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </CardHeader>
+      <CardContent>
+        {files.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Trash2 className="mx-auto h-12 w-12 mb-4" />
+            <p>Trash is empty</p>
+          </div>
+        ) : (
+          <ul className="divide-y">
+            {files.map(file => (
+              <li key={file.id} className="py-3 flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <File className="mr-3 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{file.originalName}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {formatFileSize(file.fileSize)} • Deleted {new Date(file.deletedAt).toLocaleDateString()}
+                      {' '}• Purged {new Date(file.purgeAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  <Button variant="outline" size="sm" onClick={() => restoreFile(file)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Restore
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteForever(file)}
+                    className="text-destructive hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
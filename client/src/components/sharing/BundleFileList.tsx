@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { FileViewer } from '@/components/sharing/FileViewer';
+import { Download, Eye, FileText, Folder, Package } from 'lucide-react';
+
+export interface BundleFile {
+  id: string;
+  originalName: string;
+  fileSize: number;
+  fileType: string;
+  scanStatus?: string;
+  viewable?: boolean;
+}
+
+interface BundleFileListProps {
+  token: string;
+  // From POST /api/shared/:token/unlock, for password-protected links
+  accessToken?: string;
+  name: string;
+  files: BundleFile[];
+  // Sub-folders of a shared folder, listed before its files
+  folders?: { id: string; name: string }[];
+  onOpenFolder?: (folderId: string) => void;
+  // Expired links and exhausted download limits disable every button
+  disabled?: boolean;
+  onDownload?: () => void;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Files shared together under one link, as a bundle or a folder, each
+// downloadable on its own or all at once as a ZIP the server builds while
+// streaming
+export const BundleFileList: React.FC<BundleFileListProps> = ({
+  token, accessToken, name, files, folders, onOpenFolder, disabled, onDownload
+}) => {
+  const [viewingId, setViewingId] = useState<string | null>(null);
+
+  const linkUrl = (path: string, fileId?: string) => {
+    const params = new URLSearchParams();
+    if (accessToken) params.set('access', accessToken);
+    if (fileId) params.set('fileId', fileId);
+    const query = params.toString();
+    return `${path}${query ? `?${query}` : ''}`;
+  };
+
+  // Let the browser's download manager stream the response to disk
+  const saveAs = (href: string) => {
+    const a = document.createElement('a');
+    a.style.display = 'none';
+    a.href = href;
+    a.download = '';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    onDownload?.();
+  };
+
+  const totalSize = files.reduce((sum, file) => sum + file.fileSize, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-muted/50 p-4 rounded-lg flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold flex items-center">
+            {folders ? <Folder className="mr-2 h-4 w-4" /> : <Package className="mr-2 h-4 w-4" />}
+            {name}
+          </h3>
+          <p className="text-sm text-muted-foreground">
+            {!!folders?.length && `${folders.length} ${folders.length === 1 ? 'folder' : 'folders'} • `}
+            {files.length} {files.length === 1 ? 'file' : 'files'} • {formatFileSize(totalSize)}
+          </p>
+        </div>
+        <Button
+          onClick={() => saveAs(linkUrl(`/api/download/shared/${token}/archive`))}
+          disabled={disabled || (files.length === 0 && !folders?.length)}
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Download All
+        </Button>
+      </div>
+
+      <ul className="divide-y rounded-lg border">
+        {folders?.map(folder => (
+          <li key={folder.id} className="p-3">
+            <button
+              type="button"
+              className="flex w-full items-center min-w-0 text-left"
+              onClick={() => onOpenFolder?.(folder.id)}
+            >
+              <Folder className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="text-sm font-medium truncate">{folder.name}</span>
+            </button>
+          </li>
+        ))}
+        {files.map(file => {
+          const scanning = file.scanStatus === 'pending_scan';
+          const quarantined = file.scanStatus === 'quarantined';
+
+          return (
+            <li key={file.id} className="p-3 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center min-w-0">
+                  <FileText className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{file.originalName}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatFileSize(file.fileSize)}
+                      {scanning && ' • Scanning for malware…'}
+                      {quarantined && ' • Quarantined'}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2 shrink-0">
+                  {file.viewable && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setViewingId(viewingId === file.id ? null : file.id)}
+                      disabled={disabled || scanning || quarantined}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => saveAs(linkUrl(`/api/download/shared/${token}`, file.id))}
+                    disabled={disabled || scanning || quarantined}
+                  >
+                    <Download className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {viewingId === file.id && (
+                <FileViewer
+                  src={linkUrl(`/api/view/shared/${token}`, file.id)}
+                  fileType={file.fileType}
+                  fileName={file.originalName}
+                />
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -1,21 +1,18 @@
 import React, { useState } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { Download, Lock, AlertCircle, FileText, Key } from 'lucide-react';
+import { Download, Lock, FileText, Key } from 'lucide-react';
 
 interface FileData {
   id: string;
-  original_name: string;
-  file_size: number;
-  file_type: string;
-  storage_path: string;
-  is_locked: boolean;
-  share_code: string;
+  originalName: string;
+  fileSize: number;
+  fileType: string;
+  shareCode: string;
 }
 
 export const CodeSharePage: React.FC = () => {
@@ -26,6 +23,26 @@ export const CodeSharePage: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [downloading, setDownloading] = useState(false);
   const [passwordRequired, setPasswordRequired] = useState(false);
+  // Stands in for the password in URLs, which would otherwise end up in
+  // logs and browser history
+  const [accessToken, setAccessToken] = useState('');
+
+  const codeUrl = (path: string, access = accessToken) =>
+    `${path}/${encodeURIComponent(shareCode.trim().toUpperCase())}${access ? `?access=${encodeURIComponent(access)}` : ''}`;
+
+  // The password travels in a POST body once and is traded for an access token
+  const unlock = async (): Promise<string> => {
+    const response = await fetch(`${codeUrl('/api/public/file', '')}/unlock`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ password }),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to verify password');
+    }
+    return data.accessToken;
+  };
 
   const fetchFileByCode = async () => {
     if (!shareCode.trim()) {
@@ -39,34 +56,31 @@ export const CodeSharePage: React.FC = () => {
 
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('files')
-        .select('*')
-        .eq('share_code', shareCode.trim().toUpperCase());
-
-      if (error) throw error;
-
-      if (!data || data.length === 0) {
+      const access = password ? await unlock() : '';
+      setAccessToken(access);
+      setPassword('');
+
+      const response = await fetch(codeUrl('/api/public/file', access));
+      const data = await response.json();
+
+      if (!response.ok) {
+        setFileData(null);
+        if (data.requiresPassword) {
+          setPasswordRequired(true);
+          return;
+        }
         toast({
           variant: "destructive",
-          title: "File not found",
-          description: "No file found with this share code",
+          title: data.code === 'invalid_password' ? "Invalid password" : "File not available",
+          description: data.error || 'No file found with this share code',
         });
         return;
       }
 
-      const fileData = Array.isArray(data) ? data[0] : data;
-
-      setFileData(fileData);
-      
-      // Check if file is locked
-      if (fileData.is_locked) {
-        setPasswordRequired(true);
-      }
-
+      setFileData(data);
       toast({
         title: "File found",
-        description: `Found: ${fileData.original_name}`,
+        description: `Found: ${data.originalName}`,
       });
     } catch (error: any) {
       toast({
@@ -79,93 +93,25 @@ export const CodeSharePage: React.FC = () => {
     }
   };
 
+  // Let the browser's download manager stream the file, so an interrupted
+  // download can be resumed
   const downloadFile = async () => {
     if (!fileData) return;
 
-    // Check if file is locked and password is required
-    if (fileData.is_locked && passwordRequired && !password.trim()) {
-      toast({
-        variant: "destructive",
-        title: "Password required",
-        description: "Please enter the password to unlock this file",
-      });
-      return;
-    }
-
     setDownloading(true);
     try {
-      // If file is locked, validate password first
-      if (fileData.is_locked && password.trim()) {
-        // First get the file's password hash by checking if it has a share link with password
-        const { data: shareLink, error: shareLinkError } = await supabase
-          .from('shared_links')
-          .select('password_hash, share_token')
-          .eq('file_id', fileData.id)
-          .not('password_hash', 'is', null)
-          .maybeSingle();
-
-        if (shareLinkError && shareLinkError.code !== 'PGRST116') {
-          throw shareLinkError;
-        }
-
-        if (shareLink?.password_hash) {
-          // Validate password using the database function
-          const { data: isValid, error: validateError } = await supabase.rpc('validate_share_password', {
-            token: shareLink.share_token,
-            password: password
-          });
-
-          if (validateError) throw validateError;
-
-          if (!isValid) {
-            toast({
-              variant: "destructive",
-              title: "Invalid password",
-              description: "The password you entered is incorrect",
-            });
-            setDownloading(false);
-            return;
-          }
-        }
-      }
-
-      const { data: fileBlob, error } = await supabase.storage
-        .from('files')
-        .download(fileData.storage_path);
-
-      if (error) throw error;
-
-      // Create download link
-      const url = URL.createObjectURL(fileBlob);
       const a = document.createElement('a');
-      a.href = url;
-      a.download = fileData.original_name;
+      a.style.display = 'none';
+      a.href = codeUrl('/api/public/download');
+      a.download = '';
       document.body.appendChild(a);
       a.click();
       document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-
-      // Log the download
-      await supabase.from('download_logs').insert({
-        file_id: fileData.id,
-        shared_link_id: null,
-        download_method: 'share_code',
-        downloader_ip: null,
-        downloader_user_agent: navigator.userAgent,
-      });
-
-      // Update file download count
-      await supabase
-        .from('files')
-        .update({ download_count: (fileData as any).download_count + 1 })
-        .eq('id', fileData.id);
 
       toast({
         title: "Download started",
         description: "Your file download has begun",
       });
-
-      setPasswordRequired(false);
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -202,9 +148,14 @@ export const CodeSharePage: React.FC = () => {
               <Input
                 id="shareCode"
                 value={shareCode}
-                onChange={(e) => setShareCode(e.target.value.toUpperCase())}
-                placeholder="Enter 8-character code"
-                maxLength={8}
+                onChange={(e) => {
+                  setShareCode(e.target.value.toUpperCase());
+                  setFileData(null);
+                  setPasswordRequired(false);
+                  setPassword('');
+                }}
+                placeholder="Enter share code"
+                maxLength={32}
                 className="font-mono"
                 onKeyPress={(e) => e.key === 'Enter' && fetchFileByCode()}
               />
@@ -214,41 +165,47 @@ export const CodeSharePage: React.FC = () => {
             </div>
           </div>
 
+          {passwordRequired && (
+            <div className="space-y-2">
+              <Alert>
+                <Lock className="h-4 w-4" />
+                <AlertDescription>
+                  This file is password protected
+                </AlertDescription>
+              </Alert>
+              {!fileData && (
+                <>
+                  <Label htmlFor="password">Enter Password</Label>
+                  <div className="flex space-x-2">
+                    <Input
+                      id="password"
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Enter password"
+                      onKeyPress={(e) => e.key === 'Enter' && fetchFileByCode()}
+                    />
+                    <Button onClick={fetchFileByCode} disabled={loading || !password} size="sm">
+                      Unlock
+                    </Button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {fileData && (
             <div className="space-y-4">
               <div className="text-center space-y-2 p-4 bg-muted rounded-lg">
                 <FileText className="mx-auto h-8 w-8 text-primary" />
-                <h3 className="font-medium">{fileData.original_name}</h3>
+                <h3 className="font-medium">{fileData.originalName}</h3>
                 <p className="text-sm text-muted-foreground">
-                  {formatFileSize(fileData.file_size)} • {fileData.file_type}
+                  {formatFileSize(fileData.fileSize)} • {fileData.fileType}
                 </p>
               </div>
 
-              {fileData.is_locked && (
-                <Alert>
-                  <Lock className="h-4 w-4" />
-                  <AlertDescription>
-                    This file is password protected
-                  </AlertDescription>
-                </Alert>
-              )}
-
-              {passwordRequired && (
-                <div className="space-y-2">
-                  <Label htmlFor="password">Enter Password</Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="Enter password"
-                    onKeyPress={(e) => e.key === 'Enter' && downloadFile()}
-                  />
-                </div>
-              )}
-
-              <Button 
-                onClick={downloadFile} 
+              <Button
+                onClick={downloadFile}
                 disabled={downloading}
                 className="w-full"
               >
@@ -261,4 +218,4 @@ export const CodeSharePage: React.FC = () => {
       </Card>
     </div>
   );
-};
\ No newline at end of file
+};
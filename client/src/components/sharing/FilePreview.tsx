@@ -0,0 +1,77 @@
+import React, { useState, useEffect } from 'react';
+import 'highlight.js/styles/github-dark.css';
+
+interface FilePreviewProps {
+  token: string;
+  // From POST /api/shared/:token/unlock, for password-protected links
+  accessToken?: string;
+  // Required for folder links: the file inside the shared folder
+  fileId?: string;
+}
+
+type Preview =
+  | { kind: 'image'; url: string }
+  | { kind: 'text'; html: string; truncated: boolean };
+
+// Thumbnail or highlighted snippet generated by the server. Renders nothing
+// while loading or when the file has no preview.
+export const FilePreview: React.FC<FilePreviewProps> = ({ token, accessToken, fileId }) => {
+  const [preview, setPreview] = useState<Preview | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    const fetchPreview = async () => {
+      const params = new URLSearchParams();
+      if (accessToken) params.set('access', accessToken);
+      if (fileId) params.set('fileId', fileId);
+      const query = params.toString();
+
+      try {
+        const response = await fetch(`/api/shared/${token}/preview${query ? `?${query}` : ''}`);
+        if (!response.ok || cancelled) return;
+
+        if (response.headers.get('Content-Type')?.startsWith('image/')) {
+          objectUrl = URL.createObjectURL(await response.blob());
+          if (!cancelled) setPreview({ kind: 'image', url: objectUrl });
+        } else {
+          const data = await response.json();
+          if (!cancelled) setPreview({ kind: 'text', html: data.html, truncated: data.truncated });
+        }
+      } catch {
+        // Previews are optional; the download still works without one
+      }
+    };
+
+    setPreview(null);
+    fetchPreview();
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [token, accessToken, fileId]);
+
+  if (!preview) return null;
+
+  if (preview.kind === 'image') {
+    return (
+      <div className="flex justify-center rounded-lg bg-muted/50 p-2">
+        <img src={preview.url} alt="File preview" className="max-h-80 rounded object-contain" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="rounded-lg overflow-hidden text-left">
+      {/* highlight.js escapes the source text, so its markup is safe to inject */}
+      <pre className="max-h-80 overflow-auto text-xs m-0">
+        <code className="hljs" dangerouslySetInnerHTML={{ __html: preview.html }} />
+      </pre>
+      {preview.truncated && (
+        <p className="text-xs text-muted-foreground bg-muted/50 px-3 py-1">Preview shows the beginning of the file</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useState, useEffect } from 'react';
+import { AlertCircle } from 'lucide-react';
+
+// Mirrors the types the server will serve inline (server/downloads.ts)
+const MEDIA_TYPES = [
+  'application/pdf',
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif',
+  'video/mp4', 'video/webm', 'video/ogg',
+  'audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/wav', 'audio/webm',
+];
+const TEXT_TYPES = ['text/plain', 'text/csv', 'text/markdown', 'application/json'];
+
+// Tables beyond this many rows are cut off
+const MAX_CSV_ROWS = 500;
+
+export const isViewableType = (fileType: string) =>
+  MEDIA_TYPES.includes(fileType) || TEXT_TYPES.includes(fileType);
+
+interface FileViewerProps {
+  // URL of the inline view endpoint, including any password or fileId
+  src: string;
+  fileType: string;
+  fileName: string;
+}
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, quotes and newlines
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const TextViewer: React.FC<{ src: string; csv: boolean }> = ({ src, csv }) => {
+  const [text, setText] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    setText(null);
+    setError('');
+
+    fetch(src)
+      .then(async response => {
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
+          throw new Error(data.error || 'Failed to load file');
+        }
+        return response.text();
+      })
+      .then(body => { if (!cancelled) setText(body); })
+      .catch(err => { if (!cancelled) setError(err.message); });
+
+    return () => { cancelled = true; };
+  }, [src]);
+
+  if (error) {
+    return (
+      <div className="flex items-center space-x-2 p-4 bg-destructive/10 text-destructive rounded-md">
+        <AlertCircle className="h-4 w-4" />
+        <span className="text-sm">{error}</span>
+      </div>
+    );
+  }
+
+  if (text === null) {
+    return <div className="animate-pulse h-40 rounded-lg bg-muted/50" />;
+  }
+
+  if (!csv) {
+    return <pre className="max-h-[32rem] overflow-auto rounded-lg bg-muted/50 p-4 text-xs whitespace-pre-wrap">{text}</pre>;
+  }
+
+  const [header = [], ...rows] = parseCsv(text);
+  return (
+    <div className="max-h-[32rem] overflow-auto rounded-lg border">
+      <table className="w-full text-xs">
+        <thead className="bg-muted sticky top-0">
+          <tr>
+            {header.map((cell, i) => <th key={i} className="px-2 py-1 text-left font-medium">{cell}</th>)}
+          </tr>
+        </thead>
+        <tbody>
+          {rows.slice(0, MAX_CSV_ROWS).map((row, i) => (
+            <tr key={i} className="border-t">
+              {row.map((cell, j) => <td key={j} className="px-2 py-1">{cell}</td>)}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length > MAX_CSV_ROWS && (
+        <p className="text-xs text-muted-foreground px-2 py-1">
+          Showing the first {MAX_CSV_ROWS} of {rows.length} rows. Download the file to see the rest.
+        </p>
+      )}
+    </div>
+  );
+};
+
+// Shows a shared file in the page, streamed from the inline view endpoint
+export const FileViewer: React.FC<FileViewerProps> = ({ src, fileType, fileName }) => {
+  if (fileType === 'application/pdf') {
+    return <iframe src={src} title={fileName} className="w-full h-[32rem] rounded-lg border" />;
+  }
+  if (fileType.startsWith('image/')) {
+    return <img src={src} alt={fileName} className="mx-auto max-h-[32rem] rounded-lg object-contain" />;
+  }
+  if (fileType.startsWith('video/')) {
+    return <video src={src} controls className="w-full max-h-[32rem] rounded-lg bg-black" />;
+  }
+  if (fileType.startsWith('audio/')) {
+    return <audio src={src} controls className="w-full" />;
+  }
+  return <TextViewer src={src} csv={fileType === 'text/csv'} />;
+};
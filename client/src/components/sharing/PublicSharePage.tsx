@@ -7,7 +7,9 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
-import { Download, Lock, AlertCircle, FileText } from 'lucide-react';
+import { FilePreview } from '@/components/sharing/FilePreview';
+import { FileViewer, isViewableType } from '@/components/sharing/FileViewer';
+import { Download, Eye, Lock, AlertCircle, FileText } from 'lucide-react';
 
 interface ShareData {
   id: string;
@@ -19,6 +21,7 @@ interface ShareData {
   expires_at: string | null;
   is_active: boolean;
   password_hash: string | null;
+  allow_inline_view?: boolean;
   file: {
     original_name: string;
     file_size: number;
@@ -35,8 +38,11 @@ export const PublicSharePage: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [password, setPassword] = useState('');
+  // Carried by the viewer and preview URLs instead of the password
+  const [accessToken, setAccessToken] = useState('');
   const [passwordRequired, setPasswordRequired] = useState(false);
   const [downloading, setDownloading] = useState(false);
+  const [viewing, setViewing] = useState(false);
 
   useEffect(() => {
     if (token) {
@@ -103,15 +109,17 @@ export const PublicSharePage: React.FC = () => {
         return;
       }
 
-      // Use the database function to properly validate password
-      const { data, error } = await supabase.rpc('validate_share_password', {
-        token: token,
-        password: password
+      // The server checks the password and hands back a token for the URLs
+      const response = await fetch(`/api/shared/${token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
       });
 
-      if (error) throw error;
-      
-      if (data === true) {
+      if (response.ok) {
+        const data = await response.json();
+        setAccessToken(data.accessToken);
+        setPassword('');
         setPasswordRequired(false);
         toast({
           title: "Access granted",
@@ -275,6 +283,16 @@ export const PublicSharePage: React.FC = () => {
             )}
           </div>
 
+          {token && !passwordRequired && (viewing ? (
+            <FileViewer
+              src={`/api/view/shared/${token}${accessToken ? `?access=${encodeURIComponent(accessToken)}` : ''}`}
+              fileType={shareData.file.file_type}
+              fileName={shareData.file.original_name}
+            />
+          ) : (
+            <FilePreview token={token} accessToken={accessToken} />
+          ))}
+
           {shareData.file.is_locked && (
             <Alert>
               <Lock className="h-4 w-4" />
@@ -311,6 +329,18 @@ export const PublicSharePage: React.FC = () => {
             <Download className="mr-2 h-4 w-4" />
             {downloading ? 'Downloading...' : 'Download File'}
           </Button>
+
+          {shareData.allow_inline_view !== false && isViewableType(shareData.file.file_type) && !viewing && (
+            <Button
+              onClick={() => setViewing(true)}
+              disabled={passwordRequired}
+              variant="outline"
+              className="w-full"
+            >
+              <Eye className="mr-2 h-4 w-4" />
+              View in Browser
+            </Button>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { apiRequest } from '@/lib/queryClient';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ShieldAlert } from 'lucide-react';
+
+interface SecurityEvent {
+  id: string;
+  shareType: 'share_code' | 'link';
+  shareName: string | null;
+  sourceIp: string | null;
+  failures: number;
+  lockedUntil: string;
+  createdAt: string;
+}
+
+// Lockouts after repeated wrong passwords on the user's shares
+export const ShareSecurityEvents = () => {
+  const { user } = useAuth();
+  const [events, setEvents] = useState<SecurityEvent[]>([]);
+
+  useEffect(() => {
+    if (user) {
+      apiRequest('/api/security-events')
+        .then(setEvents)
+        .catch((error) => console.error('Error loading security events:', error));
+    }
+  }, [user]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldAlert className="mr-2 h-5 w-5" />
+          Security Alerts
+        </CardTitle>
+        <CardDescription>
+          Shares that were locked after repeated wrong passwords
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {events.length ? (
+          <div className="space-y-3">
+            {events.map(event => {
+              const active = new Date(event.lockedUntil) > new Date();
+              return (
+                <div key={event.id} className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate max-w-[300px]">
+                      {event.shareName || 'Deleted share'}
+                      <span className="text-muted-foreground font-normal">
+                        {' '}• {event.shareType === 'share_code' ? 'share code' : 'link'}
+                      </span>
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {event.failures} failed attempts{event.sourceIp ? ` from ${event.sourceIp}` : ''} •{' '}
+                      {new Date(event.createdAt).toLocaleString()}
+                    </p>
+                  </div>
+                  <Badge variant={active ? "destructive" : "secondary"}>
+                    {active ? `Locked until ${new Date(event.lockedUntil).toLocaleTimeString()}` : 'Lock expired'}
+                  </Badge>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">No suspicious activity</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
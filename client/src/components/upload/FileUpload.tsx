@@ -1,8 +1,13 @@
 import React, { useState, useCallback } from 'react';
 import { useDropzone } from 'react-dropzone';
 import { useAuth } from '@/contexts/AuthContext';
-import { supabase } from '@/integrations/supabase/client';
+import { uploadFileInChunks } from '@/lib/chunkedUpload';
+import { apiRequest } from '@/lib/queryClient';
+import { generateEncryptionKey, encryptFile, exportKeyToFragment } from '@/lib/e2eEncryption';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
@@ -13,7 +18,9 @@ import {
   X, 
   CheckCircle, 
   AlertCircle,
-  Loader2 
+  Loader2,
+  Lock,
+  Copy
 } from 'lucide-react';
 
 interface UploadFile {
@@ -22,6 +29,9 @@ interface UploadFile {
   status: 'pending' | 'uploading' | 'success' | 'error';
   error?: string;
   id?: string;
+  // Kept across retries so a failed encrypted upload resends the same ciphertext
+  encryption?: { key: CryptoKey; ciphertext: Blob };
+  shareUrl?: string;
 }
 
 export const FileUpload: React.FC = () => {
@@ -29,6 +39,7 @@ export const FileUpload: React.FC = () => {
   const { toast } = useToast();
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([]);
   const [isUploading, setIsUploading] = useState(false);
+  const [encryptFiles, setEncryptFiles] = useState(false);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     const newFiles: UploadFile[] = acceptedFiles.map(file => ({
@@ -55,75 +66,57 @@ export const FileUpload: React.FC = () => {
     setIsUploading(true);
     
     try {
-      // Check daily upload limit
-      const { data: profile } = await supabase
-        .from('profiles')
-        .select('daily_upload_count, daily_upload_limit, subscription_tier')
-        .eq('id', user.id)
-        .single();
-
-      // Skip limit check for pro users (they have unlimited uploads)
-      if (profile && profile.subscription_tier !== 'pro' && profile.daily_upload_count >= profile.daily_upload_limit) {
-        toast({
-          variant: "destructive",
-          title: "Upload limit reached",
-          description: `You've reached your daily upload limit of ${profile.daily_upload_limit} files. Upgrade to Pro for unlimited uploads.`,
-        });
-        setIsUploading(false);
-        return;
-      }
-
       // Upload files one by one
       for (let i = 0; i < uploadFiles.length; i++) {
         const uploadFile = uploadFiles[i];
         
-        if (uploadFile.status !== 'pending') continue;
+        // Failed uploads are retried; their session resumes from the missing chunks
+        if (uploadFile.status !== 'pending' && uploadFile.status !== 'error') continue;
 
         try {
           // Update status to uploading
           setUploadFiles(prev => prev.map((f, idx) => 
-            idx === i ? { ...f, status: 'uploading' as const } : f
+            idx === i ? { ...f, status: 'uploading' as const, error: undefined } : f
           ));
 
-          // Create unique file path
-          const fileExt = uploadFile.file.name.split('.').pop();
-          const fileName = `${user.id}/${Date.now()}-${Math.random().toString(36).substring(2)}.${fileExt}`;
-
-          // Upload to Supabase Storage
-          const { data: storageData, error: storageError } = await supabase.storage
-            .from('files')
-            .upload(fileName, uploadFile.file);
-
-          if (storageError) throw storageError;
-
-          // Save file metadata to database
-          const { data: fileData, error: dbError } = await supabase
-            .from('files')
-            .insert({
-              user_id: user.id,
-              original_name: uploadFile.file.name,
-              file_size: uploadFile.file.size,
-              file_type: uploadFile.file.type || 'application/octet-stream',
-              storage_path: fileName,
-            })
-            .select()
-            .single();
+          // End-to-end encryption happens before any bytes leave the browser
+          let encryption = uploadFile.encryption;
+          if (!encryption && encryptFiles) {
+            const key = await generateEncryptionKey();
+            encryption = { key, ciphertext: await encryptFile(uploadFile.file, key) };
+            const prepared = encryption;
+            setUploadFiles(prev => prev.map((f, idx) =>
+              idx === i ? { ...f, encryption: prepared } : f
+            ));
+          }
 
-          if (dbError) throw dbError;
+          // Chunked upload; resumes an earlier interrupted session for the same file.
+          // The server enforces the daily upload limit when the session is created.
+          const fileData = await uploadFileInChunks(uploadFile.file, {
+            ciphertext: encryption?.ciphertext,
+            onProgress: (progress) => setUploadFiles(prev => prev.map((f, idx) =>
+              idx === i ? { ...f, progress } : f
+            )),
+          });
 
-          // Update upload count (only for free users, pro users have unlimited)
-          if (profile?.subscription_tier !== 'pro') {
-            await supabase
-              .from('profiles')
-              .update({ 
-                daily_upload_count: (profile?.daily_upload_count || 0) + 1 
-              })
-              .eq('id', user.id);
+          // Encrypted files are shared through a link whose #fragment carries
+          // the key; the fragment is never sent to the server
+          let shareUrl: string | undefined;
+          if (encryption) {
+            const link = await apiRequest('/api/shared-links', {
+              method: 'POST',
+              body: JSON.stringify({
+                fileId: fileData.id,
+                linkType: 'public',
+                shareToken: crypto.randomUUID().replace(/-/g, ''),
+              }),
+            });
+            shareUrl = `${window.location.origin}/receive/${link.shareToken}#${await exportKeyToFragment(encryption.key)}`;
           }
 
           // Mark as success
           setUploadFiles(prev => prev.map((f, idx) => 
-            idx === i ? { ...f, status: 'success' as const, progress: 100, id: fileData.id } : f
+            idx === i ? { ...f, status: 'success' as const, progress: 100, id: fileData.id, shareUrl } : f
           ));
 
         } catch (error: any) {
@@ -157,6 +150,22 @@ export const FileUpload: React.FC = () => {
     }
   };
 
+  const copyShareUrl = async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Anyone with this link can download and decrypt the file.",
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Copy failed",
+        description: "Failed to copy link to clipboard",
+      });
+    }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -195,6 +204,24 @@ export const FileUpload: React.FC = () => {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          <div className="flex items-center justify-between p-3 border rounded-lg">
+            <div className="space-y-1">
+              <Label htmlFor="encrypt-files" className="flex items-center">
+                <Lock className="mr-2 h-4 w-4" />
+                End-to-end encryption
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                Files are encrypted in your browser. The key is only in the share link, never on our servers.
+              </p>
+            </div>
+            <Switch
+              id="encrypt-files"
+              checked={encryptFiles}
+              onCheckedChange={setEncryptFiles}
+              disabled={isUploading}
+            />
+          </div>
+
           <div
             {...getRootProps()}
             className={`border-2 border-dashed rounded-lg p-8 text-center cursor-pointer transition-colors ${
@@ -225,7 +252,7 @@ export const FileUpload: React.FC = () => {
                 <h3 className="text-sm font-medium">Files to upload</h3>
                 <Button
                   onClick={handleUploadFiles}
-                  disabled={isUploading || uploadFiles.every(f => f.status !== 'pending')}
+                  disabled={isUploading || uploadFiles.every(f => f.status !== 'pending' && f.status !== 'error')}
                   size="sm"
                 >
                   {isUploading ? (
@@ -264,6 +291,19 @@ export const FileUpload: React.FC = () => {
                           {uploadFile.error}
                         </p>
                       )}
+
+                      {uploadFile.shareUrl && (
+                        <div className="flex items-center space-x-2 mt-2">
+                          <Input value={uploadFile.shareUrl} readOnly className="h-8 text-xs" />
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => copyShareUrl(uploadFile.shareUrl!)}
+                          >
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      )}
                     </div>
 
                     <Badge variant={
@@ -1,8 +1,10 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
+import { authorizedFetch, refreshAccessToken, setAccessToken, setSessionEndedHandler } from '@/lib/authToken';
 
 interface User {
   id: string;
   email: string;
+  emailVerified: boolean;
 }
 
 interface Profile {
@@ -20,12 +22,20 @@ interface Profile {
   updatedAt: Date;
 }
 
+// Accounts with two-factor authentication get a challenge token from the
+// password step, to pass to completeTwoFactorLogin with their code
+export type LoginResult =
+  | { twoFactorRequired: false }
+  | { twoFactorRequired: true; challengeToken: string };
+
 interface AuthContextType {
   user: User | null;
   profile: Profile | null;
-  login: (email: string, password: string) => Promise<void>;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  completeTwoFactorLogin: (challengeToken: string, code: string) => Promise<void>;
   register: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
+  reloadUser: () => Promise<void>;
   loading: boolean;
 }
 
@@ -37,37 +47,36 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
-    // Check for existing token on mount
-    const token = localStorage.getItem('auth_token');
-    if (token) {
-      // Verify token by fetching profile
-      fetch('/api/profile', {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+    // Tokens used to be kept in localStorage; they are no longer accepted
+    localStorage.removeItem('auth_token');
+
+    // A revoked session signs this tab out
+    setSessionEndedHandler(() => {
+      setUser(null);
+      setProfile(null);
+    });
+
+    // Resume the session from the refresh cookie
+    refreshAccessToken()
+      .then(async session => {
+        if (!session) return;
+        const response = await authorizedFetch('/api/profile');
+        if (!response.ok) throw new Error('Failed to load profile');
+        const profileData: Profile = await response.json();
+        setProfile(profileData);
+        setUser(session.user);
       })
-        .then(response => {
-          if (response.ok) {
-            return response.json();
-          }
-          throw new Error('Invalid token');
-        })
-        .then((profileData: Profile) => {
-          setProfile(profileData);
-          setUser({ id: profileData.id, email: profileData.email });
-        })
-        .catch(() => {
-          localStorage.removeItem('auth_token');
-        })
-        .finally(() => {
-          setLoading(false);
-        });
-    } else {
-      setLoading(false);
-    }
+      .catch(() => {
+        setAccessToken(null);
+      })
+      .finally(() => {
+        setLoading(false);
+      });
+
+    return () => setSessionEndedHandler(null);
   }, []);
 
-  const login = async (email: string, password: string) => {
+  const login = async (email: string, password: string): Promise<LoginResult> => {
     const response = await fetch('/api/auth/login', {
       method: 'POST',
       headers: {
@@ -82,7 +91,32 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
 
     const data = await response.json();
-    localStorage.setItem('auth_token', data.token);
+    if (data.twoFactorRequired) {
+      return { twoFactorRequired: true, challengeToken: data.challengeToken };
+    }
+
+    setAccessToken(data.token);
+    setUser(data.user);
+    setProfile(data.profile);
+    return { twoFactorRequired: false };
+  };
+
+  const completeTwoFactorLogin = async (challengeToken: string, code: string) => {
+    const response = await fetch('/api/auth/login/2fa', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ challengeToken, code }),
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Verification failed');
+    }
+
+    const data = await response.json();
+    setAccessToken(data.token);
     setUser(data.user);
     setProfile(data.profile);
   };
@@ -102,13 +136,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
 
     const data = await response.json();
-    localStorage.setItem('auth_token', data.token);
+    setAccessToken(data.token);
     setUser(data.user);
     setProfile(data.profile);
   };
 
-  const logout = () => {
-    localStorage.removeItem('auth_token');
+  // Pick up changes to the account made elsewhere, e.g. a verified email
+  const reloadUser = async () => {
+    const session = await refreshAccessToken();
+    if (session) {
+      setUser(session.user);
+    }
+  };
+
+  const logout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error signing out:', error);
+    }
+    setAccessToken(null);
     setUser(null);
     setProfile(null);
   };
@@ -119,8 +166,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         user,
         profile,
         login,
+        completeTwoFactorLogin,
         register,
         logout,
+        reloadUser,
         loading,
       }}
     >
@@ -0,0 +1,65 @@
+// The access token lives only in memory; the refresh token is an httpOnly
+// cookie the page never sees. A reload gets a new access token through
+// /api/auth/refresh.
+let accessToken: string | null = null;
+let refreshing: Promise<RefreshResult | null> | null = null;
+let onSessionEnded: (() => void) | null = null;
+
+export interface RefreshResult {
+  user: { id: string; email: string; emailVerified: boolean };
+  token: string;
+}
+
+export function getAccessToken() {
+  return accessToken;
+}
+
+export function setAccessToken(token: string | null) {
+  accessToken = token;
+}
+
+// Called when the session can't be refreshed any more, e.g. after it was
+// revoked from another device
+export function setSessionEndedHandler(handler: (() => void) | null) {
+  onSessionEnded = handler;
+}
+
+// Concurrent callers share one refresh, since each refresh rotates the cookie
+export function refreshAccessToken(): Promise<RefreshResult | null> {
+  if (!refreshing) {
+    refreshing = fetch('/api/auth/refresh', { method: 'POST', credentials: 'same-origin' })
+      .then(async response => {
+        if (!response.ok) return null;
+        const data: RefreshResult = await response.json();
+        accessToken = data.token;
+        return data;
+      })
+      .catch(() => null)
+      .finally(() => {
+        refreshing = null;
+      });
+  }
+  return refreshing;
+}
+
+// fetch with the access token, refreshing it once if the server says it
+// has expired
+export async function authorizedFetch(url: string, options: RequestInit = {}): Promise<Response> {
+  const send = () => fetch(url, {
+    ...options,
+    headers: {
+      ...(accessToken && { 'Authorization': `Bearer ${accessToken}` }),
+      ...options.headers,
+    },
+  });
+
+  const response = await send();
+  if (response.status !== 401 || !accessToken) return response;
+
+  if (!(await refreshAccessToken())) {
+    accessToken = null;
+    onSessionEnded?.();
+    return response;
+  }
+  return send();
+}
@@ -0,0 +1,127 @@
+import { apiRequest } from './queryClient';
+import { authorizedFetch } from './authToken';
+
+export interface UploadOptions {
+  isPublic?: boolean;
+  generateShareCode?: boolean;
+  downloadLimit?: number | null;
+  expiresAt?: string | null;
+  // End-to-end encrypted body to send in place of the file's own bytes
+  ciphertext?: Blob;
+  onProgress?: (progress: number) => void;
+}
+
+interface UploadSession {
+  id: string;
+  chunkSize: number;
+  totalChunks: number;
+}
+
+interface UploadSessionState {
+  session: UploadSession;
+  missingChunks: number[];
+}
+
+// Session ids are remembered per file so an interrupted upload can pick up
+// where it left off after a reload
+const sessionStorageKey = (file: File) =>
+  `upload_session:${file.name}:${file.size}:${file.lastModified}`;
+
+async function sha256(data: ArrayBuffer): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+}
+
+async function resumeSession(file: File): Promise<UploadSessionState | null> {
+  const sessionId = localStorage.getItem(sessionStorageKey(file));
+  if (!sessionId) return null;
+
+  try {
+    const state = await apiRequest(`/api/uploads/${sessionId}`);
+    if (state.session.status !== 'pending') return null;
+    return state;
+  } catch {
+    localStorage.removeItem(sessionStorageKey(file));
+    return null;
+  }
+}
+
+async function putChunk(sessionId: string, index: number, data: ArrayBuffer, checksum: string) {
+  const response = await authorizedFetch(`/api/uploads/${sessionId}/chunks/${index}`, {
+    method: 'PUT',
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'X-Chunk-Checksum': checksum,
+    },
+    body: data,
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: 'Chunk upload failed' }));
+    throw new Error(error.error || `Chunk upload failed: ${response.status}`);
+  }
+}
+
+// Upload a file through a resumable upload session. The finalize checksum is
+// sha256 over the concatenated sha256 digests of every chunk.
+export async function uploadFileInChunks(file: File, options: UploadOptions = {}) {
+  const body: Blob = options.ciphertext ?? file;
+  const isEncrypted = !!options.ciphertext;
+
+  // The encryption key only lives in this page, so an encrypted upload is
+  // never resumed from a session started before a reload
+  let state = isEncrypted ? null : await resumeSession(file);
+
+  if (!state) {
+    const session: UploadSession = await apiRequest('/api/uploads', {
+      method: 'POST',
+      body: JSON.stringify({
+        fileName: file.name,
+        fileSize: body.size,
+        fileType: file.type || 'application/octet-stream',
+        isPublic: options.isPublic ?? false,
+        generateShareCode: options.generateShareCode ?? false,
+        isEncrypted,
+        downloadLimit: options.downloadLimit ?? null,
+        expiresAt: options.expiresAt ?? null,
+      }),
+    });
+    if (!isEncrypted) {
+      localStorage.setItem(sessionStorageKey(file), session.id);
+    }
+    state = {
+      session,
+      missingChunks: Array.from({ length: session.totalChunks }, (_, i) => i),
+    };
+  }
+
+  const { session, missingChunks } = state;
+  const missing = new Set(missingChunks);
+  const digests: Uint8Array[] = [];
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    const start = index * session.chunkSize;
+    const data = await body.slice(start, start + session.chunkSize).arrayBuffer();
+    const digest = await sha256(data);
+    digests.push(digest);
+
+    if (missing.has(index)) {
+      await putChunk(session.id, index, data, toHex(digest));
+    }
+    options.onProgress?.(Math.round(((index + 1) / session.totalChunks) * 100));
+  }
+
+  const combined = new Uint8Array(digests.length * 32);
+  digests.forEach((digest, i) => combined.set(digest, i * 32));
+  const checksum = toHex(await sha256(combined.buffer));
+
+  const uploaded = await apiRequest(`/api/uploads/${session.id}/complete`, {
+    method: 'POST',
+    body: JSON.stringify({ checksum }),
+  });
+  localStorage.removeItem(sessionStorageKey(file));
+  return uploaded;
+}
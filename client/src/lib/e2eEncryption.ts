@@ -0,0 +1,109 @@
+// End-to-end encryption for shared files. Files are encrypted in the browser
+// with AES-256-GCM before upload; the key travels only in the URL fragment
+// (`/receive/<token>#key=...`), which browsers never send to the server.
+//
+// Ciphertext layout:
+//   header:  "SSE1" | record size (uint32 BE) | base nonce (8 bytes)
+//   records: AES-GCM(plaintext record) including its 16-byte tag
+// Each record's IV is the base nonce followed by the record index (uint32 BE).
+// The last record is authenticated with a final-record flag so a truncated
+// download fails to decrypt instead of silently yielding a partial file.
+
+const MAGIC = new TextEncoder().encode('SSE1');
+const HEADER_SIZE = 16;
+const TAG_SIZE = 16;
+const RECORD_SIZE = 1024 * 1024;
+
+export const KEY_FRAGMENT_PARAM = 'key';
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, b => String.fromCharCode(b)).join(''))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
+
+function recordIv(baseNonce: Uint8Array, index: number): Uint8Array {
+  const iv = new Uint8Array(12);
+  iv.set(baseNonce);
+  new DataView(iv.buffer).setUint32(8, index);
+  return iv;
+}
+
+function recordParams(baseNonce: Uint8Array, index: number, isLast: boolean): AesGcmParams {
+  return {
+    name: 'AES-GCM',
+    iv: recordIv(baseNonce, index),
+    additionalData: new Uint8Array([isLast ? 1 : 0]),
+  };
+}
+
+export async function generateEncryptionKey(): Promise<CryptoKey> {
+  return crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+}
+
+export async function exportKeyToFragment(key: CryptoKey): Promise<string> {
+  const raw = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  return `${KEY_FRAGMENT_PARAM}=${toBase64Url(raw)}`;
+}
+
+// Read the key from a location hash such as "#key=...". Returns null when the
+// fragment carries no key.
+export async function importKeyFromFragment(hash: string): Promise<CryptoKey | null> {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(KEY_FRAGMENT_PARAM);
+  if (!encoded) return null;
+  return crypto.subtle.importKey('raw', fromBase64Url(encoded), { name: 'AES-GCM' }, false, ['decrypt']);
+}
+
+export async function encryptFile(file: Blob, key: CryptoKey): Promise<Blob> {
+  const baseNonce = crypto.getRandomValues(new Uint8Array(8));
+  const header = new Uint8Array(HEADER_SIZE);
+  header.set(MAGIC);
+  new DataView(header.buffer).setUint32(4, RECORD_SIZE);
+  header.set(baseNonce, 8);
+
+  // Blob parts may be backed by disk, so large files don't have to fit in memory
+  const parts: BlobPart[] = [header];
+  const recordCount = Math.max(1, Math.ceil(file.size / RECORD_SIZE));
+  for (let index = 0; index < recordCount; index++) {
+    const start = index * RECORD_SIZE;
+    const plaintext = await file.slice(start, start + RECORD_SIZE).arrayBuffer();
+    const params = recordParams(baseNonce, index, index === recordCount - 1);
+    parts.push(await crypto.subtle.encrypt(params, key, plaintext));
+  }
+
+  return new Blob(parts, { type: 'application/octet-stream' });
+}
+
+export async function decryptFile(ciphertext: Blob, key: CryptoKey, type = 'application/octet-stream'): Promise<Blob> {
+  const header = new Uint8Array(await ciphertext.slice(0, HEADER_SIZE).arrayBuffer());
+  if (header.length < HEADER_SIZE || MAGIC.some((byte, i) => header[i] !== byte)) {
+    throw new Error('Not an encrypted SecureShare file');
+  }
+
+  const recordSize = new DataView(header.buffer).getUint32(4);
+  const baseNonce = header.slice(8, HEADER_SIZE);
+  const sealedSize = recordSize + TAG_SIZE;
+  const body = ciphertext.slice(HEADER_SIZE);
+  const recordCount = Math.max(1, Math.ceil(body.size / sealedSize));
+
+  const parts: BlobPart[] = [];
+  for (let index = 0; index < recordCount; index++) {
+    const start = index * sealedSize;
+    const sealed = await body.slice(start, start + sealedSize).arrayBuffer();
+    const params = recordParams(baseNonce, index, index === recordCount - 1);
+    try {
+      parts.push(await crypto.subtle.decrypt(params, key, sealed));
+    } catch {
+      throw new Error('Decryption failed: the key is wrong or the file is damaged');
+    }
+  }
+
+  return new Blob(parts, { type });
+}
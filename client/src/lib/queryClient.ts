@@ -1,16 +1,14 @@
 import { QueryClient } from "@tanstack/react-query";
+import { authorizedFetch } from "@/lib/authToken";
 
 export const queryClient = new QueryClient({
   defaultOptions: {
     queries: {
       queryFn: async ({ queryKey }) => {
         const url = Array.isArray(queryKey) ? queryKey[0] as string : queryKey as string;
-        const token = localStorage.getItem('auth_token');
-        
-        const response = await fetch(url, {
+        const response = await authorizedFetch(url, {
           headers: {
             'Content-Type': 'application/json',
-            ...(token && { 'Authorization': `Bearer ${token}` }),
           },
         });
 
@@ -25,13 +23,10 @@ export const queryClient = new QueryClient({
 });
 
 export async function apiRequest(url: string, options: RequestInit = {}) {
-  const token = localStorage.getItem('auth_token');
-  
-  const response = await fetch(url, {
+  const response = await authorizedFetch(url, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
-      ...(token && { 'Authorization': `Bearer ${token}` }),
       ...options.headers,
     },
   });
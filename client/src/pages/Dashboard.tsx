@@ -2,6 +2,7 @@ import React from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { EmailVerificationBanner } from '@/components/auth/EmailVerificationBanner';
 import { Shield, Upload, FileText, Share } from 'lucide-react';
 
 const Dashboard = () => {
@@ -47,6 +48,8 @@ const Dashboard = () => {
           </p>
         </div>
 
+        <EmailVerificationBanner />
+
         {/* Quick Stats */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <Card>
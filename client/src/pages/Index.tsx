@@ -1,10 +1,13 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
-import { useLocation } from 'wouter';
+import { useLocation, useSearch } from 'wouter';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { TwoFactorPrompt } from '@/components/auth/TwoFactorPrompt';
+import { ForgotPasswordForm } from '@/components/auth/ForgotPasswordForm';
+import { SsoButtons } from '@/components/auth/SsoButtons';
 import { 
   Shield, 
   Share, 
@@ -21,11 +24,28 @@ import {
 const Index = () => {
   const { user, login, register, loading } = useAuth();
   const [, setLocation] = useLocation();
+  const search = useSearch();
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [challengeToken, setChallengeToken] = useState<string | null>(null);
+  const [forgotPassword, setForgotPassword] = useState(false);
+
+  // Single sign-on comes back here with an error in the query, or with a
+  // two-factor challenge in the fragment
+  useEffect(() => {
+    const ssoError = new URLSearchParams(search).get('sso_error');
+    const ssoChallenge = new URLSearchParams(window.location.hash.slice(1)).get('sso_challenge');
+    if (!ssoError && !ssoChallenge) return;
+
+    if (ssoError) setError(ssoError);
+    if (ssoChallenge) setChallengeToken(ssoChallenge);
+    setIsLogin(true);
+    window.history.replaceState(null, '', '/');
+    document.getElementById('auth-form')?.scrollIntoView();
+  }, [search]);
 
   // Don't show landing page if authenticated user
   if (user) {
@@ -47,7 +67,11 @@ const Index = () => {
 
     try {
       if (isLogin) {
-        await login(email, password);
+        const result = await login(email, password);
+        if (result.twoFactorRequired) {
+          setChallengeToken(result.challengeToken);
+          return;
+        }
       } else {
         await register(email, password);
       }
@@ -233,59 +257,89 @@ const Index = () => {
               </CardDescription>
             </CardHeader>
             <CardContent>
-              <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="email">Email</Label>
-                  <Input
-                    id="email"
-                    type="email"
-                    value={email}
-                    onChange={(e) => setEmail(e.target.value)}
-                    required
-                    placeholder="Enter your email"
-                  />
-                </div>
+              {challengeToken ? (
+                <TwoFactorPrompt
+                  challengeToken={challengeToken}
+                  onSuccess={() => setLocation('/dashboard')}
+                  onCancel={() => {
+                    setChallengeToken(null);
+                    setPassword('');
+                  }}
+                />
+              ) : forgotPassword ? (
+                <ForgotPasswordForm onBack={() => setForgotPassword(false)} />
+              ) : (
+                <>
+                  <SsoButtons />
+
+                  <form onSubmit={handleSubmit} className="space-y-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="email">Email</Label>
+                      <Input
+                        id="email"
+                        type="email"
+                        value={email}
+                        onChange={(e) => setEmail(e.target.value)}
+                        required
+                        placeholder="Enter your email"
+                      />
+                    </div>
                 
-                <div className="space-y-2">
-                  <Label htmlFor="password">Password</Label>
-                  <Input
-                    id="password"
-                    type="password"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                    placeholder="Enter your password"
-                    minLength={6}
-                  />
-                </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Password</Label>
+                      <Input
+                        id="password"
+                        type="password"
+                        value={password}
+                        onChange={(e) => setPassword(e.target.value)}
+                        required
+                        placeholder="Enter your password"
+                        minLength={6}
+                      />
+                      {isLogin && (
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="px-0 h-auto text-sm"
+                          onClick={() => {
+                            setForgotPassword(true);
+                            setError('');
+                          }}
+                        >
+                          Forgot password?
+                        </Button>
+                      )}
+                    </div>
 
-                {error && (
-                  <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
-                    {error}
-                  </div>
-                )}
+                    {error && (
+                      <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                        {error}
+                      </div>
+                    )}
 
-                <Button 
-                  type="submit" 
-                  className="w-full" 
-                  disabled={isSubmitting}
-                >
-                  {isSubmitting ? 'Please wait...' : (isLogin ? 'Sign In' : 'Create Account')}
-                </Button>
-              </form>
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={isSubmitting}
+                    >
+                      {isSubmitting ? 'Please wait...' : (isLogin ? 'Sign In' : 'Create Account')}
+                    </Button>
+                  </form>
 
-              <div className="mt-4 text-center">
-                <Button
-                  variant="link"
-                  onClick={() => {
-                    setIsLogin(!isLogin);
-                    setError('');
-                  }}
-                  className="text-sm"
-                >
-                  {isLogin ? "Don't have an account? Sign up" : "Already have an account? Sign in"}
-                </Button>
-              </div>
+                  <div className="mt-4 text-center">
+                    <Button
+                      variant="link"
+                      onClick={() => {
+                        setIsLogin(!isLogin);
+                        setError('');
+                      }}
+                      className="text-sm"
+                    >
+                      {isLogin ? "Don't have an account? Sign up" : "Already have an account? Sign in"}
+                    </Button>
+                  </div>
+                </>
+              )}
             </CardContent>
           </Card>
         </div>
@@ -4,13 +4,19 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Shield, Download, Lock, Clock, AlertCircle } from 'lucide-react';
+import { FilePreview } from '@/components/sharing/FilePreview';
+import { FileViewer } from '@/components/sharing/FileViewer';
+import { BundleFileList, type BundleFile } from '@/components/sharing/BundleFileList';
+import { importKeyFromFragment, decryptFile } from '@/lib/e2eEncryption';
+import { Shield, Download, Eye, Lock, Clock, AlertCircle, ChevronRight } from 'lucide-react';
 
 interface FileInfo {
   id: string;
   originalName: string;
   fileSize: number;
   fileType: string;
+  isEncrypted?: boolean;
+  viewable?: boolean;
   downloadCount: number;
   downloadLimit: number | null;
   expiresAt: string | null;
@@ -23,14 +29,39 @@ interface FileInfo {
   };
 }
 
+interface FolderSummary {
+  id: string;
+  name: string;
+}
+
+// Bundle links list their files; folder links list one folder at a time,
+// with breadcrumbs starting at the shared folder
+interface ListingInfo {
+  bundle?: FolderSummary;
+  folder?: FolderSummary;
+  breadcrumbs?: FolderSummary[];
+  folders?: FolderSummary[];
+  files: BundleFile[];
+  sharedLink: {
+    downloadCount: number;
+    downloadLimit: number | null;
+    expiresAt: string | null;
+  };
+}
+
 const ReceivePage = () => {
   const [match, params] = useRoute('/receive/:token');
   const [fileInfo, setFileInfo] = useState<FileInfo | null>(null);
+  const [listingInfo, setListingInfo] = useState<ListingInfo | null>(null);
   const [password, setPassword] = useState('');
+  // Stands in for the password in URLs, which would otherwise end up in
+  // logs and browser history
+  const [accessToken, setAccessToken] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(true);
   const [requiresPassword, setRequiresPassword] = useState(false);
   const [downloading, setDownloading] = useState(false);
+  const [viewing, setViewing] = useState(false);
 
   useEffect(() => {
     if (params?.token) {
@@ -38,12 +69,17 @@ const ReceivePage = () => {
     }
   }, [params?.token]);
 
-  const fetchFileInfo = async (token: string) => {
+  const accessQuery = (access = accessToken) => (access ? `?access=${encodeURIComponent(access)}` : '');
+
+  const fetchFileInfo = async (token: string, access = accessToken, folderId?: string) => {
     try {
       setLoading(true);
       setError('');
-      
-      const response = await fetch(`/api/shared/${token}${password ? `?password=${encodeURIComponent(password)}` : ''}`);
+
+      const query = new URLSearchParams();
+      if (access) query.set('access', access);
+      if (folderId) query.set('folderId', folderId);
+      const response = await fetch(`/api/shared/${token}${query.toString() ? `?${query}` : ''}`);
       const data = await response.json();
 
       if (!response.ok) {
@@ -56,7 +92,12 @@ const ReceivePage = () => {
         return;
       }
 
-      setFileInfo(data);
+      // Bundle and folder links list several files instead of describing one
+      if (data.bundle || data.folder) {
+        setListingInfo(data);
+      } else {
+        setFileInfo(data);
+      }
       setRequiresPassword(false);
       setError('');
     } catch (err) {
@@ -66,13 +107,40 @@ const ReceivePage = () => {
     }
   };
 
-  const handlePasswordSubmit = (e: React.FormEvent) => {
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (params?.token) {
-      fetchFileInfo(params.token);
+    if (!params?.token) return;
+
+    try {
+      const response = await fetch(`/api/shared/${params.token}/unlock`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        setError(data.error || 'Failed to verify password');
+        return;
+      }
+
+      setPassword('');
+      setAccessToken(data.accessToken);
+      fetchFileInfo(params.token, data.accessToken);
+    } catch (err) {
+      setError('Failed to verify password');
     }
   };
 
+  const saveAs = (href: string, fileName: string) => {
+    const a = document.createElement('a');
+    a.style.display = 'none';
+    a.href = href;
+    a.download = fileName;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
   const handleDownload = async () => {
     if (!params?.token) return;
 
@@ -80,43 +148,41 @@ const ReceivePage = () => {
       setDownloading(true);
       setError('');
 
-      const response = await fetch(`/api/download/shared/${params.token}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ password }),
-      });
+      const downloadUrl = `/api/download/shared/${params.token}${accessQuery()}`;
+      const fileName = fileInfo?.originalName || 'download';
 
-      if (!response.ok) {
-        const data = await response.json();
-        if (data.requiresPassword) {
-          setRequiresPassword(true);
-          setError('Password required');
-        } else {
+      if (fileInfo?.isEncrypted) {
+        // The key is in the URL fragment, which the server never receives;
+        // the ciphertext has to be fetched and decrypted here
+        const key = await importKeyFromFragment(window.location.hash);
+        if (!key) {
+          setError('This link is missing its decryption key. Ask the sender for the full link.');
+          return;
+        }
+
+        const response = await fetch(downloadUrl);
+        if (!response.ok) {
+          const data = await response.json().catch(() => ({}));
           setError(data.error || 'Download failed');
+          return;
         }
-        return;
-      }
 
-      // Create download link
-      const blob = await response.blob();
-      const url = window.URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.style.display = 'none';
-      a.href = url;
-      a.download = fileInfo?.originalName || 'download';
-      document.body.appendChild(a);
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+        const plaintext = await decryptFile(await response.blob(), key, fileInfo.fileType);
+        const objectUrl = URL.createObjectURL(plaintext);
+        saveAs(objectUrl, fileName);
+        setTimeout(() => URL.revokeObjectURL(objectUrl), 60_000);
+      } else {
+        // Hand the download to the browser instead of buffering it into a Blob,
+        // so large files stream to disk and can be paused and resumed
+        saveAs(downloadUrl, fileName);
+      }
 
       // Refresh file info to update download count
       if (params?.token) {
         fetchFileInfo(params.token);
       }
-    } catch (err) {
-      setError('Download failed');
+    } catch (err: any) {
+      setError(err?.message || 'Download failed');
     } finally {
       setDownloading(false);
     }
@@ -134,6 +200,13 @@ const ReceivePage = () => {
   const isLimitReached = fileInfo?.sharedLink?.downloadLimit && 
     fileInfo.sharedLink.downloadCount >= fileInfo.sharedLink.downloadLimit;
 
+  const listingLink = listingInfo?.sharedLink;
+  const isListingUnavailable = !!listingLink && (
+    (!!listingLink.expiresAt && new Date() > new Date(listingLink.expiresAt)) ||
+    (!!listingLink.downloadLimit && listingLink.downloadCount >= listingLink.downloadLimit)
+  );
+  const breadcrumbs = listingInfo?.breadcrumbs ?? [];
+
   if (loading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -167,10 +240,11 @@ const ReceivePage = () => {
               <Download className="h-8 w-8 text-primary" />
             </div>
             <CardTitle className="text-2xl">
-              {fileInfo ? 'File Ready for Download' : 'Access Required'}
+              {listingInfo ? 'Files Ready for Download' : fileInfo ? 'File Ready for Download' : 'Access Required'}
             </CardTitle>
             <CardDescription>
-              {fileInfo ? 'Your file is ready to download' : 'Please provide the required information'}
+              {listingInfo ? 'Download files one at a time or all together'
+                : fileInfo ? 'Your file is ready to download' : 'Please provide the required information'}
             </CardDescription>
           </CardHeader>
           
@@ -182,7 +256,7 @@ const ReceivePage = () => {
               </div>
             )}
 
-            {requiresPassword && !fileInfo && (
+            {requiresPassword && !fileInfo && !listingInfo && (
               <form onSubmit={handlePasswordSubmit} className="space-y-4">
                 <div className="space-y-2">
                   <Label htmlFor="password">Password Required</Label>
@@ -202,6 +276,54 @@ const ReceivePage = () => {
               </form>
             )}
 
+            {listingInfo && params?.token && (
+              <>
+                {breadcrumbs.length > 1 && (
+                  <nav className="flex flex-wrap items-center text-sm">
+                    {breadcrumbs.map((crumb, index) => (
+                      <React.Fragment key={crumb.id}>
+                        {index > 0 && <ChevronRight className="h-4 w-4 text-muted-foreground" />}
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="px-1"
+                          onClick={() => fetchFileInfo(params.token, accessToken, crumb.id)}
+                        >
+                          {crumb.name}
+                        </Button>
+                      </React.Fragment>
+                    ))}
+                  </nav>
+                )}
+                <BundleFileList
+                  token={params.token}
+                  accessToken={accessToken}
+                  name={listingInfo.bundle?.name ?? listingInfo.folder?.name ?? ''}
+                  files={listingInfo.files}
+                  folders={listingInfo.folder ? listingInfo.folders ?? [] : undefined}
+                  onOpenFolder={(folderId) => fetchFileInfo(params.token, accessToken, folderId)}
+                  disabled={isListingUnavailable}
+                  onDownload={() => setTimeout(() => params?.token && fetchFileInfo(params.token, accessToken, listingInfo.folder?.id), 1000)}
+                />
+                {listingLink && (listingLink.downloadLimit || listingLink.expiresAt) && (
+                  <div className="flex justify-between text-sm text-muted-foreground">
+                    {listingLink.downloadLimit && (
+                      <span>Downloads: {listingLink.downloadCount}/{listingLink.downloadLimit}</span>
+                    )}
+                    {listingLink.expiresAt && (
+                      <span>Expires: {new Date(listingLink.expiresAt).toLocaleDateString()}</span>
+                    )}
+                  </div>
+                )}
+                {isListingUnavailable && (
+                  <div className="flex items-center space-x-2 p-4 bg-destructive/10 text-destructive rounded-md">
+                    <AlertCircle className="h-4 w-4" />
+                    <span className="text-sm">This link has expired or reached its download limit</span>
+                  </div>
+                )}
+              </>
+            )}
+
             {fileInfo && (
               <>
                 <div className="space-y-4">
@@ -214,6 +336,12 @@ const ReceivePage = () => {
                       <div>
                         <span className="font-medium">Type:</span> {fileInfo.fileType}
                       </div>
+                      {fileInfo.isEncrypted && (
+                        <div className="col-span-2 flex items-center">
+                          <Lock className="mr-1 h-3 w-3" />
+                          End-to-end encrypted; decrypted in your browser
+                        </div>
+                      )}
                       {fileInfo.sharedLink?.downloadLimit && (
                         <div>
                           <span className="font-medium">Downloads:</span> {fileInfo.sharedLink.downloadCount}/{fileInfo.sharedLink.downloadLimit}
@@ -227,6 +355,16 @@ const ReceivePage = () => {
                     </div>
                   </div>
 
+                  {params?.token && viewing && !isExpired && !isLimitReached ? (
+                    <FileViewer
+                      src={`/api/view/shared/${params.token}${accessQuery()}`}
+                      fileType={fileInfo.fileType}
+                      fileName={fileInfo.originalName}
+                    />
+                  ) : params?.token && !fileInfo.isEncrypted && (
+                    <FilePreview token={params.token} accessToken={accessToken} />
+                  )}
+
                   {(isExpired || isLimitReached) ? (
                     <div className="flex items-center space-x-2 p-4 bg-destructive/10 text-destructive rounded-md">
                       <AlertCircle className="h-4 w-4" />
@@ -276,6 +414,13 @@ const ReceivePage = () => {
                           )}
                         </Button>
                       )}
+
+                      {!requiresPassword && fileInfo.viewable && !viewing && (
+                        <Button onClick={() => setViewing(true)} variant="outline" className="w-full">
+                          <Eye className="mr-2 h-4 w-4" />
+                          View in Browser
+                        </Button>
+                      )}
                     </>
                   )}
                 </div>
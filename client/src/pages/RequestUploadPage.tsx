@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { useRoute } from 'wouter';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Shield, Upload, AlertCircle, CheckCircle, Loader2 } from 'lucide-react';
+
+interface RequestInfo {
+  title: string;
+  description: string | null;
+  ownerName: string | null;
+  maxFileSize: number;
+  allowedFileTypes: string[] | null;
+  expiresAt: string | null;
+}
+
+interface UploadResult {
+  fileName: string;
+  error?: string;
+}
+
+const formatFileSize = (bytes: number) => {
+  if (bytes === 0) return '0 Bytes';
+  const k = 1024;
+  const sizes = ['Bytes', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+};
+
+// Public page where anyone with a file request link can send files to its owner
+const RequestUploadPage = () => {
+  const [match, params] = useRoute('/request/:token');
+  const [requestInfo, setRequestInfo] = useState<RequestInfo | null>(null);
+  const [uploaderName, setUploaderName] = useState('');
+  const [uploaderEmail, setUploaderEmail] = useState('');
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
+  const [results, setResults] = useState<UploadResult[]>([]);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    if (params?.token) {
+      fetchRequestInfo(params.token);
+    }
+  }, [params?.token]);
+
+  const fetchRequestInfo = async (token: string) => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/requests/${token}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        setError(data.error || 'Failed to load file request');
+        return;
+      }
+      setRequestInfo(data);
+    } catch (err) {
+      setError('Failed to load file request');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!params?.token || selectedFiles.length === 0) return;
+
+    setUploading(true);
+    setError('');
+    const uploaded: UploadResult[] = [];
+
+    // The server takes one file per upload so each gets its own size and type check
+    for (const file of selectedFiles) {
+      const formData = new FormData();
+      if (uploaderName) formData.append('uploaderName', uploaderName);
+      if (uploaderEmail) formData.append('uploaderEmail', uploaderEmail);
+      formData.append('file', file);
+
+      try {
+        const response = await fetch(`/api/requests/${params.token}/upload`, {
+          method: 'POST',
+          body: formData,
+        });
+        const data = await response.json().catch(() => ({}));
+        uploaded.push(response.ok
+          ? { fileName: file.name }
+          : { fileName: file.name, error: data.error || 'Upload failed' });
+
+        // A closed request won't take the remaining files either
+        if (response.status === 410) {
+          setError(data.error || 'This file request is no longer accepting files');
+          break;
+        }
+      } catch (err) {
+        uploaded.push({ fileName: file.name, error: 'Upload failed' });
+      }
+    }
+
+    setResults(prev => [...uploaded, ...prev]);
+    setSelectedFiles([]);
+    setUploading(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading file request...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card/50 backdrop-blur-sm">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-center h-16">
+            <div className="flex items-center space-x-2">
+              <Shield className="h-8 w-8 text-primary" />
+              <h1 className="text-xl font-bold">SecureShare</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Content */}
+      <main className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Card className="border-border bg-card/90 backdrop-blur-sm">
+          <CardHeader className="text-center">
+            <div className="mx-auto mb-4 w-16 h-16 bg-primary/10 rounded-full flex items-center justify-center">
+              <Upload className="h-8 w-8 text-primary" />
+            </div>
+            <CardTitle className="text-2xl">{requestInfo?.title || 'File Request'}</CardTitle>
+            <CardDescription>
+              {requestInfo
+                ? `${requestInfo.ownerName || 'Someone'} is asking you to send files`
+                : 'This link is not accepting files'}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent className="space-y-6">
+            {error && (
+              <div className="flex items-center space-x-2 p-4 bg-destructive/10 text-destructive rounded-md">
+                <AlertCircle className="h-4 w-4" />
+                <span className="text-sm">{error}</span>
+              </div>
+            )}
+
+            {requestInfo && (
+              <>
+                {requestInfo.description && (
+                  <p className="text-sm text-muted-foreground whitespace-pre-wrap">{requestInfo.description}</p>
+                )}
+
+                <div className="bg-muted/50 p-4 rounded-lg text-sm text-muted-foreground space-y-1">
+                  <p>Maximum file size: {formatFileSize(requestInfo.maxFileSize)}</p>
+                  {requestInfo.allowedFileTypes && (
+                    <p>Accepted types: {requestInfo.allowedFileTypes.join(', ')}</p>
+                  )}
+                  {requestInfo.expiresAt && (
+                    <p>Deadline: {new Date(requestInfo.expiresAt).toLocaleString()}</p>
+                  )}
+                </div>
+
+                <form onSubmit={handleUpload} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="uploaderName">Your Name (Optional)</Label>
+                      <Input
+                        id="uploaderName"
+                        value={uploaderName}
+                        onChange={(e) => setUploaderName(e.target.value)}
+                        maxLength={100}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="uploaderEmail">Your Email (Optional)</Label>
+                      <Input
+                        id="uploaderEmail"
+                        type="email"
+                        value={uploaderEmail}
+                        onChange={(e) => setUploaderEmail(e.target.value)}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="files">Files</Label>
+                    <Input
+                      id="files"
+                      type="file"
+                      multiple
+                      accept={requestInfo.allowedFileTypes?.join(',')}
+                      onChange={(e) => setSelectedFiles(Array.from(e.target.files || []))}
+                    />
+                  </div>
+
+                  <Button type="submit" className="w-full" disabled={uploading || selectedFiles.length === 0}>
+                    {uploading ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                        Uploading...
+                      </>
+                    ) : (
+                      <>
+                        <Upload className="mr-2 h-4 w-4" />
+                        Send {selectedFiles.length > 1 ? `${selectedFiles.length} Files` : 'File'}
+                      </>
+                    )}
+                  </Button>
+                </form>
+
+                {results.length > 0 && (
+                  <ul className="divide-y rounded-lg border">
+                    {results.map((result, i) => (
+                      <li key={i} className="p-3 flex items-center text-sm">
+                        {result.error ? (
+                          <AlertCircle className="mr-2 h-4 w-4 shrink-0 text-destructive" />
+                        ) : (
+                          <CheckCircle className="mr-2 h-4 w-4 shrink-0 text-green-500" />
+                        )}
+                        <span className="truncate">{result.fileName}</span>
+                        <span className="ml-auto pl-2 text-muted-foreground shrink-0">
+                          {result.error || 'Sent'}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+};
+
+export default RequestUploadPage;
@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { useLocation, useSearch } from 'wouter';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { CheckCircle, AlertCircle, MailCheck } from 'lucide-react';
+
+const VerifyEmailPage = () => {
+  const { user, reloadUser } = useAuth();
+  const [, setLocation] = useLocation();
+  const token = new URLSearchParams(useSearch()).get('token');
+  const [status, setStatus] = useState<'verifying' | 'verified' | 'failed'>('verifying');
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    const verify = async () => {
+      try {
+        const response = await fetch('/api/auth/verify-email', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ token }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Verification failed');
+        }
+
+        setStatus('verified');
+        if (user) {
+          await reloadUser();
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Verification failed');
+        setStatus('failed');
+      }
+    };
+
+    verify();
+  }, [token]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md text-center">
+        <CardHeader>
+          {status === 'verifying' && <MailCheck className="mx-auto h-16 w-16 text-primary mb-4" />}
+          {status === 'verified' && <CheckCircle className="mx-auto h-16 w-16 text-green-500 mb-4" />}
+          {status === 'failed' && <AlertCircle className="mx-auto h-16 w-16 text-destructive mb-4" />}
+          <CardTitle className="text-2xl">
+            {status === 'verifying' && 'Verifying your email...'}
+            {status === 'verified' && 'Email verified'}
+            {status === 'failed' && 'Verification failed'}
+          </CardTitle>
+          <CardDescription>
+            {status === 'verified' && 'You can now share files with links and share codes.'}
+            {status === 'failed' && `${error}. You can request a new link from your dashboard.`}
+          </CardDescription>
+        </CardHeader>
+        {status !== 'verifying' && (
+          <CardContent>
+            <Button onClick={() => setLocation(user ? '/dashboard' : '/')} className="w-full">
+              {user ? 'Go to Dashboard' : 'Sign In'}
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyEmailPage;
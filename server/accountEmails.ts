@@ -0,0 +1,67 @@
+import { randomBytes } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { emailService } from "./email";
+import { hashToken } from "./auth";
+
+export type EmailTokenPurpose = 'verify_email' | 'reset_password';
+
+const HOUR_MS = 60 * 60 * 1000;
+const TOKEN_TTL_MS: Record<EmailTokenPurpose, number> = {
+  verify_email: 24 * HOUR_MS,
+  reset_password: HOUR_MS,
+};
+
+function appUrl(path: string): string {
+  return `${process.env.APP_URL || 'http://localhost:5000'}${path}`;
+}
+
+// Only the newest token of each kind works, and only the email has it
+async function issueEmailToken(userId: string, purpose: EmailTokenPurpose): Promise<string> {
+  const now = new Date();
+  await storage.supersedeEmailTokens(userId, purpose, now);
+
+  const token = randomBytes(32).toString('hex');
+  await storage.createEmailToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + TOKEN_TTL_MS[purpose]),
+  });
+  return token;
+}
+
+// Use up a token from an email link; resolves to its user's id when it was
+// valid, unused and not expired
+export async function consumeEmailToken(token: unknown, purpose: EmailTokenPurpose): Promise<string | undefined> {
+  if (typeof token !== 'string' || !token) return undefined;
+  const used = await storage.consumeEmailToken(hashToken(token), purpose, new Date());
+  return used?.userId;
+}
+
+// Mark the address verified; the first time, the welcome email goes out
+export async function completeEmailVerification(user: User) {
+  if (user.emailVerifiedAt) return;
+
+  await storage.markEmailVerified(user.id, new Date());
+  const profile = await storage.getProfile(user.id);
+  await emailService.sendWelcomeEmail(user.email, profile?.displayName || user.email.split('@')[0]);
+}
+
+export async function sendVerificationEmail(user: User): Promise<boolean> {
+  const token = await issueEmailToken(user.id, 'verify_email');
+  return await emailService.sendVerificationEmail(
+    user.email,
+    appUrl(`/verify-email?token=${token}`),
+    TOKEN_TTL_MS.verify_email / HOUR_MS,
+  );
+}
+
+export async function sendPasswordResetEmail(user: User): Promise<boolean> {
+  const token = await issueEmailToken(user.id, 'reset_password');
+  return await emailService.sendPasswordResetEmail(
+    user.email,
+    appUrl(`/reset-password?token=${token}`),
+    TOKEN_TTL_MS.reset_password / (60 * 1000),
+  );
+}
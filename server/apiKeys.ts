@@ -0,0 +1,77 @@
+import { createHash, randomBytes } from "crypto";
+import type { ApiKey } from "@shared/schema";
+import { storage } from "./storage";
+
+export const API_KEY_SCOPES = ['files:read', 'files:write', 'links:create', 'analytics:read'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const MAX_API_KEYS_PER_USER = 25;
+export const MAX_API_KEY_NAME_LENGTH = 100;
+
+// Keys are told apart from access tokens in the Authorization header, and
+// from each other in lists, by their start
+const KEY_PREFIX = 'ssk_';
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 8;
+// lastUsedAt is only written when it is older than this
+const LAST_USED_RESOLUTION_MS = 5 * 60 * 1000;
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(KEY_PREFIX);
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+// Known scopes from a request body, without duplicates; undefined unless
+// there is at least one and all are known
+export function parseScopes(value: unknown): ApiKeyScope[] | undefined {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  if (!value.every(scope => (API_KEY_SCOPES as readonly unknown[]).includes(scope))) return undefined;
+  return Array.from(new Set(value as ApiKeyScope[]));
+}
+
+// A new key for the user; the plaintext is only available here, to be shown
+// to the user once
+export async function createApiKey(userId: string, name: string, scopes: ApiKeyScope[], expiresAt: Date | null): Promise<{ apiKey: ApiKey; key: string }> {
+  const key = `${KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const apiKey = await storage.createApiKey({
+    userId,
+    name,
+    keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+    keyHash: hashApiKey(key),
+    scopes,
+    expiresAt,
+  });
+  return { apiKey, key };
+}
+
+export function isApiKeyExpired(apiKey: ApiKey, now = new Date()): boolean {
+  return !!apiKey.expiresAt && apiKey.expiresAt <= now;
+}
+
+// The stored key for a presented one, with its use recorded; undefined for
+// unknown and expired keys
+export async function findApiKey(key: string, now = new Date()): Promise<ApiKey | undefined> {
+  const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+  if (!apiKey || isApiKeyExpired(apiKey, now)) return undefined;
+
+  if (!apiKey.lastUsedAt || now.getTime() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await storage.touchApiKey(apiKey.id, now);
+  }
+  return apiKey;
+}
+
+// A key as listed in Settings; the hash stays on the server
+export function describeApiKey(apiKey: ApiKey, now = new Date()) {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    keyPrefix: apiKey.keyPrefix,
+    scopes: apiKey.scopes,
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    createdAt: apiKey.createdAt,
+    expired: isApiKeyExpired(apiKey, now),
+  };
+}
@@ -0,0 +1,299 @@
+import type { Request, Response, CookieOptions } from "express";
+import jwt from "jsonwebtoken";
+import { createHash, randomBytes } from "crypto";
+import type { Session, User } from "@shared/schema";
+import { storage } from "./storage";
+import { isApiKey, findApiKey, type ApiKeyScope } from "./apiKeys";
+
+const DEVELOPMENT_SECRET = "your-secret-key";
+
+// Anyone holding the secret can mint tokens for any account, so production
+// refuses to start on the old placeholder or something guessably short
+function resolveJwtSecret(): string {
+  const secret = process.env.JWT_SECRET;
+  if (process.env.NODE_ENV === 'production' && (!secret || secret === DEVELOPMENT_SECRET || secret.length < 32)) {
+    throw new Error("JWT_SECRET must be set to a random secret of at least 32 characters in production");
+  }
+  return secret || DEVELOPMENT_SECRET;
+}
+
+const JWT_SECRET = resolveJwtSecret();
+
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Tabs refreshing at the same moment all send the same cookie; the ones
+// that lose the race within this window aren't treated as token theft
+const ROTATION_GRACE_MS = 30 * 1000;
+// lastSeenAt is only written when it is older than this
+const LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000;
+// Time to enter the second factor after the password
+const TWO_FACTOR_CHALLENGE_TTL_SECONDS = 5 * 60;
+const TWO_FACTOR_PURPOSE = 'two_factor';
+const SHARE_ACCESS_TTL_SECONDS = 30 * 60;
+const SHARE_ACCESS_PURPOSE = 'share_access';
+
+const REFRESH_COOKIE = 'refresh_token';
+const refreshCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict',
+  path: '/api/auth',
+};
+
+export interface AuthUser {
+  id: string;
+  email: string;
+  sid?: string; // session the access token was issued from; unset for API keys
+  scopes?: ApiKeyScope[]; // what an API key may do; unset for sessions, which can do anything
+}
+
+export function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// The user as sent to the client
+export function publicUser(user: User) {
+  return { id: user.id, email: user.email, emailVerified: !!user.emailVerifiedAt };
+}
+
+export function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie ?? '').split(';')) {
+    const [key, ...value] = part.trim().split('=');
+    if (key === name) return decodeURIComponent(value.join('='));
+  }
+  return undefined;
+}
+
+function issueAccessToken(user: { id: string; email: string }, sessionId: string): string {
+  const payload: AuthUser = { id: user.id, email: user.email, sid: sessionId };
+  return jwt.sign(payload, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
+}
+
+function setRefreshCookie(res: Response, token: string) {
+  res.cookie(REFRESH_COOKIE, token, { ...refreshCookieOptions, maxAge: REFRESH_TOKEN_TTL_MS });
+}
+
+function isSessionActive(session: Session | undefined, now = new Date()): session is Session {
+  return !!session && !session.revokedAt && session.expiresAt > now;
+}
+
+// Sign a user in on this device: a new session, its refresh token in the
+// cookie, and an access token for the response body
+export async function startSession(req: Request, res: Response, user: { id: string; email: string }): Promise<string> {
+  const refreshToken = randomBytes(32).toString('hex');
+  const session = await storage.createSession({
+    userId: user.id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: req.get('User-Agent') ?? null,
+    ipAddress: req.ip ?? null,
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+  });
+  setRefreshCookie(res, refreshToken);
+  return issueAccessToken(user, session.id);
+}
+
+// Trade the refresh cookie for a new access token, rotating the refresh
+// token. A token that was already rotated away means a copy of it is in
+// someone else's hands, so the whole session is revoked.
+export async function refreshSession(req: Request, res: Response): Promise<{ user: ReturnType<typeof publicUser>; token: string } | null> {
+  const presented = readCookie(req, REFRESH_COOKIE);
+  if (!presented) return null;
+
+  const now = new Date();
+  const presentedHash = hashToken(presented);
+  const session = await storage.getSessionByRefreshToken(presentedHash);
+  if (!session) {
+    const reused = await storage.getSessionByPreviousToken(presentedHash);
+    if (!reused) return null;
+
+    // The cookie the winning tab received serves this tab's next refresh
+    const user = await storage.getUser(reused.userId);
+    if (isSessionActive(reused, now) && user && reused.rotatedAt && now.getTime() - reused.rotatedAt.getTime() < ROTATION_GRACE_MS) {
+      return { user: publicUser(user), token: issueAccessToken(user, reused.id) };
+    }
+
+    console.warn(`Refresh token reuse on session ${reused.id}; revoking it`);
+    await storage.revokeSession(reused.id, now);
+    return null;
+  }
+  if (!isSessionActive(session, now)) return null;
+
+  const user = await storage.getUser(session.userId);
+  if (!user) return null;
+
+  const refreshToken = randomBytes(32).toString('hex');
+  const rotated = await storage.rotateSessionToken(session.id, presentedHash, {
+    refreshTokenHash: hashToken(refreshToken),
+    rotatedAt: now,
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS),
+    lastSeenAt: now,
+    ipAddress: req.ip ?? null,
+    userAgent: req.get('User-Agent') ?? session.userAgent,
+  });
+  if (!rotated) return null;
+
+  setRefreshCookie(res, refreshToken);
+  return { user: publicUser(user), token: issueAccessToken(user, session.id) };
+}
+
+// Proof that the password checked out, good for nothing but finishing the
+// sign-in with a second factor
+export function issueTwoFactorChallenge(user: { id: string }): string {
+  return jwt.sign({ id: user.id, purpose: TWO_FACTOR_PURPOSE }, JWT_SECRET, { expiresIn: TWO_FACTOR_CHALLENGE_TTL_SECONDS });
+}
+
+// The user a challenge token was issued to, if it is valid
+export function readTwoFactorChallenge(token: string): string | undefined {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as any;
+    return payload.purpose === TWO_FACTOR_PURPOSE ? payload.id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+// Proof that a share's password was entered, so GET and Range URLs can
+// carry this instead of the password. It names the share and a digest of
+// the password hash it was checked against; changing or removing the
+// password invalidates it.
+export function issueShareAccessToken(share: string, passwordHash: string): string {
+  return jwt.sign({ share, pw: hashToken(passwordHash), purpose: SHARE_ACCESS_PURPOSE }, JWT_SECRET, { expiresIn: SHARE_ACCESS_TTL_SECONDS });
+}
+
+// Whether a share access token was issued for this share and password hash
+export function readShareAccessToken(token: string, share: string, passwordHash: string): boolean {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET) as any;
+    return payload.purpose === SHARE_ACCESS_PURPOSE && payload.share === share && payload.pw === hashToken(passwordHash);
+  } catch {
+    return false;
+  }
+}
+
+// Sign this device out
+export async function endSession(req: Request, res: Response) {
+  const presented = readCookie(req, REFRESH_COOKIE);
+  const session = presented ? await storage.getSessionByRefreshToken(hashToken(presented)) : undefined;
+  if (session) {
+    await storage.revokeSession(session.id, new Date());
+  }
+  clearRefreshCookie(res);
+}
+
+export function clearRefreshCookie(res: Response) {
+  res.clearCookie(REFRESH_COOKIE, refreshCookieOptions);
+}
+
+export function hasScope(user: AuthUser, scope: ApiKeyScope): boolean {
+  return !user.scopes || user.scopes.includes(scope);
+}
+
+export function sendMissingScope(res: Response, scope: ApiKeyScope) {
+  return res.status(403).json({ error: `This API key lacks the ${scope} scope`, code: 'insufficient_scope' });
+}
+
+// Lets API keys with the scope through the authenticateToken after it.
+// Routes without one only take access tokens, so a key can never manage
+// sessions, second factors or other keys.
+export function apiScope(scope: ApiKeyScope) {
+  return (req: any, res: any, next: any) => {
+    req.apiKeyScope = scope;
+    next();
+  };
+}
+
+async function authenticateApiKey(req: any, res: any, next: any, key: string) {
+  try {
+    const apiKey = await findApiKey(key);
+    if (!apiKey) {
+      return res.status(401).json({ error: 'Invalid or expired API key' });
+    }
+
+    const scope: ApiKeyScope | undefined = req.apiKeyScope;
+    if (!scope) {
+      return res.status(403).json({ error: 'API keys cannot be used for this request' });
+    }
+    if (!apiKey.scopes.includes(scope)) {
+      return sendMissingScope(res, scope);
+    }
+
+    const owner = await storage.getUser(apiKey.userId);
+    if (!owner) {
+      return res.status(401).json({ error: 'Invalid or expired API key' });
+    }
+
+    const user: AuthUser = { id: owner.id, email: owner.email, scopes: apiKey.scopes as ApiKeyScope[] };
+    req.user = user;
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
+
+// Middleware to verify the access token, or an API key on routes that
+// allow one. Expired tokens get a 401 so the client knows to refresh;
+// tokens of a revoked session stop working at once.
+export function authenticateToken(req: any, res: any, next: any) {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    return res.status(401).json({ error: 'Access token required' });
+  }
+  if (isApiKey(token)) {
+    return authenticateApiKey(req, res, next, token);
+  }
+
+  jwt.verify(token, JWT_SECRET, async (err: any, payload: any) => {
+    if (err) {
+      return err.name === 'TokenExpiredError'
+        ? res.status(401).json({ error: 'Access token expired' })
+        : res.status(403).json({ error: 'Invalid token' });
+    }
+    // Two-factor challenges are signed with the same secret
+    if (payload.purpose) {
+      return res.status(403).json({ error: 'Invalid token' });
+    }
+
+    try {
+      const now = new Date();
+      const session = payload.sid ? await storage.getSession(payload.sid) : undefined;
+      if (!isSessionActive(session, now) || session.userId !== payload.id) {
+        return res.status(401).json({ error: 'Session has ended' });
+      }
+      if (now.getTime() - session.lastSeenAt.getTime() > LAST_SEEN_RESOLUTION_MS) {
+        await storage.touchSession(session.id, now);
+      }
+
+      const user: AuthUser = { id: payload.id, email: payload.email, sid: payload.sid };
+      req.user = user;
+      next();
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+}
+
+// Sharing publicly takes a verified address, so nobody can register someone
+// else's email and have links go out under it
+export async function isEmailVerified(userId: string): Promise<boolean> {
+  const user = await storage.getUser(userId);
+  return !!user?.emailVerifiedAt;
+}
+
+export function sendEmailUnverified(res: Response) {
+  return res.status(403).json({ error: 'Verify your email address before sharing files publicly', code: 'email_unverified' });
+}
+
+// Runs after authenticateToken
+export async function requireVerifiedEmail(req: any, res: any, next: any) {
+  try {
+    if (!(await isEmailVerified(req.user.id))) {
+      return sendEmailUnverified(res);
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+}
@@ -0,0 +1,78 @@
+import { describe, it, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+
+// storage opens its database pool lazily; the blob methods below are
+// stubbed with MemStorage's so nothing queries it
+process.env.DATABASE_URL ??= 'postgres://localhost/secureshare_test';
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'blobs-test-'));
+const { storage, MemStorage } = await import("./storage");
+const { LocalStorageDriver, registerStorageDriver } = await import("./storageDriver");
+const { ingestBlob, releaseBlob, contentKey } = await import("./blobs");
+
+const memory = new MemStorage();
+mock.method(storage, 'getBlob', memory.getBlob.bind(memory));
+mock.method(storage, 'acquireBlob', memory.acquireBlob.bind(memory));
+mock.method(storage, 'releaseBlob', memory.releaseBlob.bind(memory));
+
+// Moves take a while, so concurrent calls overlap the way slow disks or
+// object stores make them
+class SlowDriver extends LocalStorageDriver {
+  override async move(fromKey: string, toKey: string): Promise<void> {
+    await new Promise(resolve => setTimeout(resolve, 20));
+    return super.move(fromKey, toKey);
+  }
+}
+const driver = new SlowDriver(root);
+// toStoragePath names it 'local' too; paths resolve back to this driver
+registerStorageDriver(driver);
+
+const ingest = (content: string) => ingestBlob(Readable.from([Buffer.from(content)]), {}, driver);
+const exists = async (storagePath: string) => !!(await driver.stat(storagePath.slice('local:'.length)));
+
+describe('ingestBlob and releaseBlob', () => {
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  it('only hands out a storage path once its bytes are in place', async () => {
+    const stored = await Promise.all([ingest('same bytes'), ingest('same bytes'), ingest('same bytes')]);
+
+    for (const blob of stored) {
+      assert.equal(blob.storagePath, stored[0].storagePath);
+      assert.ok(await exists(blob.storagePath), 'stored bytes are missing');
+    }
+    assert.equal((await storage.getBlob(stored[0].contentHash))?.refCount, 3);
+    assert.deepEqual(await driver.list('incoming'), []);
+  });
+
+  it('keeps the bytes until the last reference is released', async () => {
+    const [first] = await Promise.all([ingest('shared'), ingest('shared')]);
+
+    await releaseBlob(first.storagePath);
+    assert.ok(await exists(first.storagePath));
+
+    await releaseBlob(first.storagePath);
+    assert.equal(await exists(first.storagePath), false);
+    assert.equal(await storage.getBlob(first.contentHash), undefined);
+  });
+
+  it('does not lose a blob re-uploaded while its last reference is released', async () => {
+    const first = await ingest('released and re-uploaded');
+
+    const [, again] = await Promise.all([releaseBlob(first.storagePath), ingest('released and re-uploaded')]);
+
+    assert.equal(again.storagePath, first.storagePath);
+    assert.ok(await exists(again.storagePath), 'stored bytes are missing');
+    assert.equal((await storage.getBlob(again.contentHash))?.refCount, 1);
+  });
+
+  it('deletes blobs without a row outright', async () => {
+    const key = contentKey('0'.repeat(64));
+    await driver.put(key, Buffer.from('legacy'));
+
+    await releaseBlob(`local:${key}`);
+    assert.equal(await driver.stat(key), undefined);
+  });
+});
@@ -0,0 +1,181 @@
+import { createHash, randomUUID } from "crypto";
+import { PassThrough, type Readable } from "stream";
+import type { StorageEngine } from "multer";
+import type { StoredBlob } from "@shared/schema";
+import { storage } from "./storage";
+import { storageDriver, toStoragePath, resolveStoragePath, type ByteRange, type PutOptions, type StorageDriver } from "./storageDriver";
+import {
+  CIPHER_BLOCK_SIZE,
+  isEncryptionEnabled,
+  generateDataKey,
+  wrapDataKey,
+  unwrapDataKey,
+  encryptingStream,
+  decryptingStream,
+} from "./encryption";
+
+export interface WrittenBlob {
+  size: number;
+  contentHash: string; // sha256 hex of the plaintext
+  wrappedKey: string | null;
+}
+
+export interface IngestedBlob extends WrittenBlob {
+  storagePath: string;
+}
+
+// Set on req.file by createBlobStorageEngine
+declare global {
+  namespace Express {
+    namespace Multer {
+      interface File {
+        contentHash?: string;
+        wrappedKey?: string | null;
+      }
+    }
+  }
+}
+
+export interface IngestOptions extends PutOptions {
+  // End-to-end encrypted uploads are random ciphertext that never matches
+  // another blob, so they are stored under a unique key without a blobs row
+  deduplicate?: boolean;
+}
+
+// Pass a stream through while computing its sha256
+export function hashingStream(source: Readable) {
+  const hash = createHash('sha256');
+  const output = new PassThrough();
+  source.on('data', (data: Buffer) => hash.update(data));
+  source.on('error', (error) => output.destroy(error));
+  source.pipe(output);
+
+  return {
+    stream: output,
+    digest: () => hash.digest('hex'),
+  };
+}
+
+export function contentKey(hash: string): string {
+  return `sha256/${hash.slice(0, 2)}/${hash}`;
+}
+
+// Write a stream to a driver key, hashing the plaintext and encrypting it at
+// rest under a fresh data key when a master key is configured
+export async function writeBlob(driver: StorageDriver, key: string, source: Readable, options?: PutOptions): Promise<WrittenBlob> {
+  const { stream, digest } = hashingStream(source);
+  const dataKey = isEncryptionEnabled() ? generateDataKey() : undefined;
+  const body = dataKey ? encryptingStream(stream, dataKey) : stream;
+
+  try {
+    const stat = await driver.put(key, body, options);
+    return {
+      size: stat.size,
+      contentHash: digest(),
+      wrappedKey: dataKey ? wrapDataKey(dataKey) : null,
+    };
+  } catch (error) {
+    await driver.delete(key).catch(() => false);
+    throw error;
+  }
+}
+
+// Open a stored blob for reading, decrypting it if it was encrypted at rest
+export async function openBlob(storagePath: string, wrappedKey: string | null, range?: ByteRange): Promise<Readable> {
+  const { driver, key } = resolveStoragePath(storagePath);
+  if (!wrappedKey) {
+    return driver.stream(key, range);
+  }
+
+  // CTR ciphertext can be decrypted from any block boundary, so only the
+  // blocks covering the range are fetched
+  const start = range ? range.start - (range.start % CIPHER_BLOCK_SIZE) : 0;
+  const ciphertext = await driver.stream(key, range ? { start, end: range.end } : undefined);
+  return decryptingStream(ciphertext, unwrapDataKey(wrappedKey), start, range ? range.start - start : 0);
+}
+
+// Store a stream by content address. The bytes are written under a temporary
+// key while hashing, then either moved into place or dropped if the blob is
+// already stored. Takes one reference on the blob; release it with releaseBlob.
+export async function ingestBlob(source: Readable, options: IngestOptions = {}, driver: StorageDriver = storageDriver): Promise<IngestedBlob> {
+  const deduplicate = options.deduplicate ?? true;
+  const tempKey = `${deduplicate ? 'incoming' : 'unique'}/${randomUUID()}`;
+  const written = await writeBlob(driver, tempKey, source, options);
+
+  if (!deduplicate) {
+    return { ...written, storagePath: toStoragePath(driver, tempKey) };
+  }
+
+  // Only the upload that creates the row moves its bytes into place; the
+  // others use the stored copy and its data key
+  const key = contentKey(written.contentHash);
+  let moved = false;
+  let blob: StoredBlob;
+  try {
+    blob = await storage.acquireBlob({
+      hash: written.contentHash,
+      storagePath: toStoragePath(driver, key),
+      size: written.size,
+      wrappedKey: written.wrappedKey,
+    }, async () => {
+      await driver.move(tempKey, key);
+      moved = true;
+    });
+  } catch (error) {
+    await driver.delete(tempKey).catch(() => false);
+    throw error;
+  }
+
+  if (!moved) {
+    await driver.delete(tempKey);
+  }
+
+  return {
+    storagePath: blob.storagePath,
+    contentHash: blob.hash,
+    size: blob.size,
+    wrappedKey: blob.wrappedKey,
+  };
+}
+
+// Drop one reference to a stored blob and delete it (and its preview) once
+// nothing uses it. Blobs stored before deduplication have no row and are
+// deleted outright.
+export async function releaseBlob(storagePath: string) {
+  const blob = await storage.releaseBlob(storagePath, deleteStoredBytes);
+  if (!blob) {
+    const { driver, key } = resolveStoragePath(storagePath);
+    await driver.delete(key);
+  }
+}
+
+async function deleteStoredBytes(blob: StoredBlob) {
+  const { driver, key } = resolveStoragePath(blob.storagePath);
+  await driver.delete(key);
+
+  if (blob.previewPath) {
+    const preview = resolveStoragePath(blob.previewPath);
+    await preview.driver.delete(preview.key);
+  }
+}
+
+// Multer engine that streams uploads straight into content-addressed storage.
+// `file.path` is the driver-qualified storage path; `file.contentHash` and
+// `file.wrappedKey` describe the stored blob.
+export function createBlobStorageEngine(driver: StorageDriver = storageDriver): StorageEngine {
+  return {
+    _handleFile(_req, file, cb) {
+      ingestBlob(file.stream, { contentType: file.mimetype }, driver)
+        .then(blob => cb(null, {
+          path: blob.storagePath,
+          size: blob.size,
+          contentHash: blob.contentHash,
+          wrappedKey: blob.wrappedKey,
+        }))
+        .catch(cb);
+    },
+    _removeFile(_req, file, cb) {
+      releaseBlob(file.path).then(() => cb(null), cb);
+    },
+  };
+}
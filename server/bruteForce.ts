@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+
+const MINUTE_MS = 60 * 1000;
+
+// Failures allowed before a key is locked; every failure after that
+// doubles the lockout, from LOCKOUT_BASE_MS up to LOCKOUT_MAX_MS
+const FREE_ATTEMPTS = Number(process.env.SHARE_MAX_FAILED_ATTEMPTS) || 5;
+const LOCKOUT_BASE_MS = 30 * 1000;
+const LOCKOUT_MAX_MS = 60 * MINUTE_MS;
+// A key that hasn't failed for this long starts counting from zero again
+export const ATTEMPT_MEMORY_MS = 60 * MINUTE_MS;
+
+export function lockoutDuration(failures: number): number {
+  if (failures < FREE_ATTEMPTS) return 0;
+  return Math.min(LOCKOUT_BASE_MS * 2 ** (failures - FREE_ATTEMPTS), LOCKOUT_MAX_MS);
+}
+
+// The latest lockout still running on any of the keys
+export async function activeLockout(keys: string[], now = new Date()): Promise<Date | null> {
+  let until: Date | null = null;
+  for (const attempt of await storage.getAccessAttempts(keys)) {
+    if (attempt.lockedUntil && attempt.lockedUntil > now && (!until || attempt.lockedUntil > until)) {
+      until = attempt.lockedUntil;
+    }
+  }
+  return until;
+}
+
+// Count a failure against the key; resolves to the lockout it triggers, if any
+export async function recordFailure(key: string, now = new Date()): Promise<{ failures: number; lockedUntil: Date | null }> {
+  const attempt = await storage.recordFailedAccessAttempt(key, now, new Date(now.getTime() - ATTEMPT_MEMORY_MS));
+  const duration = lockoutDuration(attempt.failures);
+  if (!duration) return { failures: attempt.failures, lockedUntil: null };
+
+  const lockedUntil = new Date(now.getTime() + duration);
+  await storage.lockAccessAttempt(key, lockedUntil);
+  return { failures: attempt.failures, lockedUntil };
+}
+
+export async function clearFailures(key: string) {
+  await storage.clearAccessAttempt(key);
+}
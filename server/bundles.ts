@@ -0,0 +1,36 @@
+import type { File, SharedLink } from "@shared/schema";
+import { storage } from "./storage";
+import { isWithinFolder } from "./folders";
+import type { ArchiveEntry } from "./downloads";
+
+// Whether a link gives access to a file: the linked file itself, anything
+// below a linked folder, or a member of a linked bundle
+export async function isSharedThroughLink(link: SharedLink, file: File): Promise<boolean> {
+  if (link.fileId) return link.fileId === file.id;
+  if (link.folderId) return isWithinFolder(file.folderId, link.folderId);
+  if (link.bundleId) {
+    const members = await storage.getBundleFiles(link.bundleId);
+    return members.some(member => member.id === file.id);
+  }
+  return false;
+}
+
+// Bundle members can come from different folders and sit side by side in
+// the archive; sendZipArchive renames any whose names clash
+export function bundleArchiveEntries(files: File[]): ArchiveEntry[] {
+  return files.map(file => ({ file, path: file.originalName }));
+}
+
+// Validate a client-supplied list of files for a bundle: every id must be a
+// file the user owns. End-to-end encrypted files are refused since each has
+// its own key in its link. Duplicates are dropped, keeping the first position.
+export async function ownedBundleFileIds(userId: string, fileIds: unknown): Promise<string[] | undefined> {
+  if (!Array.isArray(fileIds) || fileIds.length === 0) return undefined;
+
+  const unique = Array.from(new Set(fileIds.map(String)));
+  for (const fileId of unique) {
+    const file = await storage.getFile(fileId);
+    if (!file || file.userId !== userId || file.isEncrypted) return undefined;
+  }
+  return unique;
+}
@@ -0,0 +1,100 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { Socket } from "node:net";
+import type { Response } from "express";
+import type { File } from "@shared/schema";
+
+// storage opens its database pool lazily and nothing here queries it
+process.env.DATABASE_URL ??= 'postgres://localhost/secureshare_test';
+const { safeArchiveEntries, sendStoredFile, sendZipArchive } = await import("./downloads");
+
+const file = { id: 'file-1' } as File;
+
+function entryPaths(...paths: string[]): string[] {
+  return safeArchiveEntries(paths.map(path => ({ file, path }))).map(entry => entry.path);
+}
+
+describe('safeArchiveEntries', () => {
+  const table: Array<[string, string]> = [
+    ['report.pdf', 'report.pdf'],
+    ['Reports/2024/q1.pdf', 'Reports/2024/q1.pdf'],
+    ['../../etc/passwd', '_/_/etc/passwd'],
+    ['Reports/../../evil.sh', 'Reports/_/_/evil.sh'],
+    ['/etc/passwd', '_/etc/passwd'],
+    ['..\\..\\windows\\evil.bat', '_/_/windows/evil.bat'],
+    ['C:\\evil.bat', 'C_/evil.bat'],
+    ['.', '_'],
+    ['a//b.txt', 'a/_/b.txt'],
+    ['what?.txt', 'what_.txt'],
+    ['tab\there.txt', 'tab_here.txt'],
+  ];
+
+  for (const [input, expected] of table) {
+    it(`writes ${JSON.stringify(input)} as ${JSON.stringify(expected)}`, () => {
+      assert.deepEqual(entryPaths(input), [expected]);
+    });
+  }
+
+  it('numbers clashing paths, ignoring case', () => {
+    assert.deepEqual(
+      entryPaths('notes.txt', 'Notes.txt', 'notes.txt', 'docs/notes.txt', 'docs/notes.txt'),
+      ['notes.txt', 'Notes (2).txt', 'notes (3).txt', 'docs/notes.txt', 'docs/notes (2).txt'],
+    );
+  });
+
+  it('numbers paths that only clash once cleaned', () => {
+    assert.deepEqual(entryPaths('../a.txt', '_/a.txt'), ['_/a.txt', '_/a (2).txt']);
+  });
+});
+
+// A real ServerResponse, so Node validates header values as it would in a
+// route. HEAD requests stop before any blob is opened.
+function headResponse(): ServerResponse {
+  const req = new IncomingMessage(new Socket());
+  req.method = 'HEAD';
+  const res = new ServerResponse(req);
+  res.end = (() => res) as typeof res.end;
+  return res;
+}
+
+describe('sendStoredFile', () => {
+  const plan = { status: 200 as const, etag: '"abc"', stat: { size: 5 } };
+  const named = (originalName: string) =>
+    ({ ...file, originalName, contentHash: null, isEncrypted: false, fileType: 'text/plain' }) as File;
+
+  const table: Array<[string, string]> = [
+    ['report.pdf', 'attachment; filename="report.pdf"'],
+    ['say "hi"; now.txt', 'attachment; filename="say \\"hi\\"; now.txt"'],
+    ['報告書.pdf', 'attachment; filename="???.pdf"; filename*=UTF-8\'\'%E5%A0%B1%E5%91%8A%E6%9B%B8.pdf'],
+    ['🎉.txt', 'attachment; filename="??.txt"; filename*=UTF-8\'\'%F0%9F%8E%89.txt'],
+  ];
+
+  for (const [name, expected] of table) {
+    it(`sends ${JSON.stringify(name)} as a valid attachment header`, async () => {
+      const res = headResponse();
+      await sendStoredFile(res as unknown as Response, named(name), plan);
+      assert.equal(res.getHeader('Content-Disposition'), expected);
+    });
+  }
+
+  it('escapes names viewed inline too', async () => {
+    const res = headResponse();
+    await sendStoredFile(res as unknown as Response, named('写真 "1".png'), plan, { inlineType: 'image/png' });
+    assert.equal(
+      res.getHeader('Content-Disposition'),
+      'inline; filename="?? \\"1\\".png"; filename*=UTF-8\'\'%E5%86%99%E7%9C%9F%20%221%22.png',
+    );
+  });
+});
+
+describe('sendZipArchive', () => {
+  it('escapes folder and bundle names in the archive file name', async () => {
+    const res = headResponse();
+    await sendZipArchive(res as unknown as Response, '季度 "Q1"; draft', []);
+    assert.equal(
+      res.getHeader('Content-Disposition'),
+      'attachment; filename="?? \\"Q1\\"; draft.zip"; filename*=UTF-8\'\'%E5%AD%A3%E5%BA%A6%20%22Q1%22%3B%20draft.zip',
+    );
+  });
+});
@@ -0,0 +1,286 @@
+import { createHash } from "crypto";
+import path from "path";
+import type { Request, Response } from "express";
+import archiver from "archiver";
+import contentDisposition from "content-disposition";
+import type { File as StoredFile } from "@shared/schema";
+import { storage } from "./storage";
+import { resolveStoragePath, BlobNotFoundError, type BlobStat, type ByteRange } from "./storageDriver";
+import { openBlob } from "./blobs";
+
+// Range requests from the same client within this window are treated as
+// parts of one download (resumes, media seeking, segmented download managers)
+export const DOWNLOAD_SESSION_WINDOW_MS = 6 * 60 * 60 * 1000;
+
+export type RangeResult = ByteRange | 'unsatisfiable' | undefined;
+
+// Parse a single `bytes=` range. Multi-range requests are answered with the
+// full body, which RFC 9110 permits.
+export function parseRange(header: string | undefined, size: number): RangeResult {
+  if (!header) return undefined;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  if (!match) return undefined;
+
+  const [, startText, endText] = match;
+  if (startText === '' && endText === '') return undefined;
+
+  let start: number;
+  let end: number;
+  if (startText === '') {
+    // Suffix range: the last N bytes
+    const suffix = parseInt(endText);
+    if (suffix === 0) return 'unsatisfiable';
+    start = Math.max(0, size - suffix);
+    end = size - 1;
+  } else {
+    start = parseInt(startText);
+    end = endText === '' ? size - 1 : Math.min(parseInt(endText), size - 1);
+  }
+
+  if (start >= size || start > end) return 'unsatisfiable';
+  return { start, end };
+}
+
+// Blobs are immutable once written, so the content hash (or, for files
+// stored before hashing, the storage path) identifies the content
+export function fileEtag(file: StoredFile): string {
+  if (file.contentHash) return `"${file.contentHash}"`;
+  const digest = createHash('sha1').update(`${file.storagePath}:${file.fileSize}`).digest('hex');
+  return `"${digest}"`;
+}
+
+function etagMatches(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  return header.split(',').some(candidate => candidate.trim().replace(/^W\//, '') === etag);
+}
+
+export interface DownloadPlan {
+  status: 200 | 206 | 304 | 416;
+  etag: string;
+  stat: BlobStat;
+  range?: ByteRange;
+}
+
+// Work out how a download request will be answered, before anything is counted
+export async function planDownload(req: Request, file: StoredFile): Promise<DownloadPlan | undefined> {
+  const { driver, key } = resolveStoragePath(file.storagePath);
+  const stat = await driver.stat(key);
+  if (!stat) return undefined;
+
+  const etag = fileEtag(file);
+  const isRead = req.method === 'GET' || req.method === 'HEAD';
+  if (isRead && etagMatches(req.get('If-None-Match'), etag)) {
+    return { status: 304, etag, stat };
+  }
+
+  // If-Range: only honour the range when the client still has the same representation
+  const ifRange = req.get('If-Range');
+  const rangeHeader = !ifRange || ifRange.trim() === etag ? req.get('Range') : undefined;
+  const range = parseRange(rangeHeader, stat.size);
+
+  if (range === 'unsatisfiable') {
+    return { status: 416, etag, stat };
+  }
+  if (range) {
+    return { status: 206, etag, stat, range };
+  }
+  return { status: 200, etag, stat };
+}
+
+// Whether this client already had a download of the file counted recently
+async function hasCountedDownload(req: Request, fileId: string, sharedLinkId?: string | null, downloadMethod?: string): Promise<boolean> {
+  const recent = await storage.findRecentDownloadLog({
+    fileId,
+    sharedLinkId: sharedLinkId ?? null,
+    downloaderIp: req.ip ?? null,
+    downloaderUserAgent: req.get('User-Agent') ?? null,
+    downloadMethod,
+    since: new Date(Date.now() - DOWNLOAD_SESSION_WINDOW_MS),
+  });
+  return !!recent;
+}
+
+// A request only counts as a new download if it transfers bytes and is not
+// a follow-up range request from a client that already started this download.
+// Only a range starting partway into the file can continue one; a range
+// from byte 0 fetches the whole file again and is counted.
+// Pass the download method where a link serves both views and downloads so
+// one doesn't continue the other.
+export async function isNewDownload(req: Request, plan: DownloadPlan, fileId: string, sharedLinkId?: string | null, downloadMethod?: string): Promise<boolean> {
+  if (req.method === 'HEAD') return false;
+  if (plan.status === 304 || plan.status === 416) return false;
+  if (plan.status === 200 || !plan.range || plan.range.start === 0) return true;
+
+  return !(await hasCountedDownload(req, fileId, sharedLinkId, downloadMethod));
+}
+
+// Checked before share access: whether the request resumes a download this
+// client already had counted, which a used-up download limit must not cut
+// off. A wrong guess only skips the advisory limit check; a request that
+// turns out to be new still has to claim a download.
+export async function isDownloadContinuation(req: Request, fileId: string | null | undefined, sharedLinkId?: string | null, downloadMethod?: string): Promise<boolean> {
+  if (!fileId || req.method === 'HEAD') return false;
+
+  const match = /^bytes=(\d+)-/.exec(req.get('Range')?.trim() ?? '');
+  if (!match || parseInt(match[1]) === 0) return false;
+  return await hasCountedDownload(req, fileId, sharedLinkId, downloadMethod);
+}
+
+// Types browsers can display inline without running anything on our origin.
+// Markup (HTML, SVG, XML) is never served inline.
+const INLINE_MEDIA_TYPES = new Set([
+  'application/pdf',
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/avif',
+  'video/mp4', 'video/webm', 'video/ogg',
+  'audio/mpeg', 'audio/mp4', 'audio/ogg', 'audio/wav', 'audio/webm',
+]);
+const INLINE_TEXT_TYPES = new Set(['text/plain', 'text/csv', 'text/markdown', 'application/json']);
+
+// Content-Type to view a file inline with, or undefined if it can't be viewed.
+// Text is always sent as plain text so it can't be interpreted as markup.
+export function inlineViewType(file: StoredFile): string | undefined {
+  if (file.isEncrypted) return undefined;
+  if (INLINE_MEDIA_TYPES.has(file.fileType)) return file.fileType;
+  if (INLINE_TEXT_TYPES.has(file.fileType)) return 'text/plain; charset=utf-8';
+  return undefined;
+}
+
+export interface SendOptions {
+  // Display in the browser with this Content-Type instead of downloading
+  inlineType?: string;
+}
+
+// Stream a stored file's blob according to a download plan. Names can hold
+// anything, so contentDisposition escapes them and adds a UTF-8 filename*.
+export async function sendStoredFile(res: Response, file: StoredFile, plan: DownloadPlan, options: SendOptions = {}) {
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('ETag', plan.etag);
+  if (file.contentHash) {
+    // RFC 9530 digest of the whole file, so recipients can verify integrity
+    res.setHeader('Repr-Digest', `sha-256=:${Buffer.from(file.contentHash, 'hex').toString('base64')}:`);
+  }
+  if (plan.stat.lastModified) {
+    res.setHeader('Last-Modified', plan.stat.lastModified.toUTCString());
+  }
+
+  if (plan.status === 304) {
+    res.status(304).end();
+    return;
+  }
+
+  if (plan.status === 416) {
+    res.setHeader('Content-Range', `bytes */${plan.stat.size}`);
+    res.status(416).end();
+    return;
+  }
+
+  if (options.inlineType) {
+    res.setHeader('Content-Disposition', contentDisposition(file.originalName, { type: 'inline' }));
+    res.setHeader('Content-Type', options.inlineType);
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    // Browsers refuse to render PDFs in sandboxed documents
+    if (options.inlineType !== 'application/pdf') {
+      res.setHeader('Content-Security-Policy', 'sandbox');
+    }
+  } else {
+    res.setHeader('Content-Disposition', contentDisposition(file.originalName));
+    // Encrypted files are opaque ciphertext until the browser decrypts them
+    res.setHeader('Content-Type', file.isEncrypted ? 'application/octet-stream' : file.fileType);
+  }
+
+  if (plan.range) {
+    const { start, end } = plan.range;
+    res.status(206);
+    res.setHeader('Content-Range', `bytes ${start}-${end}/${plan.stat.size}`);
+    res.setHeader('Content-Length', end - start + 1);
+  } else {
+    res.setHeader('Content-Length', plan.stat.size);
+  }
+
+  if (res.req.method === 'HEAD') {
+    res.end();
+    return;
+  }
+
+  let stream;
+  try {
+    stream = await openBlob(file.storagePath, file.wrappedKey, plan.range);
+  } catch (error) {
+    if (error instanceof BlobNotFoundError) {
+      res.status(404).json({ error: 'File not found on server' });
+      return;
+    }
+    throw error;
+  }
+  stream.on('error', (error) => res.destroy(error));
+  stream.pipe(res);
+}
+
+export interface ArchiveEntry {
+  file: StoredFile;
+  path: string;
+}
+
+// Replace the parts of a path segment that extract badly or dangerously:
+// "." and "..", control characters and characters Windows refuses
+function safeArchiveSegment(segment: string): string {
+  const cleaned = segment.replace(/[\x00-\x1f<>:"|?*]/g, '_').trim();
+  return cleaned === '' || cleaned === '.' || cleaned === '..' ? '_' : cleaned;
+}
+
+// Entry paths are built from user-chosen file and folder names, so every
+// segment is cleaned and nothing can point outside the extraction folder.
+// Paths that clash (case-insensitively) become "name (2).ext", "name (3).ext", ...
+export function safeArchiveEntries(entries: ArchiveEntry[]): ArchiveEntry[] {
+  const used = new Set<string>();
+  return entries.map(entry => {
+    const cleaned = entry.path.split(/[\\/]/).map(safeArchiveSegment).join('/');
+    const { dir, name, ext } = path.posix.parse(cleaned);
+    let entryPath = cleaned;
+    for (let copy = 2; used.has(entryPath.toLowerCase()); copy++) {
+      entryPath = path.posix.join(dir, `${name} (${copy})${ext}`);
+    }
+    used.add(entryPath.toLowerCase());
+    return { file: entry.file, path: entryPath };
+  });
+}
+
+// Stream several stored files as one ZIP, built on the fly
+export async function sendZipArchive(res: Response, archiveName: string, entries: ArchiveEntry[]) {
+  res.setHeader('Content-Type', 'application/zip');
+  res.setHeader('Content-Disposition', contentDisposition(`${archiveName}.zip`));
+
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  archive.on('error', (error) => res.destroy(error));
+  archive.pipe(res);
+
+  // Open one blob at a time: the next entry is appended once the previous
+  // one has been written, so large folders don't hold every stream open
+  const queue = safeArchiveEntries(entries);
+  const appendNext = async (): Promise<void> => {
+    const entry = queue.shift();
+    if (!entry) {
+      await archive.finalize();
+      return;
+    }
+
+    try {
+      archive.append(await openBlob(entry.file.storagePath, entry.file.wrappedKey), { name: entry.path });
+    } catch (error) {
+      // Skip blobs that have gone missing rather than failing the whole archive
+      if (!(error instanceof BlobNotFoundError)) throw error;
+      console.error('Skipping missing blob in archive:', entry.file.id);
+      await appendNext();
+    }
+  };
+
+  archive.on('entry', () => {
+    appendNext().catch((error) => {
+      archive.abort();
+      res.destroy(error);
+    });
+  });
+  await appendNext();
+}
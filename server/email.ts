@@ -10,6 +10,15 @@ interface EmailConfig {
   };
 }
 
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
 class EmailService {
   private transporter: nodemailer.Transporter | null = null;
   private isConfigured = false;
@@ -131,7 +140,7 @@ class EmailService {
             </div>
             
             <div style="padding: 40px; background: #ffffff;">
-              <h2 style="color: #333; margin-bottom: 20px;">Hello ${displayName}!</h2>
+              <h2 style="color: #333; margin-bottom: 20px;">Hello ${escapeHtml(displayName)}!</h2>
               
               <p style="color: #666; font-size: 16px; line-height: 1.6;">
                 Thank you for joining SecureShare! Your account has been created successfully.
@@ -181,6 +190,194 @@ class EmailService {
     }
   }
 
+  // Link that confirms the address belongs to whoever registered it
+  async sendVerificationEmail(userEmail: string, verifyUrl: string, expiresInHours: number): Promise<boolean> {
+    if (!this.isConfigured || !this.transporter) {
+      return false;
+    }
+
+    try {
+      const mailOptions = {
+        from: process.env.SMTP_FROM || process.env.SMTP_USER,
+        to: userEmail,
+        subject: 'Verify your SecureShare email address',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 28px;">🔐 SecureShare</h1>
+              <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">Secure File Sharing</p>
+            </div>
+
+            <div style="padding: 40px; background: #ffffff;">
+              <h2 style="color: #333; margin-bottom: 20px;">Confirm your email address</h2>
+
+              <p style="color: #666; font-size: 16px; line-height: 1.6;">
+                Someone created a SecureShare account with this address. If it was you, confirm it below
+                to start sharing files.
+              </p>
+
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${verifyUrl}"
+                   style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+                          color: white;
+                          padding: 15px 30px;
+                          text-decoration: none;
+                          border-radius: 5px;
+                          font-weight: bold;
+                          display: inline-block;">
+                  Verify Email
+                </a>
+              </div>
+
+              <div style="border-top: 1px solid #eee; padding-top: 20px; margin-top: 30px;">
+                <p style="color: #999; font-size: 14px; text-align: center;">
+                  This link expires in ${expiresInHours} hours. If you didn't sign up, you can ignore this email.<br>
+                  Powered by SecureShare - Professional File Sharing
+                </p>
+              </div>
+            </div>
+          </div>
+        `
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log(`Verification email sent to ${userEmail}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send verification email:', error);
+      return false;
+    }
+  }
+
+  async sendPasswordResetEmail(userEmail: string, resetUrl: string, expiresInMinutes: number): Promise<boolean> {
+    if (!this.isConfigured || !this.transporter) {
+      return false;
+    }
+
+    try {
+      const mailOptions = {
+        from: process.env.SMTP_FROM || process.env.SMTP_USER,
+        to: userEmail,
+        subject: 'Reset your SecureShare password',
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 28px;">🔐 SecureShare</h1>
+              <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">Secure File Sharing</p>
+            </div>
+
+            <div style="padding: 40px; background: #ffffff;">
+              <h2 style="color: #333; margin-bottom: 20px;">Reset your password</h2>
+
+              <p style="color: #666; font-size: 16px; line-height: 1.6;">
+                We received a request to reset the password of your SecureShare account. Choose a new
+                one below; you'll be signed out on all your devices.
+              </p>
+
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${resetUrl}"
+                   style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+                          color: white;
+                          padding: 15px 30px;
+                          text-decoration: none;
+                          border-radius: 5px;
+                          font-weight: bold;
+                          display: inline-block;">
+                  Reset Password
+                </a>
+              </div>
+
+              <div style="border-top: 1px solid #eee; padding-top: 20px; margin-top: 30px;">
+                <p style="color: #999; font-size: 14px; text-align: center;">
+                  This link expires in ${expiresInMinutes} minutes and works once. If you didn't ask for it,
+                  you can ignore this email; your password stays the same.<br>
+                  Powered by SecureShare - Professional File Sharing
+                </p>
+              </div>
+            </div>
+          </div>
+        `
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log(`Password reset email sent to ${userEmail}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send password reset email:', error);
+      return false;
+    }
+  }
+
+  // Tell a file request's owner that something arrived. Uploader details are
+  // typed in by strangers, so everything from the request is escaped.
+  async sendFileRequestUploadEmail(
+    ownerEmail: string,
+    requestTitle: string,
+    fileName: string,
+    uploader: { name?: string | null; email?: string | null }
+  ): Promise<boolean> {
+    if (!this.isConfigured || !this.transporter) {
+      return false;
+    }
+
+    const from = [uploader.name, uploader.email && `<${uploader.email}>`].filter(Boolean).join(' ') || 'Someone';
+
+    try {
+      const mailOptions = {
+        from: process.env.SMTP_FROM || process.env.SMTP_USER,
+        to: ownerEmail,
+        subject: `New file received for "${requestTitle}": ${fileName}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <div style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); padding: 30px; text-align: center;">
+              <h1 style="color: white; margin: 0; font-size: 28px;">🔐 SecureShare</h1>
+              <p style="color: rgba(255,255,255,0.9); margin: 10px 0 0 0;">Secure File Sharing</p>
+            </div>
+
+            <div style="padding: 40px; background: #ffffff;">
+              <h2 style="color: #333; margin-bottom: 20px;">You've received a file!</h2>
+
+              <p style="color: #666; font-size: 16px; line-height: 1.6;">
+                <strong>${escapeHtml(from)}</strong> sent a file through your request <strong>${escapeHtml(requestTitle)}</strong>.
+              </p>
+
+              <div style="background: #f8f9ff; padding: 20px; border-radius: 8px; margin: 20px 0;">
+                <p style="margin: 0; color: #333;"><strong>File:</strong> ${escapeHtml(fileName)}</p>
+              </div>
+
+              <div style="text-align: center; margin: 30px 0;">
+                <a href="${process.env.APP_URL || 'http://localhost:5000'}/dashboard"
+                   style="background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+                          color: white;
+                          padding: 15px 30px;
+                          text-decoration: none;
+                          border-radius: 5px;
+                          font-weight: bold;
+                          display: inline-block;">
+                  View Your Files
+                </a>
+              </div>
+
+              <div style="border-top: 1px solid #eee; padding-top: 20px; margin-top: 30px;">
+                <p style="color: #999; font-size: 14px; text-align: center;">
+                  Files are scanned for malware before they can be shared.<br>
+                  Powered by SecureShare - Professional File Sharing
+                </p>
+              </div>
+            </div>
+          </div>
+        `
+      };
+
+      await this.transporter.sendMail(mailOptions);
+      console.log(`File request email sent to ${ownerEmail} for file: ${fileName}`);
+      return true;
+    } catch (error) {
+      console.error('Failed to send file request email:', error);
+      return false;
+    }
+  }
+
   isEmailConfigured(): boolean {
     return this.isConfigured;
   }
@@ -0,0 +1,137 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { Transform, type Readable } from "stream";
+
+// Blobs are encrypted at rest with AES-256-CTR under a random data key. CTR
+// keeps ciphertext the same length as the plaintext and can be decrypted from
+// any block boundary, so Range requests don't have to read the whole blob.
+// Integrity is covered separately by the sha256 content hash.
+const DATA_CIPHER = 'aes-256-ctr';
+const WRAP_CIPHER = 'aes-256-gcm';
+export const CIPHER_BLOCK_SIZE = 16;
+
+export interface DataKey {
+  key: Buffer; // 32 bytes
+  iv: Buffer; // 16-byte initial counter block
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function parseMasterKey(encoded: string): MasterKey {
+  const key = Buffer.from(encoded.trim(), 'base64');
+  if (key.length !== 32) {
+    throw new Error('Encryption master keys must be 32 bytes, base64-encoded');
+  }
+  return { id: createHash('sha256').update(key).digest('hex').slice(0, 8), key };
+}
+
+// ENCRYPTION_MASTER_KEY wraps new data keys. Keys listed in
+// ENCRYPTION_PREVIOUS_MASTER_KEYS can still unwrap existing data keys until
+// `npm run keys:rotate` has re-wrapped them under the current key.
+function loadMasterKeys() {
+  const current = process.env.ENCRYPTION_MASTER_KEY ? parseMasterKey(process.env.ENCRYPTION_MASTER_KEY) : undefined;
+  const previous = (process.env.ENCRYPTION_PREVIOUS_MASTER_KEYS || '')
+    .split(',')
+    .filter(encoded => encoded.trim())
+    .map(parseMasterKey);
+
+  const byId = new Map<string, MasterKey>();
+  for (const masterKey of [...previous, ...(current ? [current] : [])]) {
+    byId.set(masterKey.id, masterKey);
+  }
+  return { current, byId };
+}
+
+const masterKeys = loadMasterKeys();
+
+// Without a master key new blobs are stored in plaintext
+export function isEncryptionEnabled(): boolean {
+  return !!masterKeys.current;
+}
+
+export function currentMasterKeyId(): string | undefined {
+  return masterKeys.current?.id;
+}
+
+export function generateDataKey(): DataKey {
+  return { key: randomBytes(32), iv: randomBytes(16) };
+}
+
+// Wrapped keys look like `<master key id>:<base64 of nonce | key | iv | tag>`
+export function wrapDataKey(dataKey: DataKey): string {
+  const masterKey = masterKeys.current;
+  if (!masterKey) {
+    throw new Error('ENCRYPTION_MASTER_KEY is not configured');
+  }
+
+  const nonce = randomBytes(12);
+  const cipher = createCipheriv(WRAP_CIPHER, masterKey.key, nonce);
+  const sealed = Buffer.concat([cipher.update(Buffer.concat([dataKey.key, dataKey.iv])), cipher.final()]);
+  return `${masterKey.id}:${Buffer.concat([nonce, sealed, cipher.getAuthTag()]).toString('base64')}`;
+}
+
+export function wrappingKeyId(wrapped: string): string {
+  return wrapped.slice(0, wrapped.indexOf(':'));
+}
+
+export function unwrapDataKey(wrapped: string): DataKey {
+  const masterKey = masterKeys.byId.get(wrappingKeyId(wrapped));
+  if (!masterKey) {
+    throw new Error(`No master key configured for data key wrapped with "${wrappingKeyId(wrapped)}"`);
+  }
+
+  const payload = Buffer.from(wrapped.slice(wrapped.indexOf(':') + 1), 'base64');
+  const decipher = createDecipheriv(WRAP_CIPHER, masterKey.key, payload.subarray(0, 12));
+  decipher.setAuthTag(payload.subarray(payload.length - 16));
+  const material = Buffer.concat([decipher.update(payload.subarray(12, payload.length - 16)), decipher.final()]);
+  return { key: material.subarray(0, 32), iv: material.subarray(32) };
+}
+
+// Re-wrap a data key under the current master key. Returns undefined when it
+// already is, so rotation only touches rows that need it.
+export function rewrapDataKey(wrapped: string): string | undefined {
+  if (wrappingKeyId(wrapped) === currentMasterKeyId()) return undefined;
+  return wrapDataKey(unwrapDataKey(wrapped));
+}
+
+// Counter block for a byte offset: CTR increments the whole 128-bit IV once
+// per 16-byte block
+function counterAt(iv: Buffer, offset: number): Buffer {
+  const counter = (BigInt(`0x${iv.toString('hex')}`) + BigInt(offset / CIPHER_BLOCK_SIZE)) % (BigInt(1) << BigInt(128));
+  return Buffer.from(counter.toString(16).padStart(32, '0'), 'hex');
+}
+
+function piped(source: Readable, transform: Transform): Transform {
+  source.on('error', (error) => transform.destroy(error));
+  return source.pipe(transform);
+}
+
+export function encryptingStream(source: Readable, dataKey: DataKey): Transform {
+  return piped(source, createCipheriv(DATA_CIPHER, dataKey.key, dataKey.iv));
+}
+
+// Decrypt ciphertext that starts at `offset` (a multiple of the block size),
+// dropping the first `skip` plaintext bytes
+export function decryptingStream(source: Readable, dataKey: DataKey, offset = 0, skip = 0): Transform {
+  const decipher = createDecipheriv(DATA_CIPHER, dataKey.key, counterAt(dataKey.iv, offset));
+  if (skip === 0) {
+    return piped(source, decipher);
+  }
+
+  let remaining = skip;
+  const trim = new Transform({
+    transform(data: Buffer, _encoding, callback) {
+      if (remaining >= data.length) {
+        remaining -= data.length;
+        return callback();
+      }
+      const rest = data.subarray(remaining);
+      remaining = 0;
+      callback(null, rest);
+    },
+  });
+  piped(source, decipher);
+  return piped(decipher, trim);
+}
@@ -0,0 +1,123 @@
+import path from "path";
+import multer from "multer";
+import type { FileRequest, InsertFileRequest } from "@shared/schema";
+import { createBlobStorageEngine } from "./blobs";
+
+// Cap for requests that don't set their own; uploaders are anonymous, so
+// there is always a limit
+export const DEFAULT_REQUEST_MAX_FILE_SIZE = 2 * 1024 * 1024 * 1024;
+
+export class FileTypeNotAllowedError extends Error {
+  constructor(fileName: string) {
+    super(`File type not accepted by this request: ${fileName}`);
+    this.name = 'FileTypeNotAllowedError';
+  }
+}
+
+// Accepts ".pdf", "pdf", "image/png" or "image/*", as an array or a
+// comma-separated string. Returns null for "anything" and undefined when an
+// entry is malformed.
+export function parseAllowedFileTypes(input: unknown): string[] | null | undefined {
+  if (input === undefined || input === null || input === '') return null;
+
+  const entries = (Array.isArray(input) ? input : String(input).split(','))
+    .map(entry => String(entry).trim().toLowerCase())
+    .filter(Boolean);
+  if (entries.length === 0) return null;
+
+  const normalized: string[] = [];
+  for (const entry of entries) {
+    if (/^[a-z0-9.+-]+\/(\*|[a-z0-9.+-]+)$/.test(entry)) {
+      normalized.push(entry);
+    } else if (/^\.?[a-z0-9]+$/.test(entry)) {
+      normalized.push(entry.startsWith('.') ? entry : `.${entry}`);
+    } else {
+      return undefined;
+    }
+  }
+  return normalized;
+}
+
+export function isFileTypeAllowed(allowed: string[] | null, fileName: string, mimeType: string): boolean {
+  if (!allowed || allowed.length === 0) return true;
+
+  const extension = path.extname(fileName).toLowerCase();
+  const type = mimeType.toLowerCase();
+  return allowed.some(entry => {
+    if (entry.startsWith('.')) return entry === extension;
+    if (entry.endsWith('/*')) return type.startsWith(entry.slice(0, -1));
+    return entry === type;
+  });
+}
+
+export type FileRequestSettings = Partial<Pick<InsertFileRequest,
+  'title' | 'description' | 'maxFileSize' | 'allowedFileTypes' | 'expiresAt' | 'isActive'>>;
+
+// Validate the owner-editable settings present in a request body
+export function parseFileRequestSettings(body: any): { settings: FileRequestSettings; error?: string } {
+  const settings: FileRequestSettings = {};
+
+  if (body.title !== undefined) {
+    if (!body.title || typeof body.title !== 'string') {
+      return { settings, error: 'Request title is required' };
+    }
+    settings.title = body.title.trim();
+  }
+
+  if (body.description !== undefined) {
+    settings.description = body.description ? String(body.description) : null;
+  }
+
+  if (body.maxFileSize !== undefined) {
+    const maxFileSize = body.maxFileSize === null ? null : Number(body.maxFileSize);
+    if (maxFileSize !== null && (!Number.isInteger(maxFileSize) || maxFileSize <= 0 || maxFileSize > DEFAULT_REQUEST_MAX_FILE_SIZE)) {
+      return { settings, error: `maxFileSize must be between 1 and ${DEFAULT_REQUEST_MAX_FILE_SIZE} bytes` };
+    }
+    settings.maxFileSize = maxFileSize;
+  }
+
+  if (body.allowedFileTypes !== undefined) {
+    const allowedFileTypes = parseAllowedFileTypes(body.allowedFileTypes);
+    if (allowedFileTypes === undefined) {
+      return { settings, error: 'allowedFileTypes must be extensions like ".pdf" or MIME types like "image/*"' };
+    }
+    settings.allowedFileTypes = allowedFileTypes;
+  }
+
+  if (body.expiresAt !== undefined) {
+    const expiresAt = body.expiresAt ? new Date(body.expiresAt) : null;
+    if (expiresAt && isNaN(expiresAt.getTime())) {
+      return { settings, error: 'expiresAt must be a date' };
+    }
+    settings.expiresAt = expiresAt;
+  }
+
+  if (body.isActive !== undefined) {
+    settings.isActive = !!body.isActive;
+  }
+
+  return { settings };
+}
+
+// Why a request is not taking uploads right now, if it isn't
+export function requestClosedReason(request: FileRequest): string | undefined {
+  if (!request.isActive) return 'This file request has been closed';
+  if (request.expiresAt && new Date() > request.expiresAt) return 'The deadline for this file request has passed';
+  return undefined;
+}
+
+// Multer middleware for one request's upload: enforces the size cap while
+// streaming and refuses disallowed types before anything is stored
+export function requestUploadMiddleware(request: FileRequest) {
+  return multer({
+    storage: createBlobStorageEngine(),
+    limits: { fileSize: request.maxFileSize ?? DEFAULT_REQUEST_MAX_FILE_SIZE, files: 1 },
+    fileFilter: (_req, file, cb) => {
+      if (isFileTypeAllowed(request.allowedFileTypes, file.originalname, file.mimetype)) {
+        cb(null, true);
+      } else {
+        cb(new FileTypeNotAllowedError(file.originalname));
+      }
+    },
+  }).single('file');
+}
@@ -0,0 +1,40 @@
+import type { File, Folder } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface FolderTreeEntry {
+  file: File;
+  path: string; // relative to the root folder, e.g. "Reports/2024/q1.pdf"
+}
+
+// True when `folderId` is `rootId` or one of its descendants
+export async function isWithinFolder(folderId: string | null, rootId: string): Promise<boolean> {
+  if (!folderId) return false;
+  const path = await storage.getFolderPath(folderId);
+  return path.some(folder => folder.id === rootId);
+}
+
+// Reject moves that would make a folder its own ancestor
+export async function canMoveFolder(folderId: string, targetParentId: string | null): Promise<boolean> {
+  if (!targetParentId) return true;
+  return !(await isWithinFolder(targetParentId, folderId));
+}
+
+// Every file below a folder, with its path relative to that folder
+export async function collectFolderFiles(root: Folder, prefix = ''): Promise<FolderTreeEntry[]> {
+  const contents = await storage.getFolderContents(root.userId, root.id);
+  const entries: FolderTreeEntry[] = contents.files.map(file => ({
+    file,
+    path: `${prefix}${file.originalName}`,
+  }));
+
+  for (const child of contents.folders) {
+    entries.push(...await collectFolderFiles(child, `${prefix}${child.name}/`));
+  }
+  return entries;
+}
+
+// Breadcrumbs as seen by a share recipient: nothing above the shared folder
+export function trimBreadcrumbs(breadcrumbs: Folder[], rootId: string): Folder[] {
+  const start = breadcrumbs.findIndex(folder => folder.id === rootId);
+  return start === -1 ? [] : breadcrumbs.slice(start);
+}
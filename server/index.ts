@@ -1,10 +1,27 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { resumePendingScans } from "./scanner";
+import { startScheduler } from "./scheduler";
+import { backgroundJobs } from "./jobs";
+import { rateLimit, trustProxySetting } from "./rateLimit";
 
 const app = express();
+// Off unless TRUST_PROXY names the proxies in front of the app; otherwise
+// clients could pick their own req.ip with X-Forwarded-For
+app.set("trust proxy", trustProxySetting());
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
+app.use("/api", rateLimit('api'));
+
+// Responses that carry secrets (session tokens, TOTP secrets, recovery
+// codes, API keys, share access tokens) are logged without their body
+const SECRET_RESPONSE_PATHS = [
+  /^\/api\/auth\//,
+  /^\/api\/api-keys(\/|$)/,
+  /^\/api\/shared\/[^/]+\/unlock$/,
+  /^\/api\/public\/file\/[^/]+\/unlock$/,
+];
 
 app.use((req, res, next) => {
   const start = Date.now();
@@ -21,7 +38,7 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      if (capturedJsonResponse && !SECRET_RESPONSE_PATHS.some(pattern => pattern.test(path))) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
 
@@ -39,6 +56,12 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Files left unscanned by a restart are picked up again in the background
+  resumePendingScans().catch((error) => console.error('Failed to resume malware scans:', error));
+
+  // Quota resets, expiry and cleanup; instances coordinate through scheduled_jobs
+  startScheduler(backgroundJobs);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,93 @@
+import { storage } from "./storage";
+import { storageDriver } from "./storageDriver";
+import { deleteChunkBlobs } from "./uploadSessions";
+import { moveToTrash, purgeExpiredTrash } from "./trash";
+import { ATTEMPT_MEMORY_MS } from "./bruteForce";
+import type { JobDefinition } from "./scheduler";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+// Uploads stream into "incoming/" before they are moved to their content
+// address; anything left there this long belongs to a request that died
+const ORPHANED_UPLOAD_AGE_MS = 24 * HOUR_MS;
+
+// Counts reset once the UTC date changes, replacing Supabase's
+// reset_daily_upload_count RPC
+async function resetDailyQuotas(): Promise<string> {
+  const today = new Date().toISOString().slice(0, 10);
+  const reset = await storage.resetDailyUploadCounts(today);
+  return `Reset upload counts for ${reset} profile(s)`;
+}
+
+// Files past their expiry or out of downloads can't be fetched any more;
+// they go to the trash, which purges them after the retention window
+async function trashExpiredFiles(): Promise<string> {
+  const expired = await storage.getExpiredFiles(new Date());
+  for (const file of expired) {
+    await moveToTrash(file);
+  }
+  return `Moved ${expired.length} expired file(s) to the trash`;
+}
+
+async function purgeTrash(): Promise<string> {
+  const purged = await purgeExpiredTrash();
+  return `Purged ${purged} file(s) from the trash`;
+}
+
+async function removeExpiredUploadSessions(): Promise<string> {
+  const sessions = await storage.getExpiredUploadSessions(new Date());
+  for (const session of sessions) {
+    await deleteChunkBlobs(await storage.getUploadChunks(session.id));
+    await storage.deleteUploadSession(session.id);
+  }
+  return `Removed ${sessions.length} expired upload session(s)`;
+}
+
+async function removeOrphanedUploads(): Promise<string> {
+  const cutoff = Date.now() - ORPHANED_UPLOAD_AGE_MS;
+  let removed = 0;
+  for (const blob of await storageDriver.list('incoming')) {
+    if (blob.lastModified && blob.lastModified.getTime() < cutoff && await storageDriver.delete(blob.key)) {
+      removed++;
+    }
+  }
+  return `Removed ${removed} orphaned upload file(s)`;
+}
+
+// Failure counters that are no longer locked and would be reset on the
+// next failure anyway
+async function removeStaleAccessAttempts(): Promise<string> {
+  const removed = await storage.deleteStaleAccessAttempts(new Date(Date.now() - ATTEMPT_MEMORY_MS));
+  return `Removed ${removed} stale access attempt record(s)`;
+}
+
+// Finished windows of the shared rate limit store
+async function removeExpiredRateLimitCounters(): Promise<string> {
+  const removed = await storage.deleteExpiredRateLimitCounters(new Date());
+  return `Removed ${removed} expired rate limit counter(s)`;
+}
+
+// Sessions past their refresh token's lifetime, or revoked, can't be used again
+async function removeEndedSessions(): Promise<string> {
+  const removed = await storage.deleteExpiredSessions(new Date());
+  return `Removed ${removed} ended session(s)`;
+}
+
+// Verification and reset links that can no longer be used
+async function removeExpiredEmailTokens(): Promise<string> {
+  const removed = await storage.deleteExpiredEmailTokens(new Date());
+  return `Removed ${removed} expired email token(s)`;
+}
+
+export const backgroundJobs: JobDefinition[] = [
+  { name: 'daily-quota-reset', intervalMs: 15 * MINUTE_MS, run: resetDailyQuotas },
+  { name: 'trash-expired-files', intervalMs: 15 * MINUTE_MS, run: trashExpiredFiles },
+  { name: 'purge-trash', intervalMs: HOUR_MS, run: purgeTrash },
+  { name: 'expired-upload-sessions', intervalMs: HOUR_MS, run: removeExpiredUploadSessions },
+  { name: 'orphaned-uploads', intervalMs: 6 * HOUR_MS, run: removeOrphanedUploads },
+  { name: 'stale-access-attempts', intervalMs: HOUR_MS, run: removeStaleAccessAttempts },
+  { name: 'expired-rate-limit-counters', intervalMs: HOUR_MS, run: removeExpiredRateLimitCounters },
+  { name: 'ended-sessions', intervalMs: 6 * HOUR_MS, run: removeEndedSessions },
+  { name: 'expired-email-tokens', intervalMs: 6 * HOUR_MS, run: removeExpiredEmailTokens },
+];
@@ -0,0 +1,149 @@
+import express from "express";
+import jwt from "jsonwebtoken";
+import { createHash, generateKeyPairSync, randomBytes } from "crypto";
+
+// A stand-in OpenID Connect provider for trying single sign-on locally. Its
+// sign-in page asks for any email address and vouches for it as verified.
+// Start it, then run the app with:
+//
+//   npm run oidc:mock
+//   OIDC_PROVIDERS=mock OIDC_MOCK_ISSUER=http://localhost:5055 \
+//     OIDC_MOCK_CLIENT_ID=secureshare OIDC_MOCK_NAME="Mock IdP" npm run dev
+//
+// Never point a real deployment at it.
+
+const port = Number(process.env.MOCK_OIDC_PORT || 5055);
+const issuer = process.env.MOCK_OIDC_ISSUER || `http://localhost:${port}`;
+const CODE_TTL_MS = 60 * 1000;
+const ID_TOKEN_TTL_SECONDS = 5 * 60;
+
+const keyId = randomBytes(8).toString('hex');
+const { privateKey, publicKey } = generateKeyPairSync('rsa', { modulusLength: 2048 });
+const publicJwk = { ...publicKey.export({ format: 'jwk' }), kid: keyId, use: 'sig', alg: 'RS256' };
+
+interface AuthorizationCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  email: string;
+  expiresAt: number;
+}
+
+const codes = new Map<string, AuthorizationCode>();
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+// The same email always gets the same subject
+function subjectFor(email: string): string {
+  return createHash('sha256').update(email.toLowerCase()).digest('hex').slice(0, 24);
+}
+
+const app = express();
+app.use(express.urlencoded({ extended: false }));
+
+app.get("/.well-known/openid-configuration", (req, res) => {
+  res.json({
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ['code'],
+    subject_types_supported: ['public'],
+    id_token_signing_alg_values_supported: ['RS256'],
+    token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post', 'none'],
+    code_challenge_methods_supported: ['S256'],
+    scopes_supported: ['openid', 'email', 'profile'],
+  });
+});
+
+app.get("/jwks", (req, res) => {
+  res.json({ keys: [publicJwk] });
+});
+
+// The sign-in page: the query is carried through as hidden fields
+app.get("/authorize", (req, res) => {
+  const fields = ['client_id', 'redirect_uri', 'state', 'nonce', 'code_challenge', 'code_challenge_method']
+    .map(name => typeof req.query[name] === 'string'
+      ? `<input type="hidden" name="${name}" value="${escapeHtml(req.query[name] as string)}">`
+      : '')
+    .join('');
+
+  res.send(`<!DOCTYPE html>
+<html><body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+  <h2>Mock identity provider</h2>
+  <form method="post" action="/authorize">
+    ${fields}
+    <label>Email <input type="email" name="email" value="mock.user@example.com" required></label>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`);
+});
+
+app.post("/authorize", (req, res) => {
+  const { client_id, redirect_uri, state, nonce, code_challenge, code_challenge_method, email } = req.body;
+  if (!client_id || !redirect_uri || !email) {
+    return res.status(400).send('client_id, redirect_uri and email are required');
+  }
+  if (code_challenge && code_challenge_method !== 'S256') {
+    return res.status(400).send('Only S256 code challenges are supported');
+  }
+
+  const code = randomBytes(16).toString('hex');
+  codes.set(code, {
+    clientId: client_id,
+    redirectUri: redirect_uri,
+    nonce,
+    codeChallenge: code_challenge,
+    email,
+    expiresAt: Date.now() + CODE_TTL_MS,
+  });
+
+  const redirect = new URL(redirect_uri);
+  redirect.searchParams.set('code', code);
+  if (state) redirect.searchParams.set('state', state);
+  res.redirect(redirect.toString());
+});
+
+app.post("/token", (req, res) => {
+  // Client secrets aren't checked, but the client id has to match
+  const basic = req.headers.authorization?.match(/^Basic (.+)$/);
+  const clientId = basic
+    ? decodeURIComponent(Buffer.from(basic[1], 'base64').toString('utf8').split(':')[0])
+    : req.body.client_id;
+
+  const { grant_type, code, redirect_uri, code_verifier } = req.body;
+  const grant = typeof code === 'string' ? codes.get(code) : undefined;
+  codes.delete(code);
+
+  if (grant_type !== 'authorization_code') {
+    return res.status(400).json({ error: 'unsupported_grant_type' });
+  }
+  if (!grant || grant.expiresAt < Date.now() || grant.clientId !== clientId || grant.redirectUri !== redirect_uri) {
+    return res.status(400).json({ error: 'invalid_grant' });
+  }
+  if (grant.codeChallenge) {
+    const challenge = createHash('sha256').update(String(code_verifier ?? '')).digest('base64url');
+    if (challenge !== grant.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+  }
+
+  const idToken = jwt.sign(
+    { email: grant.email, email_verified: true, nonce: grant.nonce },
+    privateKey,
+    { algorithm: 'RS256', keyid: keyId, issuer, audience: grant.clientId, subject: subjectFor(grant.email), expiresIn: ID_TOKEN_TTL_SECONDS },
+  );
+  res.json({
+    access_token: randomBytes(16).toString('hex'),
+    token_type: 'Bearer',
+    expires_in: ID_TOKEN_TTL_SECONDS,
+    id_token: idToken,
+  });
+});
+
+app.listen(port, () => {
+  console.log(`Mock OIDC issuer at ${issuer}`);
+});
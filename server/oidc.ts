@@ -0,0 +1,337 @@
+import type { Request, Response, CookieOptions } from "express";
+import jwt from "jsonwebtoken";
+import bcrypt from "bcrypt";
+import { createHash, createPublicKey, randomBytes, type JsonWebKey, type KeyObject } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { emailService } from "./email";
+import { readCookie } from "./auth";
+
+// Providers are listed in OIDC_PROVIDERS ("okta,google") and each is set up
+// with OIDC_<ID>_ISSUER, OIDC_<ID>_CLIENT_ID, OIDC_<ID>_CLIENT_SECRET (left
+// out for public clients) and optionally OIDC_<ID>_NAME and OIDC_<ID>_SCOPES.
+// Everything else comes from the issuer's discovery document.
+export interface OidcProvider {
+  id: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  scopes: string;
+}
+
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+  token_endpoint_auth_methods_supported?: string[];
+}
+
+// What the flow cookie carries from the redirect to the callback
+interface OidcFlow {
+  provider: string;
+  state: string;
+  nonce: string;
+  verifier: string; // PKCE code verifier
+}
+
+export interface OidcClaims {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+}
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcError';
+  }
+}
+
+const DISCOVERY_TTL_MS = 60 * 60 * 1000;
+const FETCH_TIMEOUT_MS = 10 * 1000;
+// Time to get through the provider's sign-in page
+const FLOW_TTL_MS = 10 * 60 * 1000;
+const SIGNING_ALGORITHMS: jwt.Algorithm[] = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512'];
+
+const FLOW_COOKIE = 'oidc_flow';
+// Lax, because the callback is a top-level navigation from the provider
+const flowCookieOptions: CookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'lax',
+  path: '/api/auth/oidc',
+};
+
+function loadProviders(): Map<string, OidcProvider> {
+  const providers = new Map<string, OidcProvider>();
+  const ids = (process.env.OIDC_PROVIDERS || '').split(',').map(id => id.trim().toLowerCase()).filter(Boolean);
+
+  for (const id of ids) {
+    if (!/^[a-z0-9-]+$/.test(id)) {
+      throw new Error(`Invalid OIDC provider id: ${id}`);
+    }
+    const prefix = `OIDC_${id.toUpperCase().replace(/-/g, '_')}_`;
+    const issuer = process.env[`${prefix}ISSUER`];
+    const clientId = process.env[`${prefix}CLIENT_ID`];
+    if (!issuer || !clientId) {
+      throw new Error(`OIDC provider ${id} needs ${prefix}ISSUER and ${prefix}CLIENT_ID`);
+    }
+
+    providers.set(id, {
+      id,
+      name: process.env[`${prefix}NAME`] || id,
+      issuer,
+      clientId,
+      clientSecret: process.env[`${prefix}CLIENT_SECRET`] || undefined,
+      scopes: process.env[`${prefix}SCOPES`] || 'openid email profile',
+    });
+  }
+  return providers;
+}
+
+const providers = loadProviders();
+
+export function getOidcProvider(id: string): OidcProvider | undefined {
+  return providers.get(id);
+}
+
+// For the sign-in page's buttons
+export function listOidcProviders() {
+  return Array.from(providers.values()).map(provider => ({ id: provider.id, name: provider.name }));
+}
+
+function callbackUrl(provider: OidcProvider): string {
+  return `${process.env.APP_URL || 'http://localhost:5000'}/api/auth/oidc/${provider.id}/callback`;
+}
+
+function randomToken(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+async function fetchJson(url: string, init?: RequestInit): Promise<any> {
+  const response = await fetch(url, { ...init, signal: AbortSignal.timeout(FETCH_TIMEOUT_MS) });
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new OidcError(body?.error_description || body?.error || `Identity provider responded with ${response.status}`);
+  }
+  return body;
+}
+
+const discoveryCache = new Map<string, { document: DiscoveryDocument; fetchedAt: number }>();
+
+async function discover(provider: OidcProvider): Promise<DiscoveryDocument> {
+  const cached = discoveryCache.get(provider.id);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_TTL_MS) return cached.document;
+
+  const document = await fetchJson(`${provider.issuer.replace(/\/$/, '')}/.well-known/openid-configuration`);
+  // A document naming some other issuer would let it mint our id tokens
+  if (document?.issuer !== provider.issuer) {
+    throw new OidcError(`Discovery document for ${provider.id} is for issuer ${document?.issuer}`);
+  }
+  for (const field of ['authorization_endpoint', 'token_endpoint', 'jwks_uri'] as const) {
+    if (typeof document[field] !== 'string') {
+      throw new OidcError(`Discovery document for ${provider.id} has no ${field}`);
+    }
+  }
+
+  discoveryCache.set(provider.id, { document, fetchedAt: Date.now() });
+  return document;
+}
+
+const jwksCache = new Map<string, JsonWebKey[]>();
+
+// The provider's key for an id token. Keys are cached until a token names
+// one we haven't seen, which is how rotation shows up.
+async function signingKey(provider: OidcProvider, document: DiscoveryDocument, kid: string | undefined): Promise<KeyObject> {
+  const find = (keys: JsonWebKey[]) => keys.find(key =>
+    (kid ? key.kid === kid : true) && (!key.use || key.use === 'sig'));
+
+  let key = find(jwksCache.get(provider.id) ?? []);
+  if (!key) {
+    const jwks = await fetchJson(document.jwks_uri);
+    const keys: JsonWebKey[] = Array.isArray(jwks?.keys) ? jwks.keys : [];
+    jwksCache.set(provider.id, keys);
+    key = find(keys);
+  }
+  if (!key) {
+    throw new OidcError('Identity provider signed the sign-in with an unknown key');
+  }
+  return createPublicKey({ key, format: 'jwk' });
+}
+
+// Start a sign-in: remember state, nonce and PKCE verifier in a short-lived
+// cookie and return the provider URL to send the browser to
+export async function beginOidcLogin(res: Response, provider: OidcProvider): Promise<string> {
+  const document = await discover(provider);
+  const flow: OidcFlow = { provider: provider.id, state: randomToken(), nonce: randomToken(), verifier: randomToken() };
+  res.cookie(FLOW_COOKIE, Buffer.from(JSON.stringify(flow)).toString('base64url'), { ...flowCookieOptions, maxAge: FLOW_TTL_MS });
+
+  const url = new URL(document.authorization_endpoint);
+  url.searchParams.set('response_type', 'code');
+  url.searchParams.set('client_id', provider.clientId);
+  url.searchParams.set('redirect_uri', callbackUrl(provider));
+  url.searchParams.set('scope', provider.scopes);
+  url.searchParams.set('state', flow.state);
+  url.searchParams.set('nonce', flow.nonce);
+  url.searchParams.set('code_challenge', createHash('sha256').update(flow.verifier).digest('base64url'));
+  url.searchParams.set('code_challenge_method', 'S256');
+  return url.toString();
+}
+
+function readFlow(req: Request): OidcFlow | undefined {
+  const cookie = readCookie(req, FLOW_COOKIE);
+  if (!cookie) return undefined;
+  try {
+    return JSON.parse(Buffer.from(cookie, 'base64url').toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+// Finish a sign-in at the callback: check the state against the flow
+// cookie, trade the code for tokens and verify the id token
+export async function completeOidcLogin(req: Request, res: Response, provider: OidcProvider): Promise<OidcClaims> {
+  const flow = readFlow(req);
+  res.clearCookie(FLOW_COOKIE, flowCookieOptions);
+
+  const { code, state, error, error_description } = req.query;
+  if (typeof error === 'string') {
+    throw new OidcError(typeof error_description === 'string' ? error_description : error);
+  }
+  if (!flow || flow.provider !== provider.id || typeof state !== 'string' || flow.state !== state) {
+    throw new OidcError('Sign-in expired or was started in another browser, please try again');
+  }
+  if (typeof code !== 'string' || !code) {
+    throw new OidcError('Identity provider returned no authorization code');
+  }
+
+  const document = await discover(provider);
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: callbackUrl(provider),
+    code_verifier: flow.verifier,
+    client_id: provider.clientId,
+  });
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' };
+  if (provider.clientSecret) {
+    // client_secret_basic is the default when the provider doesn't say
+    const authMethods = document.token_endpoint_auth_methods_supported ?? ['client_secret_basic'];
+    if (authMethods.includes('client_secret_basic')) {
+      const credentials = `${encodeURIComponent(provider.clientId)}:${encodeURIComponent(provider.clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      body.set('client_secret', provider.clientSecret);
+    }
+  }
+
+  const tokens = await fetchJson(document.token_endpoint, { method: 'POST', headers, body });
+  if (typeof tokens?.id_token !== 'string') {
+    throw new OidcError('Identity provider returned no id token');
+  }
+  return await verifyIdToken(provider, document, tokens.id_token, flow.nonce);
+}
+
+async function verifyIdToken(provider: OidcProvider, document: DiscoveryDocument, idToken: string, nonce: string): Promise<OidcClaims> {
+  const decoded = jwt.decode(idToken, { complete: true });
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new OidcError('Identity provider returned a malformed id token');
+  }
+  const algorithm = decoded.header.alg as jwt.Algorithm;
+  if (!SIGNING_ALGORITHMS.includes(algorithm)) {
+    throw new OidcError(`Unsupported id token algorithm ${decoded.header.alg}`);
+  }
+
+  let claims: jwt.JwtPayload;
+  try {
+    const key = await signingKey(provider, document, decoded.header.kid);
+    claims = jwt.verify(idToken, key, {
+      algorithms: [algorithm],
+      issuer: provider.issuer,
+      audience: provider.clientId,
+    }) as jwt.JwtPayload;
+  } catch (error: any) {
+    if (error instanceof OidcError) throw error;
+    throw new OidcError(`Invalid id token: ${error.message}`);
+  }
+
+  if (claims.nonce !== nonce) {
+    throw new OidcError('Invalid id token: nonce mismatch');
+  }
+  if (Array.isArray(claims.aud) && claims.aud.length > 1 && claims.azp !== provider.clientId) {
+    throw new OidcError('Invalid id token: issued to another client');
+  }
+  if (typeof claims.sub !== 'string' || !claims.sub) {
+    throw new OidcError('Invalid id token: no subject');
+  }
+
+  return {
+    subject: claims.sub,
+    email: typeof claims.email === 'string' ? claims.email.toLowerCase() : null,
+    // Some providers send the claim as a string
+    emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+  };
+}
+
+// The user a provider account signs in as. Known identities go straight to
+// their user; new ones are linked to the account with the same verified
+// email, or get a new account of their own.
+export async function resolveOidcUser(provider: OidcProvider, claims: OidcClaims): Promise<User> {
+  const now = new Date();
+  const identity = await storage.getUserIdentity(provider.id, claims.subject);
+  if (identity) {
+    const user = await storage.getUser(identity.userId);
+    if (!user) {
+      throw new OidcError('The account linked to this sign-in no longer exists');
+    }
+    await storage.touchUserIdentity(identity.id, claims.email, now);
+    return user;
+  }
+
+  // An unverified address proves nothing about who owns the account
+  if (!claims.email || !claims.emailVerified) {
+    throw new OidcError(`${provider.name} did not share a verified email address`);
+  }
+
+  let user = await storage.getUserByEmail(claims.email);
+  if (user) {
+    // Otherwise whoever registered the address first, without proving they
+    // own it, would keep a password into the provider user's account
+    if (!user.emailVerifiedAt) {
+      throw new OidcError('Verify your email address by signing in with your password before linking single sign-on');
+    }
+  } else {
+    user = await createOidcUser(claims.email, now);
+  }
+
+  await storage.createUserIdentity({
+    userId: user.id,
+    provider: provider.id,
+    subject: claims.subject,
+    email: claims.email,
+    lastUsedAt: now,
+  });
+  return user;
+}
+
+// Accounts made through single sign-on have no usable password until one
+// is set with a password reset
+async function createOidcUser(email: string, now: Date): Promise<User> {
+  const unusablePassword = await bcrypt.hash(randomBytes(32).toString('hex'), 10);
+  const user = await storage.createUser({ email, password: unusablePassword, emailVerifiedAt: now });
+
+  const profile = await storage.createProfile({
+    id: user.id,
+    email: user.email,
+    displayName: user.email.split('@')[0],
+    subscriptionTier: 'free',
+    subscriptionStatus: 'active',
+    dailyUploadCount: 0,
+    dailyUploadLimit: 10,
+    lastUploadReset: now.toISOString().split('T')[0],
+  });
+  await emailService.sendWelcomeEmail(user.email, profile.displayName || user.email);
+  return user;
+}
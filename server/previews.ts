@@ -0,0 +1,172 @@
+import { execFile } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { Readable } from "stream";
+import { promisify } from "util";
+import sharp from "sharp";
+import hljs from "highlight.js";
+import type { StoredBlob } from "@shared/schema";
+import { storage } from "./storage";
+import { openBlob, writeBlob } from "./blobs";
+import { resolveStoragePath, toStoragePath } from "./storageDriver";
+import { createWorkQueue } from "./workQueue";
+
+const execFileAsync = promisify(execFile);
+
+export type PreviewStatus = 'ready' | 'unavailable' | 'failed';
+
+// Thumbnails fit inside this box
+const PREVIEW_SIZE = 480;
+// Larger images and PDFs are not previewed rather than loaded into memory
+const MAX_SOURCE_BYTES = 50 * 1024 * 1024;
+// Text previews show the start of the file only
+const TEXT_PREVIEW_BYTES = 16 * 1024;
+const TEXT_PREVIEW_LINES = 60;
+
+const IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/tiff']);
+const TEXT_APPLICATION_TYPES = new Set([
+  'application/json',
+  'application/xml',
+  'application/javascript',
+  'application/x-sh',
+  'application/x-yaml',
+  'application/sql',
+]);
+
+interface GeneratedPreview {
+  type: string;
+  body: Buffer;
+}
+
+async function readAll(stream: Readable): Promise<Buffer> {
+  const parts: Buffer[] = [];
+  for await (const data of stream) {
+    parts.push(data);
+  }
+  return Buffer.concat(parts);
+}
+
+async function renderImage(blob: StoredBlob): Promise<GeneratedPreview> {
+  const source = await readAll(await openBlob(blob.storagePath, blob.wrappedKey));
+  const body = await sharp(source)
+    .rotate() // honour EXIF orientation
+    .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .png()
+    .toBuffer();
+  return { type: 'image/png', body };
+}
+
+// First page via poppler's pdftoppm. Returns undefined when it isn't installed.
+async function renderPdf(blob: StoredBlob): Promise<GeneratedPreview | undefined> {
+  const dir = await mkdtemp(path.join(os.tmpdir(), 'preview-'));
+  try {
+    const input = path.join(dir, 'source.pdf');
+    await writeFile(input, await readAll(await openBlob(blob.storagePath, blob.wrappedKey)));
+
+    try {
+      await execFileAsync('pdftoppm', [
+        '-png', '-singlefile', '-f', '1', '-l', '1',
+        '-scale-to', String(PREVIEW_SIZE),
+        input, path.join(dir, 'page'),
+      ], { timeout: 30_000 });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+
+    return { type: 'image/png', body: await readFile(path.join(dir, 'page.png')) };
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+// Syntax-highlighted snippet, stored as JSON: { language, html, truncated }.
+// Returns undefined for content that turns out to be binary.
+async function renderText(blob: StoredBlob, fileName: string): Promise<GeneratedPreview | undefined> {
+  const length = Math.min(blob.size, TEXT_PREVIEW_BYTES);
+  const source = await readAll(await openBlob(blob.storagePath, blob.wrappedKey, { start: 0, end: length - 1 }));
+  if (source.includes(0)) return undefined;
+
+  const lines = source.toString('utf8').split('\n');
+  const text = lines.slice(0, TEXT_PREVIEW_LINES).join('\n');
+  const truncated = blob.size > length || lines.length > TEXT_PREVIEW_LINES;
+
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  const result = extension && hljs.getLanguage(extension)
+    ? hljs.highlight(text, { language: extension })
+    : hljs.highlightAuto(text);
+
+  const body = Buffer.from(JSON.stringify({ language: result.language ?? null, html: result.value, truncated }));
+  return { type: 'application/json', body };
+}
+
+function isTextFile(fileType: string, fileName: string): boolean {
+  if (fileType.startsWith('text/') || TEXT_APPLICATION_TYPES.has(fileType)) {
+    return true;
+  }
+  const extension = path.extname(fileName).slice(1).toLowerCase();
+  return !!extension && !!hljs.getLanguage(extension);
+}
+
+async function renderPreview(blob: StoredBlob, fileType: string, fileName: string): Promise<GeneratedPreview | undefined> {
+  if (blob.size === 0) return undefined;
+
+  if (IMAGE_TYPES.has(fileType)) {
+    return blob.size <= MAX_SOURCE_BYTES ? renderImage(blob) : undefined;
+  }
+  if (fileType === 'application/pdf') {
+    return blob.size <= MAX_SOURCE_BYTES ? renderPdf(blob) : undefined;
+  }
+  if (isTextFile(fileType, fileName)) {
+    return renderText(blob, fileName);
+  }
+  return undefined;
+}
+
+// Previews belong to the blob, so deduplicated copies share one. They are
+// stored next to the blob on the same driver and encrypted the same way.
+export async function generatePreview(fileId: string) {
+  const file = await storage.getFile(fileId);
+  if (!file || !file.contentHash || file.isEncrypted || file.scanStatus !== 'clean') return;
+
+  const blob = await storage.getBlob(file.contentHash);
+  if (!blob || blob.previewStatus) return;
+
+  try {
+    const preview = await renderPreview(blob, file.fileType, file.originalName);
+    if (!preview) {
+      await storage.updateBlob(blob.hash, { previewStatus: 'unavailable' });
+      return;
+    }
+
+    const { driver, key } = resolveStoragePath(blob.storagePath);
+    const previewKey = `${key}.preview`;
+    const written = await writeBlob(driver, previewKey, Readable.from([preview.body]), { contentType: preview.type });
+    await storage.updateBlob(blob.hash, {
+      previewStatus: 'ready',
+      previewType: preview.type,
+      previewPath: toStoragePath(driver, previewKey),
+      previewWrappedKey: written.wrappedKey,
+    });
+  } catch (error) {
+    // Not retried: a file that can't be decoded won't decode next time either
+    console.error(`Preview generation failed for ${file.id}:`, error);
+    await storage.updateBlob(blob.hash, { previewStatus: 'failed' });
+  }
+}
+
+const previewQueue = createWorkQueue('Preview generation', generatePreview);
+
+export function queuePreview(fileId: string) {
+  previewQueue.enqueue(fileId);
+}
+
+// Open a blob's preview, or undefined when none is ready
+export async function openPreview(contentHash: string | null): Promise<{ type: string; stream: Readable } | undefined> {
+  const blob = contentHash ? await storage.getBlob(contentHash) : undefined;
+  if (!blob || blob.previewStatus !== 'ready' || !blob.previewPath || !blob.previewType) {
+    return undefined;
+  }
+  return { type: blob.previewType, stream: await openBlob(blob.previewPath, blob.previewWrappedKey) };
+}
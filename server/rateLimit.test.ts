@@ -0,0 +1,24 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+// storage opens its database pool lazily and nothing here queries it
+process.env.DATABASE_URL ??= 'postgres://localhost/secureshare_test';
+const { trustProxySetting } = await import("./rateLimit");
+
+describe('trustProxySetting', () => {
+  const table: Array<[string | undefined, boolean | number | string]> = [
+    [undefined, false],
+    ['', false],
+    ['false', false],
+    ['true', true],
+    ['1', 1],
+    [' 2 ', 2],
+    ['loopback, 10.0.0.0/8', 'loopback, 10.0.0.0/8'],
+  ];
+
+  for (const [value, expected] of table) {
+    it(`reads ${JSON.stringify(value)} as ${JSON.stringify(expected)}`, () => {
+      assert.equal(trustProxySetting(value), expected);
+    });
+  }
+});
@@ -0,0 +1,187 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { storage } from "./storage";
+import { shareOwnerId } from "./shareAccess";
+
+const MINUTE_MS = 60 * 1000;
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+// Where request counts live. Counters use fixed windows: the first hit of a
+// key opens a window of windowMs, later hits in it add one.
+export interface RateLimitStore {
+  readonly name: string;
+  hit(key: string, windowMs: number, now: Date): Promise<RateLimitHit>;
+}
+
+// Per-process counters; each instance limits on its own
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private counters = new Map<string, RateLimitHit>();
+  private nextSweep = 0;
+
+  async hit(key: string, windowMs: number, now: Date): Promise<RateLimitHit> {
+    this.sweep(now);
+    const existing = this.counters.get(key);
+    const counter = existing && existing.resetAt > now
+      ? { count: existing.count + 1, resetAt: existing.resetAt }
+      : { count: 1, resetAt: new Date(now.getTime() + windowMs) };
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  // Drop finished windows now and then so idle clients don't pile up
+  private sweep(now: Date) {
+    if (now.getTime() < this.nextSweep) return;
+    this.nextSweep = now.getTime() + MINUTE_MS;
+    for (const [key, counter] of Array.from(this.counters.entries())) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+// Counters in rate_limit_counters, shared by every server instance
+export class DatabaseRateLimitStore implements RateLimitStore {
+  readonly name = 'database';
+
+  async hit(key: string, windowMs: number, now: Date): Promise<RateLimitHit> {
+    const counter = await storage.hitRateLimitCounter(key, now, new Date(now.getTime() + windowMs));
+    return { count: counter.count, resetAt: counter.resetAt };
+  }
+}
+
+// Express's "trust proxy" setting from TRUST_PROXY. Limits and lockouts key
+// on req.ip, which comes from X-Forwarded-For only for trusted proxies, so
+// nothing is trusted unless configured: a hop count ("1"), "true" for every
+// hop, or a list of addresses and subnets ("loopback, 10.0.0.0/8").
+export function trustProxySetting(value = process.env.TRUST_PROXY): boolean | number | string {
+  const setting = value?.trim() ?? '';
+  if (setting === '' || setting === 'false') return false;
+  if (setting === 'true') return true;
+  if (/^\d+$/.test(setting)) return Number(setting);
+  return setting;
+}
+
+function createDefaultStore(): RateLimitStore {
+  const storeName = process.env.RATE_LIMIT_STORE || 'memory';
+
+  if (storeName === 'database') return new DatabaseRateLimitStore();
+  if (storeName !== 'memory') {
+    throw new Error(`Unknown RATE_LIMIT_STORE: ${storeName}`);
+  }
+  return new MemoryRateLimitStore();
+}
+
+let rateLimitStore = createDefaultStore();
+
+// Swap in another shared store, e.g. one backed by Redis
+export function setRateLimitStore(store: RateLimitStore) {
+  rateLimitStore = store;
+}
+
+export type RateLimitKey = 'ip' | 'user' | 'token';
+
+export interface RateLimitPolicy {
+  limit: number;
+  windowMs: number;
+  // What requests are counted by; 'user' falls back to the IP for
+  // anonymous requests, 'token' uses the share token or share code
+  key: RateLimitKey;
+  // Allowance multiplier for the request, e.g. for pro-tier owners' links
+  multiplier?: (req: Request) => Promise<number>;
+}
+
+// Links and share codes of pro-tier owners get a larger allowance
+const PRO_SHARE_MULTIPLIER = 10;
+
+async function shareOwnerMultiplier(req: Request): Promise<number> {
+  const { token, shareCode } = req.params;
+  const target = token ? await storage.getSharedLink(token)
+    : shareCode ? await storage.getFileByShareCode(shareCode)
+    : undefined;
+  const ownerId = target ? await shareOwnerId(target) : undefined;
+  const owner = ownerId ? await storage.getProfile(ownerId) : undefined;
+  return owner?.subscriptionTier === 'pro' ? PRO_SHARE_MULTIPLIER : 1;
+}
+
+// Route groups and their defaults. RATE_LIMIT_<NAME> overrides one as
+// "<limit>/<window seconds>", e.g. RATE_LIMIT_AUTH=20/900.
+const POLICIES = {
+  // Everything under /api, as a backstop
+  api: { limit: 1000, windowMs: MINUTE_MS, key: 'ip' },
+  // Register and login
+  auth: { limit: 10, windowMs: 15 * MINUTE_MS, key: 'ip' },
+  // Payment provider callbacks
+  webhook: { limit: 120, windowMs: MINUTE_MS, key: 'ip' },
+  // Looking up, previewing and viewing shares
+  'share-lookup': { limit: 120, windowMs: MINUTE_MS, key: 'ip' },
+  // Downloads by one client, and of one share by everyone
+  download: { limit: 60, windowMs: MINUTE_MS, key: 'ip' },
+  'share-download': { limit: 100, windowMs: 60 * MINUTE_MS, key: 'token', multiplier: shareOwnerMultiplier },
+  // Signed-in uploads; resumable uploads send one request per chunk
+  upload: { limit: 600, windowMs: MINUTE_MS, key: 'user' },
+  // Anonymous uploads through file request links
+  'request-upload': { limit: 60, windowMs: 60 * MINUTE_MS, key: 'ip' },
+  // Mail sent on the user's behalf
+  email: { limit: 30, windowMs: 60 * MINUTE_MS, key: 'user' },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof POLICIES;
+
+function resolvePolicy(name: RateLimitPolicyName): RateLimitPolicy {
+  const policy: RateLimitPolicy = POLICIES[name];
+  const override = process.env[`RATE_LIMIT_${name.toUpperCase().replace(/-/g, '_')}`];
+  const match = override?.match(/^(\d+)\/(\d+)$/);
+  if (override && !match) {
+    throw new Error(`Invalid rate limit override for ${name}: ${override}`);
+  }
+  return match ? { ...policy, limit: Number(match[1]), windowMs: Number(match[2]) * 1000 } : policy;
+}
+
+function clientKey(req: Request, key: RateLimitKey): string | undefined {
+  if (key === 'token') {
+    const token = req.params.token || req.params.shareCode;
+    return token ? `share:${token}` : undefined;
+  }
+  if (key === 'user' && (req as any).user?.id) return `user:${(req as any).user.id}`;
+  return `ip:${req.ip}`;
+}
+
+// Middleware enforcing a named policy. Answers with the RateLimit-* headers
+// of the IETF draft, plus Retry-After once the limit is used up. A failing
+// store lets requests through rather than taking the API down.
+export function rateLimit(name: RateLimitPolicyName): RequestHandler {
+  const policy = resolvePolicy(name);
+  const windowSeconds = Math.ceil(policy.windowMs / 1000);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const client = clientKey(req, policy.key);
+    if (!client) return next();
+
+    let hit: RateLimitHit;
+    let limit = policy.limit;
+    try {
+      hit = await rateLimitStore.hit(`${name}:${client}`, policy.windowMs, new Date());
+      if (policy.multiplier) {
+        limit *= await policy.multiplier(req);
+      }
+    } catch (error) {
+      console.error(`Rate limit store failed for ${name}:`, error);
+      return next();
+    }
+
+    const resetSeconds = Math.max(0, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+    res.setHeader('RateLimit-Policy', `${limit};w=${windowSeconds}`);
+    res.setHeader('RateLimit-Limit', limit);
+    res.setHeader('RateLimit-Remaining', Math.max(0, limit - hit.count));
+    res.setHeader('RateLimit-Reset', resetSeconds);
+
+    if (hit.count > limit) {
+      res.setHeader('Retry-After', Math.max(1, resetSeconds));
+      return res.status(429).json({ error: 'Too many requests, try again later', code: 'rate_limited' });
+    }
+    next();
+  };
+}
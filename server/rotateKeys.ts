@@ -0,0 +1,77 @@
+import { and, eq, isNotNull } from "drizzle-orm";
+import { blobs, files, fileVersions, uploadChunks } from "@shared/schema";
+import { db, pool } from "./db";
+import { currentMasterKeyId, rewrapDataKey } from "./encryption";
+
+// Re-wrap every stored data key under the current ENCRYPTION_MASTER_KEY.
+// Blobs are not re-encrypted; only the wrapped keys change. Run it with the
+// old master key listed in ENCRYPTION_PREVIOUS_MASTER_KEYS (the server should
+// already be running with the new key), then drop the old key afterwards.
+//
+//   npm run keys:rotate
+
+async function rewrapRows<T extends { wrappedKey: string | null }>(
+  table: string,
+  rows: T[],
+  update: (row: T, wrappedKey: string) => Promise<unknown>,
+): Promise<number> {
+  let rewrapped = 0;
+  for (const row of rows) {
+    const wrappedKey = row.wrappedKey ? rewrapDataKey(row.wrappedKey) : undefined;
+    if (!wrappedKey) continue;
+    await update(row, wrappedKey);
+    rewrapped++;
+  }
+  console.log(`${table}: re-wrapped ${rewrapped} of ${rows.length} data keys`);
+  return rewrapped;
+}
+
+async function rotateKeys() {
+  if (!currentMasterKeyId()) {
+    throw new Error('ENCRYPTION_MASTER_KEY must be set to the new master key');
+  }
+
+  await rewrapRows(
+    'blobs',
+    await db.select({ hash: blobs.hash, wrappedKey: blobs.wrappedKey }).from(blobs).where(isNotNull(blobs.wrappedKey)),
+    (row, wrappedKey) => db.update(blobs).set({ wrappedKey }).where(eq(blobs.hash, row.hash)),
+  );
+
+  await rewrapRows(
+    'blob previews',
+    await db.select({ hash: blobs.hash, wrappedKey: blobs.previewWrappedKey }).from(blobs).where(isNotNull(blobs.previewWrappedKey)),
+    (row, wrappedKey) => db.update(blobs).set({ previewWrappedKey: wrappedKey }).where(eq(blobs.hash, row.hash)),
+  );
+
+  await rewrapRows(
+    'files',
+    await db.select({ id: files.id, wrappedKey: files.wrappedKey }).from(files).where(isNotNull(files.wrappedKey)),
+    (row, wrappedKey) => db.update(files).set({ wrappedKey }).where(eq(files.id, row.id)),
+  );
+
+  await rewrapRows(
+    'file_versions',
+    await db.select({ id: fileVersions.id, wrappedKey: fileVersions.wrappedKey }).from(fileVersions).where(isNotNull(fileVersions.wrappedKey)),
+    (row, wrappedKey) => db.update(fileVersions).set({ wrappedKey }).where(eq(fileVersions.id, row.id)),
+  );
+
+  await rewrapRows(
+    'upload_chunks',
+    await db.select({
+      sessionId: uploadChunks.sessionId,
+      chunkIndex: uploadChunks.chunkIndex,
+      wrappedKey: uploadChunks.wrappedKey,
+    }).from(uploadChunks).where(isNotNull(uploadChunks.wrappedKey)),
+    (row, wrappedKey) => db.update(uploadChunks)
+      .set({ wrappedKey })
+      .where(and(eq(uploadChunks.sessionId, row.sessionId), eq(uploadChunks.chunkIndex, row.chunkIndex))),
+  );
+}
+
+rotateKeys()
+  .then(() => pool.end())
+  .catch(async (error) => {
+    console.error('Key rotation failed:', error);
+    await pool.end();
+    process.exit(1);
+  });
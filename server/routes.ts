@@ -1,38 +1,100 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { emailService } from "./email";
-import { insertUserSchema, insertProfileSchema, insertFileSchema, insertSharedLinkSchema, insertDownloadLogSchema } from "@shared/schema";
+import { insertUserSchema, insertProfileSchema, insertFileSchema, insertSharedLinkSchema, insertDownloadLogSchema, type File as StoredFile, type SharedLink } from "@shared/schema";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
 import multer from "multer";
-import path from "path";
-import fs from "fs";
-
-const JWT_SECRET = process.env.JWT_SECRET || "your-secret-key";
-const upload = multer({ dest: 'uploads/' });
-
-// Middleware to verify JWT token
-function authenticateToken(req: any, res: any, next: any) {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
-
-  if (!token) {
-    return res.status(401).json({ error: 'Access token required' });
-  }
+import QRCode from "qrcode";
+import { storageDriver, toStoragePath } from "./storageDriver";
+import { createBlobStorageEngine, ingestBlob, releaseBlob, writeBlob } from "./blobs";
+import {
+  DEFAULT_CHUNK_SIZE,
+  MIN_CHUNK_SIZE,
+  MAX_CHUNK_SIZE,
+  UPLOAD_SESSION_TTL_MS,
+  totalChunksFor,
+  expectedChunkSize,
+  cappedStream,
+  chunkBlobKey,
+  receivedRanges,
+  missingChunks,
+  compositeChecksum,
+  assembleChunks,
+  deleteChunkBlobs,
+} from "./uploadSessions";
+import { planDownload, isNewDownload, isDownloadContinuation, sendStoredFile, sendZipArchive, inlineViewType, type ArchiveEntry } from "./downloads";
+import { isWithinFolder, canMoveFolder, collectFolderFiles, trimBreadcrumbs } from "./folders";
+import { ensureVersionHistory, addFileVersion, restoreFileVersion, resolveSharedFile } from "./versions";
+import { queueScan, isScanCleared } from "./scanner";
+import { openPreview } from "./previews";
+import { isSharedThroughLink, bundleArchiveEntries, ownedBundleFileIds } from "./bundles";
+import {
+  DEFAULT_REQUEST_MAX_FILE_SIZE,
+  FileTypeNotAllowedError,
+  parseFileRequestSettings,
+  requestClosedReason,
+  requestUploadMiddleware,
+} from "./fileRequests";
+import { authorizeShareAccess, evaluateSharedFile, shareAccessDenial, shareAttemptKey, shareAccessToken, sendShareAccessDenial } from "./shareAccess";
+import { activeLockout, clearFailures, recordFailure } from "./bruteForce";
+import { rateLimit } from "./rateLimit";
+import {
+  authenticateToken,
+  startSession,
+  refreshSession,
+  endSession,
+  clearRefreshCookie,
+  issueTwoFactorChallenge,
+  readTwoFactorChallenge,
+  publicUser,
+  isEmailVerified,
+  sendEmailUnverified,
+  requireVerifiedEmail,
+  apiScope,
+  hasScope,
+  sendMissingScope,
+} from "./auth";
+import { consumeEmailToken, completeEmailVerification, sendVerificationEmail, sendPasswordResetEmail } from "./accountEmails";
+import { generateTotpSecret, totpProvisioningUri, verifyTotp } from "./totp";
+import { isTwoFactorEnabled, verifySecondFactor, issueRecoveryCodes } from "./twoFactor";
+import { createApiKey, parseScopes, describeApiKey, API_KEY_SCOPES, MAX_API_KEYS_PER_USER, MAX_API_KEY_NAME_LENGTH } from "./apiKeys";
+import { getOidcProvider, listOidcProviders, beginOidcLogin, completeOidcLogin, resolveOidcUser, OidcError } from "./oidc";
+import { TRASH_RETENTION_DAYS, purgeDate, moveToTrash, restoreFromTrash, trashFolderFiles, purgeFile } from "./trash";
+
+const upload = multer({ storage: createBlobStorageEngine() });
+
+const MIN_PASSWORD_LENGTH = 6;
+
+// Folder ids from clients must be null (root) or a folder the user owns
+async function isOwnedFolder(userId: string, folderId: string | null): Promise<boolean> {
+  if (!folderId) return true;
+  const folder = await storage.getFolder(folderId);
+  return !!folder && folder.userId === userId;
+}
 
-  jwt.verify(token, JWT_SECRET, (err: any, user: any) => {
-    if (err) {
-      return res.status(403).json({ error: 'Invalid token' });
-    }
-    req.user = user;
-    next();
-  });
+// What share recipients see of each file in a folder or bundle listing
+function sharedFileSummary(file: StoredFile, link: SharedLink) {
+  return {
+    id: file.id,
+    originalName: file.originalName,
+    fileSize: file.fileSize,
+    fileType: file.fileType,
+    contentHash: file.contentHash,
+    isEncrypted: file.isEncrypted,
+    scanStatus: file.scanStatus,
+    viewable: link.allowInlineView && !!inlineViewType(file),
+  };
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Public share routes are limited per client; downloads also per share,
+  // with a larger allowance for pro-tier owners
+  const shareLookupLimits = rateLimit('share-lookup');
+  const downloadLimits = [rateLimit('download'), rateLimit('share-download')];
+
   // Authentication routes
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", rateLimit('auth'), async (req, res) => {
     try {
       const { email, password } = insertUserSchema.parse(req.body);
       
@@ -45,8 +107,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Hash password
       const hashedPassword = await bcrypt.hash(password, 10);
       
-      // Create user
-      const user = await storage.createUser({ email, password: hashedPassword });
+      // Create user; public sharing unlocks once the address is verified
+      const user = await storage.createUser({ email, password: hashedPassword, emailVerifiedAt: null });
       
       // Create profile
       const profile = await storage.createProfile({
@@ -60,11 +122,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lastUploadReset: new Date().toISOString().split('T')[0],
       });
 
-      // Generate JWT token
-      const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET, { expiresIn: '24h' });
+      // A failed send can be retried from the dashboard
+      await sendVerificationEmail(user);
+
+      // Sign in on this device
+      const token = await startSession(req, res, user);
 
       res.json({ 
-        user: { id: user.id, email: user.email }, 
+        user: publicUser(user), 
         profile,
         token 
       });
@@ -73,7 +138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", rateLimit('auth'), async (req, res) => {
     try {
       const { email, password } = req.body;
       
@@ -89,14 +154,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ error: 'Invalid credentials' });
       }
 
+      // Accounts with 2FA finish signing in at /api/auth/login/2fa
+      if (await isTwoFactorEnabled(user.id)) {
+        return res.json({ twoFactorRequired: true, challengeToken: issueTwoFactorChallenge(user) });
+      }
+
       // Get profile
       const profile = await storage.getProfile(user.id);
 
-      // Generate JWT token
-      const token = jwt.sign({ id: user.id, email: user.email }, JWT_SECRET, { expiresIn: '24h' });
+      // Sign in on this device
+      const token = await startSession(req, res, user);
 
       res.json({ 
-        user: { id: user.id, email: user.email }, 
+        user: publicUser(user), 
         profile,
         token 
       });
@@ -105,6 +175,420 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Second login step: a code from the authenticator app or a recovery
+  // code, with the challenge token the password step returned
+  app.post("/api/auth/login/2fa", rateLimit('auth'), async (req, res) => {
+    try {
+      const { challengeToken, code } = req.body;
+      const userId = typeof challengeToken === 'string' ? readTwoFactorChallenge(challengeToken) : undefined;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ error: 'Sign-in has expired, please enter your password again' });
+      }
+
+      // Codes are only six digits, so guesses lock the account's second step
+      const attemptKey = `2fa:${user.id}`;
+      const lockedUntil = await activeLockout([attemptKey]);
+      if (lockedUntil) {
+        res.setHeader('Retry-After', Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000)));
+        return res.status(429).json({ error: 'Too many failed attempts, try again later' });
+      }
+
+      if (typeof code !== 'string' || !(await verifySecondFactor(user.id, code))) {
+        await recordFailure(attemptKey);
+        return res.status(401).json({ error: 'Invalid verification code' });
+      }
+      await clearFailures(attemptKey);
+
+      const profile = await storage.getProfile(user.id);
+      const token = await startSession(req, res, user);
+
+      res.json({
+        user: publicUser(user),
+        profile,
+        token
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // New access token from the refresh cookie; the refresh token rotates
+  app.post("/api/auth/refresh", async (req, res) => {
+    try {
+      const refreshed = await refreshSession(req, res);
+      if (!refreshed) {
+        clearRefreshCookie(res);
+        return res.status(401).json({ error: 'Session has ended' });
+      }
+
+      res.json(refreshed);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      await endSession(req, res);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Single sign-on through OpenID Connect providers. These are browser
+  // navigations, so results go back to the app as redirects.
+  app.get("/api/auth/oidc/providers", (req, res) => {
+    res.json(listOidcProviders());
+  });
+
+  app.get("/api/auth/oidc/:provider/login", rateLimit('auth'), async (req, res) => {
+    const provider = getOidcProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'Sign-in provider not found' });
+    }
+
+    try {
+      res.redirect(await beginOidcLogin(res, provider));
+    } catch (error: any) {
+      console.error(`OIDC login with ${provider.id} failed:`, error);
+      res.redirect(`/?sso_error=${encodeURIComponent(`${provider.name} is unavailable, please try again later`)}`);
+    }
+  });
+
+  app.get("/api/auth/oidc/:provider/callback", rateLimit('auth'), async (req, res) => {
+    const provider = getOidcProvider(req.params.provider);
+    if (!provider) {
+      return res.status(404).json({ error: 'Sign-in provider not found' });
+    }
+
+    try {
+      const claims = await completeOidcLogin(req, res, provider);
+      const user = await resolveOidcUser(provider, claims);
+
+      // The second factor still applies; the fragment keeps the challenge
+      // out of server logs
+      if (await isTwoFactorEnabled(user.id)) {
+        return res.redirect(`/#sso_challenge=${encodeURIComponent(issueTwoFactorChallenge(user))}`);
+      }
+
+      // The app picks the session up from the refresh cookie
+      await startSession(req, res, user);
+      res.redirect('/dashboard');
+    } catch (error: any) {
+      console.error(`OIDC callback from ${provider.id} failed:`, error);
+      const message = error instanceof OidcError ? error.message : 'Single sign-on failed';
+      res.redirect(`/?sso_error=${encodeURIComponent(message)}`);
+    }
+  });
+
+  // Provider accounts that sign in as this user
+  app.get("/api/auth/identities", authenticateToken, async (req: any, res) => {
+    try {
+      const identities = await storage.getUserIdentities(req.user.id);
+      res.json(identities.map(identity => ({
+        id: identity.id,
+        provider: identity.provider,
+        providerName: getOidcProvider(identity.provider)?.name ?? identity.provider,
+        email: identity.email,
+        lastUsedAt: identity.lastUsedAt,
+        createdAt: identity.createdAt,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/auth/identities/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const identities = await storage.getUserIdentities(req.user.id);
+      const identity = identities.find(candidate => candidate.id === req.params.id);
+      if (!identity) {
+        return res.status(404).json({ error: 'Linked account not found' });
+      }
+
+      await storage.deleteUserIdentity(identity.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Email verification and password reset, with tokens from emailed links
+  app.post("/api/auth/verify-email", rateLimit('auth'), async (req, res) => {
+    try {
+      const userId = await consumeEmailToken(req.body?.token, 'verify_email');
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(400).json({ error: 'This verification link is invalid or has expired' });
+      }
+
+      await completeEmailVerification(user);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", authenticateToken, rateLimit('email'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ error: 'Your email address is already verified' });
+      }
+
+      if (!(await sendVerificationEmail(user))) {
+        return res.status(500).json({ 
+          error: 'Failed to send email. Please check email configuration.', 
+          emailConfigured: emailService.isEmailConfigured() 
+        });
+      }
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Answers the same whether or not the address has an account, and doesn't
+  // wait for the mail, so it can't be used to find out who is registered
+  app.post("/api/auth/forgot-password", rateLimit('auth'), async (req, res) => {
+    try {
+      const { email } = req.body;
+      const user = typeof email === 'string' ? await storage.getUserByEmail(email.trim()) : undefined;
+      if (user) {
+        sendPasswordResetEmail(user).catch(error => console.error('Failed to send password reset email:', error));
+      }
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/reset-password", rateLimit('auth'), async (req, res) => {
+    try {
+      const { token, password } = req.body;
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({ error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` });
+      }
+
+      const userId = await consumeEmailToken(token, 'reset_password');
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(400).json({ error: 'This reset link is invalid or has expired' });
+      }
+
+      await storage.updateUserPassword(user.id, await bcrypt.hash(password, 10));
+
+      // Whoever knew the old password is signed out everywhere; the link
+      // also shows the mailbox is the user's
+      await storage.revokeUserSessions(user.id, new Date());
+      clearRefreshCookie(res);
+      await completeEmailVerification(user);
+
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Two-factor authentication
+  app.get("/api/auth/2fa", authenticateToken, async (req: any, res) => {
+    try {
+      const twoFactor = await storage.getTwoFactorAuth(req.user.id);
+      const enabled = await isTwoFactorEnabled(req.user.id);
+      res.json({
+        enabled,
+        enabledAt: enabled ? twoFactor!.enabledAt : null,
+        recoveryCodesRemaining: enabled ? await storage.countRecoveryCodes(req.user.id) : 0,
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Start enrolling an authenticator. Replacing one that is already set up
+  // takes the account password; the old one keeps working until the new
+  // one is confirmed.
+  app.post("/api/auth/2fa/setup", authenticateToken, rateLimit('auth'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (await isTwoFactorEnabled(user.id) && !(await bcrypt.compare(String(req.body?.password ?? ''), user.password))) {
+        return res.status(401).json({ error: 'Invalid password' });
+      }
+
+      const secret = generateTotpSecret();
+      await storage.setPendingTotpSecret(user.id, secret);
+
+      const otpauthUrl = totpProvisioningUri(secret, user.email);
+      res.json({ secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Confirm enrollment with a code from the new authenticator. Answers with
+  // fresh recovery codes, the only time they are shown.
+  app.post("/api/auth/2fa/enable", authenticateToken, rateLimit('auth'), async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const twoFactor = await storage.getTwoFactorAuth(userId);
+      if (!twoFactor?.pendingSecret) {
+        return res.status(400).json({ error: 'Start two-factor setup first' });
+      }
+
+      const now = new Date();
+      const step = typeof req.body?.code === 'string' ? verifyTotp(twoFactor.pendingSecret, req.body.code, now) : undefined;
+      if (step === undefined) {
+        return res.status(400).json({ error: 'Invalid verification code' });
+      }
+      if (!(await storage.enableTwoFactorAuth(userId, twoFactor.pendingSecret, step, now))) {
+        return res.status(409).json({ error: 'Two-factor setup was restarted, scan the new code' });
+      }
+
+      res.json({ enabled: true, recoveryCodes: await issueRecoveryCodes(userId) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/2fa/recovery-codes", authenticateToken, rateLimit('auth'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user || !(await isTwoFactorEnabled(user.id))) {
+        return res.status(400).json({ error: 'Two-factor authentication is not enabled' });
+      }
+      if (!(await bcrypt.compare(String(req.body?.password ?? ''), user.password))) {
+        return res.status(401).json({ error: 'Invalid password' });
+      }
+
+      res.json({ recoveryCodes: await issueRecoveryCodes(user.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/auth/2fa/disable", authenticateToken, rateLimit('auth'), async (req: any, res) => {
+    try {
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      if (!(await bcrypt.compare(String(req.body?.password ?? ''), user.password))) {
+        return res.status(401).json({ error: 'Invalid password' });
+      }
+
+      await storage.deleteTwoFactorAuth(user.id);
+      res.json({ enabled: false });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Signed-in devices
+  app.get("/api/sessions", authenticateToken, async (req: any, res) => {
+    try {
+      const sessions = await storage.getActiveUserSessions(req.user.id, new Date());
+      res.json(sessions.map(session => ({
+        id: session.id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        current: session.id === req.user.sid,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/sessions/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const session = await storage.getSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Session not found' });
+      }
+
+      await storage.revokeSession(session.id, new Date());
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Log out everywhere, this device included
+  app.delete("/api/sessions", authenticateToken, async (req: any, res) => {
+    try {
+      const revoked = await storage.revokeUserSessions(req.user.id, new Date());
+      clearRefreshCookie(res);
+      res.json({ success: true, revoked });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Personal API keys. Managing them takes a signed-in session; keys
+  // themselves are never let in here.
+  app.get("/api/api-keys", authenticateToken, async (req: any, res) => {
+    try {
+      const now = new Date();
+      const apiKeys = await storage.getUserApiKeys(req.user.id);
+      res.json({ scopes: API_KEY_SCOPES, keys: apiKeys.map(apiKey => describeApiKey(apiKey, now)) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/api-keys", authenticateToken, rateLimit('auth'), async (req: any, res) => {
+    try {
+      const { name, scopes, expiresInDays } = req.body;
+      if (!name || typeof name !== 'string' || name.trim().length > MAX_API_KEY_NAME_LENGTH) {
+        return res.status(400).json({ error: `Name is required and at most ${MAX_API_KEY_NAME_LENGTH} characters` });
+      }
+      const keyScopes = parseScopes(scopes);
+      if (!keyScopes) {
+        return res.status(400).json({ error: `Choose one or more scopes from ${API_KEY_SCOPES.join(', ')}` });
+      }
+      if (expiresInDays != null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > 365)) {
+        return res.status(400).json({ error: 'expiresInDays must be a whole number of days from 1 to 365' });
+      }
+
+      const existing = await storage.getUserApiKeys(req.user.id);
+      if (existing.length >= MAX_API_KEYS_PER_USER) {
+        return res.status(400).json({ error: `You can have at most ${MAX_API_KEYS_PER_USER} API keys` });
+      }
+
+      const expiresAt = expiresInDays != null ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+      const { apiKey, key } = await createApiKey(req.user.id, name.trim(), keyScopes, expiresAt);
+      // The only time the key itself is sent
+      res.json({ ...describeApiKey(apiKey), key });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/api-keys/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const apiKeys = await storage.getUserApiKeys(req.user.id);
+      const apiKey = apiKeys.find(candidate => candidate.id === req.params.id);
+      if (!apiKey) {
+        return res.status(404).json({ error: 'API key not found' });
+      }
+
+      await storage.deleteApiKey(apiKey.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   // Profile routes
   app.get("/api/profile", authenticateToken, async (req: any, res) => {
     try {
@@ -132,7 +616,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File routes
-  app.get("/api/files", authenticateToken, async (req: any, res) => {
+  app.get("/api/files", apiScope('files:read'), authenticateToken, async (req: any, res) => {
     try {
       const files = await storage.getUserFiles(req.user.id);
       res.json(files);
@@ -141,7 +625,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/files/upload", authenticateToken, upload.single('file'), async (req: any, res) => {
+  app.post("/api/files/upload", apiScope('files:write'), authenticateToken, rateLimit('upload'), upload.single('file'), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file provided' });
@@ -150,121 +634,1028 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Check upload limits
       const profile = await storage.getProfile(req.user.id);
       if (!profile) {
+        await releaseBlob(req.file.path);
         return res.status(404).json({ error: 'Profile not found' });
       }
 
       if (profile.dailyUploadCount >= profile.dailyUploadLimit) {
+        await releaseBlob(req.file.path);
         return res.status(429).json({ error: 'Daily upload limit exceeded' });
       }
 
+      const folderId = req.body.folderId || null;
+      if (!(await isOwnedFolder(req.user.id, folderId))) {
+        await releaseBlob(req.file.path);
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      // Publishing while uploading counts as creating a link
+      if (req.body.isPublic === 'true' || req.body.generateShareCode) {
+        if (!hasScope(req.user, 'links:create')) {
+          await releaseBlob(req.file.path);
+          return sendMissingScope(res, 'links:create');
+        }
+        if (!(await isEmailVerified(req.user.id))) {
+          await releaseBlob(req.file.path);
+          return sendEmailUnverified(res);
+        }
+      }
+
       // Generate share code if requested
       const shareCode = req.body.generateShareCode ? storage.generateShareCode() : null;
 
-      // Create file record
-      const file = await storage.createFile({
+      // Create file record
+      const file = await storage.createFile({
+        userId: req.user.id,
+        folderId,
+        originalName: req.file.originalname,
+        fileSize: req.file.size,
+        fileType: req.file.mimetype,
+        storagePath: req.file.path,
+        contentHash: req.file.contentHash,
+        wrappedKey: req.file.wrappedKey,
+        shareCode,
+        isPublic: req.body.isPublic === 'true',
+        downloadLimit: req.body.downloadLimit ? parseInt(req.body.downloadLimit) : null,
+        expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
+      });
+
+      // Not downloadable by others until the scan has passed
+      queueScan(file.id);
+
+      // Update upload count
+      await storage.updateProfile(req.user.id, {
+        dailyUploadCount: profile.dailyUploadCount + 1,
+      });
+
+      res.json(file);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Resumable upload sessions: create, PUT numbered chunks, query, finalize
+  app.post("/api/uploads", apiScope('files:write'), authenticateToken, rateLimit('upload'), async (req: any, res) => {
+    try {
+      const { fileName, fileSize, fileType, folderId, fileId, chunkSize, isPublic, generateShareCode, downloadLimit, expiresAt, isEncrypted } = req.body;
+
+      if (!fileName || typeof fileSize !== 'number' || fileSize < 0) {
+        return res.status(400).json({ error: 'fileName and fileSize are required' });
+      }
+
+      const size = chunkSize ?? DEFAULT_CHUNK_SIZE;
+      if (!Number.isInteger(size) || size < MIN_CHUNK_SIZE || size > MAX_CHUNK_SIZE) {
+        return res.status(400).json({ error: `chunkSize must be between ${MIN_CHUNK_SIZE} and ${MAX_CHUNK_SIZE} bytes` });
+      }
+
+      if (!(await isOwnedFolder(req.user.id, folderId ?? null))) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      if (isPublic === true || generateShareCode === true) {
+        if (!hasScope(req.user, 'links:create')) {
+          return sendMissingScope(res, 'links:create');
+        }
+        if (!(await isEmailVerified(req.user.id))) {
+          return sendEmailUnverified(res);
+        }
+      }
+
+      // Passing fileId uploads a new version of that file
+      if (fileId) {
+        const target = await storage.getFile(fileId);
+        if (!target || target.userId !== req.user.id) {
+          return res.status(404).json({ error: 'File not found' });
+        }
+
+        if (target.isEncrypted !== (isEncrypted === true)) {
+          return res.status(400).json({ error: 'New versions must use the same encryption mode as the file' });
+        }
+      }
+
+      // The daily limit is enforced (and the upload counted) up front,
+      // before any bytes are transferred
+      const profile = await storage.getProfile(req.user.id);
+      if (!profile) {
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+
+      if (profile.dailyUploadCount >= profile.dailyUploadLimit) {
+        return res.status(429).json({ error: 'Daily upload limit exceeded' });
+      }
+
+      const session = await storage.createUploadSession({
+        userId: req.user.id,
+        fileName,
+        fileSize,
+        fileType: fileType || 'application/octet-stream',
+        folderId: folderId ?? null,
+        fileId: fileId ?? null,
+        chunkSize: size,
+        totalChunks: totalChunksFor(fileSize, size),
+        isPublic: isPublic === true,
+        generateShareCode: generateShareCode === true,
+        isEncrypted: isEncrypted === true,
+        downloadLimit: downloadLimit ? parseInt(downloadLimit) : null,
+        fileExpiresAt: expiresAt ? new Date(expiresAt) : null,
+        expiresAt: new Date(Date.now() + UPLOAD_SESSION_TTL_MS),
+      });
+
+      await storage.updateProfile(req.user.id, {
+        dailyUploadCount: profile.dailyUploadCount + 1,
+      });
+
+      res.json(session);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/uploads/:id", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Upload session not found' });
+      }
+
+      const chunks = await storage.getUploadChunks(session.id);
+      res.json({
+        session,
+        receivedChunks: chunks.map(chunk => chunk.chunkIndex),
+        receivedRanges: receivedRanges(session, chunks),
+        missingChunks: missingChunks(session, chunks),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.put("/api/uploads/:id/chunks/:index", apiScope('files:write'), authenticateToken, rateLimit('upload'), async (req: any, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Upload session not found' });
+      }
+
+      if (session.status !== 'pending') {
+        return res.status(409).json({ error: 'Upload session is no longer accepting chunks' });
+      }
+
+      if (new Date() > session.expiresAt) {
+        return res.status(410).json({ error: 'Upload session has expired' });
+      }
+
+      const index = Number(req.params.index);
+      if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+        return res.status(400).json({ error: 'Invalid chunk index' });
+      }
+
+      const expectedSize = expectedChunkSize(session, index);
+      const contentLength = req.get('Content-Length');
+      if (contentLength !== undefined && parseInt(contentLength) !== expectedSize) {
+        return res.status(400).json({ error: `Chunk ${index} must be ${expectedSize} bytes` });
+      }
+
+      // Each attempt gets its own blob so a bad re-send never clobbers a good chunk
+      const key = `${chunkBlobKey(session, index)}-${Date.now()}`;
+      const body = cappedStream(req, expectedSize);
+      let written;
+      try {
+        written = await writeBlob(storageDriver, key, body.stream);
+      } catch (error) {
+        if (!body.exceeded()) throw error;
+        // The rest of the body is never read, so the connection can't be reused
+        res.set('Connection', 'close');
+        return res.status(413).json({ error: `Chunk ${index} must be ${expectedSize} bytes` });
+      }
+      const { size, contentHash: checksum, wrappedKey } = written;
+
+      if (size !== expectedSize) {
+        await storageDriver.delete(key);
+        return res.status(400).json({ error: `Chunk ${index} must be ${expectedSize} bytes` });
+      }
+
+      // Optional per-chunk integrity check
+      const expectedChecksum = req.get('X-Chunk-Checksum');
+      if (expectedChecksum && expectedChecksum.toLowerCase() !== checksum) {
+        await storageDriver.delete(key);
+        return res.status(422).json({ error: `Checksum mismatch for chunk ${index}` });
+      }
+
+      const previous = (await storage.getUploadChunks(session.id)).filter(chunk => chunk.chunkIndex === index);
+      const chunk = await storage.saveUploadChunk({
+        sessionId: session.id,
+        chunkIndex: index,
+        size,
+        checksum,
+        storagePath: toStoragePath(storageDriver, key),
+        wrappedKey,
+      });
+      await deleteChunkBlobs(previous);
+
+      res.json({ chunkIndex: chunk.chunkIndex, size: chunk.size, checksum: chunk.checksum });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/uploads/:id/complete", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const { checksum } = req.body;
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Upload session not found' });
+      }
+
+      if (session.status !== 'pending') {
+        return res.status(409).json({ error: 'Upload session has already been finalized' });
+      }
+
+      if (new Date() > session.expiresAt) {
+        return res.status(410).json({ error: 'Upload session has expired' });
+      }
+
+      if (!checksum) {
+        return res.status(400).json({ error: 'checksum is required' });
+      }
+
+      const chunks = await storage.getUploadChunks(session.id);
+      const missing = missingChunks(session, chunks);
+      if (missing.length > 0) {
+        return res.status(400).json({ error: 'Upload is incomplete', missingChunks: missing });
+      }
+
+      if (compositeChecksum(chunks) !== String(checksum).toLowerCase()) {
+        return res.status(422).json({ error: 'Checksum mismatch' });
+      }
+
+      // Only one of several concurrent requests gets to finalize
+      if (!(await storage.claimUploadSession(session.id, new Date()))) {
+        return res.status(409).json({ error: 'Upload session has already been finalized' });
+      }
+
+      let file;
+      try {
+        const { storagePath, contentHash, size, wrappedKey } = await ingestBlob(assembleChunks(chunks), {
+          contentType: session.isEncrypted ? 'application/octet-stream' : session.fileType,
+          size: session.fileSize,
+          deduplicate: !session.isEncrypted,
+        });
+        if (size !== session.fileSize) {
+          await releaseBlob(storagePath);
+          throw new Error('Assembled file size does not match the upload session');
+        }
+
+        if (session.fileId) {
+          const target = await storage.getFile(session.fileId);
+          if (!target) {
+            await releaseBlob(storagePath);
+            throw new Error('The file this version belongs to no longer exists');
+          }
+
+          const result = await addFileVersion(target, {
+            fileSize: session.fileSize,
+            fileType: session.fileType,
+            storagePath,
+            contentHash,
+            wrappedKey,
+          });
+          file = result.file;
+        } else {
+          file = await storage.createFile({
+            userId: req.user.id,
+            folderId: session.folderId,
+            originalName: session.fileName,
+            fileSize: session.fileSize,
+            fileType: session.fileType,
+            storagePath,
+            contentHash,
+            wrappedKey,
+            isEncrypted: session.isEncrypted,
+            shareCode: session.generateShareCode ? storage.generateShareCode() : null,
+            isPublic: session.isPublic,
+            downloadLimit: session.downloadLimit,
+            expiresAt: session.fileExpiresAt,
+          });
+        }
+      } catch (error) {
+        await storage.updateUploadSession(session.id, { status: 'pending' });
+        throw error;
+      }
+
+      await storage.updateUploadSession(session.id, { status: 'completed', fileId: file.id });
+      await deleteChunkBlobs(chunks);
+      queueScan(file.id);
+
+      res.json(file);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/uploads/:id", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const session = await storage.getUploadSession(req.params.id);
+      if (!session || session.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Upload session not found' });
+      }
+
+      const chunks = await storage.getUploadChunks(session.id);
+      await deleteChunkBlobs(chunks);
+      await storage.deleteUploadSession(session.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Folder routes; "root" addresses the top level
+  app.get("/api/folders/:id/contents", apiScope('files:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const folderId = req.params.id === 'root' ? null : req.params.id;
+      if (!(await isOwnedFolder(req.user.id, folderId))) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      const listing = await storage.getFolderContents(req.user.id, folderId);
+      res.json(listing);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/folders", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const { name, parentId } = req.body;
+      if (!name || typeof name !== 'string') {
+        return res.status(400).json({ error: 'Folder name is required' });
+      }
+
+      if (!(await isOwnedFolder(req.user.id, parentId ?? null))) {
+        return res.status(404).json({ error: 'Parent folder not found' });
+      }
+
+      const folder = await storage.createFolder({
+        userId: req.user.id,
+        parentId: parentId ?? null,
+        name: name.trim(),
+      });
+      res.json(folder);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Rename and/or move a folder
+  app.patch("/api/folders/:id", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const { name, parentId } = req.body;
+      const folder = await storage.getFolder(req.params.id);
+      if (!folder || folder.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      let updated = folder;
+      if (parentId !== undefined) {
+        if (!(await isOwnedFolder(req.user.id, parentId))) {
+          return res.status(404).json({ error: 'Parent folder not found' });
+        }
+        if (!(await canMoveFolder(folder.id, parentId))) {
+          return res.status(400).json({ error: 'A folder cannot be moved into itself' });
+        }
+        updated = await storage.moveFolder(folder.id, parentId) ?? updated;
+      }
+
+      if (name !== undefined) {
+        if (!name || typeof name !== 'string') {
+          return res.status(400).json({ error: 'Folder name is required' });
+        }
+        updated = await storage.renameFolder(folder.id, name.trim()) ?? updated;
+      }
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/folders/:id", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const folder = await storage.getFolder(req.params.id);
+      if (!folder || folder.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      // The folder goes for good; its files go to the trash
+      const trashedFiles = await trashFolderFiles(folder);
+
+      await storage.deleteFolder(folder.id);
+      res.json({ success: true, deletedFiles: trashedFiles });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/files/:id", apiScope('files:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      res.json(file);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Rename and/or move a file
+  app.patch("/api/files/:id", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const { name, folderId } = req.body;
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      let updated = file;
+      if (folderId !== undefined) {
+        if (!(await isOwnedFolder(req.user.id, folderId))) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
+        updated = await storage.moveFile(file.id, folderId) ?? updated;
+      }
+
+      if (name !== undefined) {
+        if (!name || typeof name !== 'string') {
+          return res.status(400).json({ error: 'File name is required' });
+        }
+        updated = await storage.renameFile(file.id, name.trim()) ?? updated;
+      }
+
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Set or change the password that unlocks a file's share code
+  app.put("/api/files/:id/password", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const { password } = req.body;
+      if (!password || typeof password !== 'string') {
+        return res.status(400).json({ error: 'Password is required' });
+      }
+
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      await storage.updateFile(file.id, {
+        isLocked: true,
+        passwordHash: storage.hashFilePassword(password),
+      });
+      // Guesses against the old password no longer matter
+      await clearFailures(shareAttemptKey(file));
+      res.json({ success: true, isLocked: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Clear the password; the share code works without one again
+  app.delete("/api/files/:id/password", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      await storage.updateFile(file.id, { isLocked: false, passwordHash: null });
+      await clearFailures(shareAttemptKey(file));
+      res.json({ success: true, isLocked: false });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // File version routes
+  app.get("/api/files/:id/versions", apiScope('files:read'), authenticateToken, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const versions = await ensureVersionHistory(file);
+      res.json({ currentVersion: file.currentVersion, versions });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Upload a new version; the file id, share code and shared links stay the same
+  app.post("/api/files/:id/versions", apiScope('files:write'), authenticateToken, rateLimit('upload'), upload.single('file'), async (req: any, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file provided' });
+      }
+
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        await releaseBlob(req.file.path);
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      // Ciphertext can only arrive through an upload session
+      if (file.isEncrypted) {
+        await releaseBlob(req.file.path);
+        return res.status(400).json({ error: 'Encrypted files take new versions through /api/uploads' });
+      }
+
+      // Check upload limits
+      const profile = await storage.getProfile(req.user.id);
+      if (!profile) {
+        await releaseBlob(req.file.path);
+        return res.status(404).json({ error: 'Profile not found' });
+      }
+
+      if (profile.dailyUploadCount >= profile.dailyUploadLimit) {
+        await releaseBlob(req.file.path);
+        return res.status(429).json({ error: 'Daily upload limit exceeded' });
+      }
+
+      const result = await addFileVersion(file, {
+        fileSize: req.file.size,
+        fileType: req.file.mimetype,
+        storagePath: req.file.path,
+        contentHash: req.file.contentHash,
+        wrappedKey: req.file.wrappedKey,
+      });
+      queueScan(file.id);
+
+      // Update upload count
+      await storage.updateProfile(req.user.id, {
+        dailyUploadCount: profile.dailyUploadCount + 1,
+      });
+
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/files/:id/versions/:versionId/restore", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      const version = await storage.getFileVersion(req.params.versionId);
+      if (!version || version.fileId !== file.id) {
+        return res.status(404).json({ error: 'Version not found' });
+      }
+
+      const restored = await restoreFileVersion(file, version);
+      if (restored.scanStatus === 'pending_scan') {
+        queueScan(restored.id);
+      }
+      res.json(restored);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/files/:id", apiScope('files:write'), authenticateToken, async (req: any, res) => {
+    try {
+      const file = await storage.getFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+
+      // Move to the trash; the purge job deletes it after the retention window
+      const trashed = await moveToTrash(file);
+      res.json({ success: true, purgeAt: trashed && purgeDate(trashed) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Trash: deleted files, restorable until they are purged
+  app.get("/api/trash", authenticateToken, async (req: any, res) => {
+    try {
+      const files = await storage.getTrashedFiles(req.user.id);
+      res.json({
+        retentionDays: TRASH_RETENTION_DAYS,
+        files: files.map(file => ({ ...file, purgeAt: purgeDate(file) })),
+      });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/trash/:id/restore", authenticateToken, async (req: any, res) => {
+    try {
+      const file = await storage.getTrashedFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found in trash' });
+      }
+
+      const restored = await restoreFromTrash(file);
+      // Scans skip trashed files, so one may still be owed
+      if (restored?.scanStatus === 'pending_scan') {
+        queueScan(restored.id);
+      }
+      res.json(restored);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Delete a trashed file for good without waiting for the purge
+  app.delete("/api/trash/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const file = await storage.getTrashedFile(req.params.id);
+      if (!file || file.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File not found in trash' });
+      }
+
+      await purgeFile(file);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.delete("/api/trash", authenticateToken, async (req: any, res) => {
+    try {
+      const files = await storage.getTrashedFiles(req.user.id);
+      for (const file of files) {
+        await purgeFile(file);
+      }
+      res.json({ success: true, deletedFiles: files.length });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Bundles: hand-picked files shared together under one link
+  app.get("/api/bundles", authenticateToken, async (req: any, res) => {
+    try {
+      const bundles = await storage.getUserBundles(req.user.id);
+      res.json(await Promise.all(bundles.map(async bundle => ({
+        ...bundle,
+        files: await storage.getBundleFiles(bundle.id),
+      }))));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/bundles", authenticateToken, async (req: any, res) => {
+    try {
+      const { name, fileIds } = req.body;
+      if (!name || typeof name !== 'string') {
+        return res.status(400).json({ error: 'Bundle name is required' });
+      }
+
+      const members = await ownedBundleFileIds(req.user.id, fileIds);
+      if (!members) {
+        return res.status(400).json({ error: 'fileIds must list one or more of your files that are not end-to-end encrypted' });
+      }
+
+      const bundle = await storage.createBundle({ userId: req.user.id, name: name.trim() });
+      await storage.setBundleFiles(bundle.id, members);
+      res.json({ ...bundle, files: await storage.getBundleFiles(bundle.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/bundles/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const bundle = await storage.getBundle(req.params.id);
+      if (!bundle || bundle.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Bundle not found' });
+      }
+      res.json({ ...bundle, files: await storage.getBundleFiles(bundle.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Rename a bundle and/or replace its files; links to it follow the change
+  app.patch("/api/bundles/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const { name, fileIds } = req.body;
+      const bundle = await storage.getBundle(req.params.id);
+      if (!bundle || bundle.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Bundle not found' });
+      }
+
+      let updated = bundle;
+      if (fileIds !== undefined) {
+        const members = await ownedBundleFileIds(req.user.id, fileIds);
+        if (!members) {
+          return res.status(400).json({ error: 'fileIds must list one or more of your files that are not end-to-end encrypted' });
+        }
+        await storage.setBundleFiles(bundle.id, members);
+        updated = await storage.updateBundle(bundle.id, {}) ?? updated;
+      }
+
+      if (name !== undefined) {
+        if (!name || typeof name !== 'string') {
+          return res.status(400).json({ error: 'Bundle name is required' });
+        }
+        updated = await storage.updateBundle(bundle.id, { name: name.trim() }) ?? updated;
+      }
+
+      res.json({ ...updated, files: await storage.getBundleFiles(bundle.id) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Deleting a bundle removes its links but leaves the files alone
+  app.delete("/api/bundles/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const bundle = await storage.getBundle(req.params.id);
+      if (!bundle || bundle.userId !== req.user.id) {
+        return res.status(404).json({ error: 'Bundle not found' });
+      }
+
+      await storage.deleteBundle(bundle.id);
+      res.json({ success: true });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // File requests: links that let anyone upload files into the owner's account
+  app.get("/api/file-requests", authenticateToken, async (req: any, res) => {
+    try {
+      const requests = await storage.getUserFileRequests(req.user.id);
+      res.json(requests);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.post("/api/file-requests", authenticateToken, async (req: any, res) => {
+    try {
+      const { settings, error } = parseFileRequestSettings({ ...req.body, title: req.body.title ?? '' });
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      const folderId = req.body.folderId || null;
+      if (!(await isOwnedFolder(req.user.id, folderId))) {
+        return res.status(404).json({ error: 'Folder not found' });
+      }
+
+      const request = await storage.createFileRequest({
+        ...settings,
+        title: settings.title!,
         userId: req.user.id,
-        originalName: req.file.originalname,
-        fileSize: req.file.size,
-        fileType: req.file.mimetype,
-        storagePath: req.file.path,
-        shareCode,
-        isPublic: req.body.isPublic === 'true',
-        downloadLimit: req.body.downloadLimit ? parseInt(req.body.downloadLimit) : null,
-        expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : null,
+        folderId,
+        token: storage.generateShareToken(),
       });
+      res.json(request);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      // Update upload count
-      await storage.updateProfile(req.user.id, {
-        dailyUploadCount: profile.dailyUploadCount + 1,
-      });
+  // Change a request's limits, deadline or destination, or close it
+  app.patch("/api/file-requests/:id", authenticateToken, async (req: any, res) => {
+    try {
+      const request = await storage.getFileRequest(req.params.id);
+      if (!request || request.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File request not found' });
+      }
 
-      res.json(file);
+      const { settings, error } = parseFileRequestSettings(req.body);
+      if (error) {
+        return res.status(400).json({ error });
+      }
+
+      let folderId = request.folderId;
+      if (req.body.folderId !== undefined) {
+        folderId = req.body.folderId || null;
+        if (!(await isOwnedFolder(req.user.id, folderId))) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
+      }
+
+      const updated = await storage.updateFileRequest(request.id, { ...settings, folderId });
+      res.json(updated);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.get("/api/files/:id", authenticateToken, async (req: any, res) => {
+  // Files already received stay in the owner's account
+  app.delete("/api/file-requests/:id", authenticateToken, async (req: any, res) => {
     try {
-      const file = await storage.getFile(req.params.id);
-      if (!file || file.userId !== req.user.id) {
-        return res.status(404).json({ error: 'File not found' });
+      const request = await storage.getFileRequest(req.params.id);
+      if (!request || request.userId !== req.user.id) {
+        return res.status(404).json({ error: 'File request not found' });
       }
-      res.json(file);
+
+      await storage.deleteFileRequest(request.id);
+      res.json({ success: true });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  app.delete("/api/files/:id", authenticateToken, async (req: any, res) => {
+  // What an uploader sees before sending files
+  app.get("/api/requests/:token", shareLookupLimits, async (req, res) => {
     try {
-      const file = await storage.getFile(req.params.id);
-      if (!file || file.userId !== req.user.id) {
-        return res.status(404).json({ error: 'File not found' });
+      const request = await storage.getFileRequestByToken(req.params.token);
+      if (!request) {
+        return res.status(404).json({ error: 'File request not found' });
       }
 
-      // Delete physical file
-      try {
-        fs.unlinkSync(file.storagePath);
-      } catch (e) {
-        // File might not exist on disk
+      const closedReason = requestClosedReason(request);
+      if (closedReason) {
+        return res.status(410).json({ error: closedReason });
       }
 
-      // Delete from storage
-      await storage.deleteFile(req.params.id);
-      res.json({ success: true });
+      const owner = await storage.getProfile(request.userId);
+      res.json({
+        title: request.title,
+        description: request.description,
+        ownerName: owner?.displayName ?? null,
+        maxFileSize: request.maxFileSize ?? DEFAULT_REQUEST_MAX_FILE_SIZE,
+        allowedFileTypes: request.allowedFileTypes,
+        expiresAt: request.expiresAt,
+      });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Download file by share code
-  app.get("/api/download/code/:shareCode", async (req, res) => {
+  // Unauthenticated upload into the owner's account, one file per request.
+  // Optional uploaderName / uploaderEmail fields say who sent it.
+  app.post("/api/requests/:token/upload", rateLimit('request-upload'), async (req, res) => {
     try {
-      const file = await storage.getFileByShareCode(req.params.shareCode);
-      if (!file) {
-        return res.status(404).json({ error: 'File not found' });
+      const request = await storage.getFileRequestByToken(req.params.token);
+      if (!request) {
+        return res.status(404).json({ error: 'File request not found' });
       }
 
-      // Check if file is expired
-      if (file.expiresAt && new Date() > file.expiresAt) {
-        return res.status(410).json({ error: 'File has expired' });
+      const closedReason = requestClosedReason(request);
+      if (closedReason) {
+        return res.status(410).json({ error: closedReason });
       }
 
-      // Check download limit
-      if (file.downloadLimit && file.downloadCount >= file.downloadLimit) {
-        return res.status(429).json({ error: 'Download limit exceeded' });
+      // Received files count toward the owner's upload limit; check before storing anything
+      const profile = await storage.getProfile(request.userId);
+      if (!profile) {
+        return res.status(404).json({ error: 'File request not found' });
+      }
+      if (profile.dailyUploadCount >= profile.dailyUploadLimit) {
+        return res.status(429).json({ error: 'This file request cannot accept more files today' });
       }
 
-      // Log download
-      await storage.createDownloadLog({
-        fileId: file.id,
-        downloadMethod: 'code',
-        downloaderIp: req.ip,
-        downloaderUserAgent: req.get('User-Agent') || null,
+      requestUploadMiddleware(request)(req, res, async (uploadError?: any) => {
+        try {
+          if (uploadError instanceof FileTypeNotAllowedError) {
+            return res.status(415).json({ error: uploadError.message, allowedFileTypes: request.allowedFileTypes });
+          }
+          if (uploadError instanceof multer.MulterError && uploadError.code === 'LIMIT_FILE_SIZE') {
+            return res.status(413).json({ error: 'File is larger than this request allows', maxFileSize: request.maxFileSize ?? DEFAULT_REQUEST_MAX_FILE_SIZE });
+          }
+          if (uploadError) {
+            throw uploadError;
+          }
+
+          const upload = (req as any).file;
+          if (!upload) {
+            return res.status(400).json({ error: 'No file provided' });
+          }
+
+          const uploaderName = typeof req.body.uploaderName === 'string' ? req.body.uploaderName.trim().slice(0, 200) || null : null;
+          const uploaderEmail = typeof req.body.uploaderEmail === 'string' ? req.body.uploaderEmail.trim().slice(0, 320) || null : null;
+
+          // The destination folder may have been deleted since the request was made
+          const folderId = request.folderId && await storage.getFolder(request.folderId) ? request.folderId : null;
+
+          const file = await storage.createFile({
+            userId: request.userId,
+            folderId,
+            originalName: upload.originalname,
+            fileSize: upload.size,
+            fileType: upload.mimetype,
+            storagePath: upload.path,
+            contentHash: upload.contentHash,
+            wrappedKey: upload.wrappedKey,
+            fileRequestId: request.id,
+            uploaderName,
+            uploaderEmail,
+          });
+
+          // Not downloadable by others until the scan has passed
+          queueScan(file.id);
+
+          await storage.updateProfile(request.userId, {
+            dailyUploadCount: profile.dailyUploadCount + 1,
+          });
+          await storage.updateFileRequest(request.id, { uploadCount: request.uploadCount + 1 });
+
+          // Let the owner know; a mail failure doesn't fail the upload
+          void emailService.sendFileRequestUploadEmail(profile.email, request.title, file.originalName, {
+            name: uploaderName,
+            email: uploaderEmail,
+          });
+
+          // Uploaders only learn that it arrived, not where it is stored
+          res.json({ success: true, fileName: file.originalName, fileSize: file.fileSize });
+        } catch (error: any) {
+          res.status(500).json({ error: error.message });
+        }
       });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
 
-      // Update download count
-      await storage.updateFile(file.id, {
-        downloadCount: file.downloadCount + 1,
+  // Download file by share code. Locked files take their password in a POST
+  // body, never the query string, which ends up in logs; GET and Range
+  // requests pass an access token from /api/public/file/:shareCode/unlock.
+  const downloadByShareCode = async (req: Request, res: Response) => {
+    try {
+      const found = await storage.getFileByShareCode(req.params.shareCode);
+      const continuation = await isDownloadContinuation(req, found?.id);
+      const access = await authorizeShareAccess(req, found, {
+        action: 'download',
+        password: req.body?.password,
+        accessToken: req.query.access,
+        continuation,
       });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const file = found!;
+
+      // Only files that passed the malware scan are served
+      const served = evaluateSharedFile(file);
+      if (!served.allowed) return sendShareAccessDenial(res, served);
+
+      // Check if the blob exists in storage
+      const plan = await planDownload(req, file);
+      if (!plan) {
+        return res.status(404).json({ error: 'File not found on server' });
+      }
+
+      // Follow-up range requests belong to an already counted download
+      const isNew = await isNewDownload(req, plan, file.id);
+
+      if (isNew) {
+        // Count the download; refused once the limit is used up
+        if (!(await storage.claimFileDownload(file.id))) {
+          return sendShareAccessDenial(res, shareAccessDenial('limit_reached'));
+        }
+
+        // Log download
+        await storage.createDownloadLog({
+          fileId: file.id,
+          downloadMethod: 'code',
+          downloaderIp: req.ip,
+          downloaderUserAgent: req.get('User-Agent') || null,
+        });
+      }
 
       // Send file
-      res.download(file.storagePath, file.originalName);
+      await sendStoredFile(res, file, plan);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
-  });
+  };
+
+  app.get("/api/download/code/:shareCode", downloadLimits, downloadByShareCode);
+  app.post("/api/download/code/:shareCode", downloadLimits, downloadByShareCode);
 
   // Email sharing route
-  app.post("/api/share/email", authenticateToken, async (req: any, res) => {
+  app.post("/api/share/email", apiScope('links:create'), authenticateToken, requireVerifiedEmail, rateLimit('email'), async (req: any, res) => {
     try {
-      const { fileId, recipientEmail, message, password, expiresAt, downloadLimit } = req.body;
+      const { fileId, bundleId, recipientEmail, message, password, expiresAt, downloadLimit } = req.body;
       
-      // Verify user owns the file
-      const file = await storage.getFile(fileId);
-      if (!file || file.userId !== req.user.id) {
-        return res.status(404).json({ error: 'File not found' });
+      // Verify user owns the file or bundle; a bundle sends many files in one email
+      let sharedName: string;
+      if (bundleId) {
+        const bundle = await storage.getBundle(bundleId);
+        if (!bundle || bundle.userId !== req.user.id) {
+          return res.status(404).json({ error: 'Bundle not found' });
+        }
+        const bundleFiles = await storage.getBundleFiles(bundle.id);
+        sharedName = `${bundle.name} (${bundleFiles.length} ${bundleFiles.length === 1 ? 'file' : 'files'})`;
+      } else {
+        const file = await storage.getFile(fileId);
+        if (!file || file.userId !== req.user.id) {
+          return res.status(404).json({ error: 'File not found' });
+        }
+        sharedName = file.originalName;
       }
 
       // Get user profile for sender info
@@ -276,7 +1667,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Create shared link for email
       const shareToken = storage.generateShareToken();
       const sharedLinkData = {
-        fileId,
+        fileId: bundleId ? null : fileId,
+        bundleId: bundleId || null,
         linkType: 'email',
         shareToken,
         recipientEmail,
@@ -297,7 +1689,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const emailSent = await emailService.sendFileShareEmail(
         recipientEmail,
         req.user.email,
-        file.originalName,
+        sharedName,
         shareUrl,
         message
       );
@@ -323,14 +1715,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Shared links routes
-  app.post("/api/shared-links", authenticateToken, async (req: any, res) => {
+  app.post("/api/shared-links", apiScope('links:create'), authenticateToken, requireVerifiedEmail, async (req: any, res) => {
     try {
       const data = insertSharedLinkSchema.parse(req.body);
-      
-      // Verify user owns the file
-      const file = await storage.getFile(data.fileId);
-      if (!file || file.userId !== req.user.id) {
-        return res.status(404).json({ error: 'File not found' });
+
+      // A link shares a single file, a whole folder or a bundle
+      if ([data.fileId, data.folderId, data.bundleId].filter(Boolean).length !== 1) {
+        return res.status(400).json({ error: 'Provide exactly one of fileId, folderId or bundleId' });
+      }
+
+      // Verify user owns the file or folder
+      if (data.fileId) {
+        const file = await storage.getFile(data.fileId);
+        if (!file || file.userId !== req.user.id) {
+          return res.status(404).json({ error: 'File not found' });
+        }
+
+        if (data.pinnedVersionId) {
+          const version = await storage.getFileVersion(data.pinnedVersionId);
+          if (!version || version.fileId !== file.id) {
+            return res.status(404).json({ error: 'Version not found' });
+          }
+        }
+      } else if (data.bundleId) {
+        const bundle = await storage.getBundle(data.bundleId);
+        if (!bundle || bundle.userId !== req.user.id) {
+          return res.status(404).json({ error: 'Bundle not found' });
+        }
+      } else if (!(await isOwnedFolder(req.user.id, data.folderId ?? null))) {
+        return res.status(404).json({ error: 'Folder not found' });
       }
 
       // Hash password if provided
@@ -345,86 +1758,169 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/shared-links/:token", async (req, res) => {
+  // Pin a file link to a specific version, or unpin it with versionId: null
+  app.patch("/api/shared-links/:id/pin", authenticateToken, async (req: any, res) => {
     try {
-      const link = await storage.getSharedLink(req.params.token);
-      if (!link || !link.isActive) {
+      const { versionId } = req.body;
+      const link = await storage.getSharedLinkById(req.params.id);
+      const file = link?.fileId ? await storage.getFile(link.fileId) : undefined;
+      if (!link || !file || file.userId !== req.user.id) {
         return res.status(404).json({ error: 'Share link not found' });
       }
 
-      // Check if link is expired
-      if (link.expiresAt && new Date() > link.expiresAt) {
-        return res.status(410).json({ error: 'Share link has expired' });
+      if (versionId) {
+        const version = await storage.getFileVersion(versionId);
+        if (!version || version.fileId !== file.id) {
+          return res.status(404).json({ error: 'Version not found' });
+        }
       }
 
-      const file = await storage.getFile(link.fileId);
-      if (!file) {
-        return res.status(404).json({ error: 'File not found' });
+      await storage.updateSharedLink(link.id, { pinnedVersionId: versionId ?? null });
+      res.json(await storage.getSharedLinkById(link.id));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Allow or stop recipients viewing a link's files in the browser
+  app.patch("/api/shared-links/:id/inline-view", authenticateToken, async (req: any, res) => {
+    try {
+      const { allowInlineView } = req.body;
+      if (typeof allowInlineView !== 'boolean') {
+        return res.status(400).json({ error: 'allowInlineView must be a boolean' });
+      }
+
+      const link = await storage.getSharedLinkById(req.params.id);
+      const owner = link?.fileId ? (await storage.getFile(link.fileId))?.userId
+        : link?.folderId ? (await storage.getFolder(link.folderId))?.userId
+        : link?.bundleId ? (await storage.getBundle(link.bundleId))?.userId
+        : undefined;
+      if (!link || owner !== req.user.id) {
+        return res.status(404).json({ error: 'Share link not found' });
       }
 
-      res.json({ file, link });
+      await storage.updateSharedLink(link.id, { allowInlineView });
+      res.json(await storage.getSharedLinkById(link.id));
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Download via shared link
-  app.post("/api/download/link/:token", async (req, res) => {
+  // Lockouts on the user's share codes and links, newest first
+  app.get("/api/security-events", authenticateToken, async (req: any, res) => {
     try {
-      const { password } = req.body;
-      const link = await storage.getSharedLink(req.params.token);
-      
-      if (!link || !link.isActive) {
-        return res.status(404).json({ error: 'Share link not found' });
+      const events = await storage.getUserShareSecurityEvents(req.user.id, 100);
+      res.json(await Promise.all(events.map(async event => {
+        const link = event.sharedLinkId ? await storage.getSharedLinkById(event.sharedLinkId) : undefined;
+        const shareName = event.fileId ? (await storage.getFile(event.fileId))?.originalName
+          : link?.fileId ? (await storage.getFile(link.fileId))?.originalName
+          : link?.folderId ? (await storage.getFolder(link.folderId))?.name
+          : link?.bundleId ? (await storage.getBundle(link.bundleId))?.name
+          : undefined;
+        return { ...event, shareType: event.fileId ? 'share_code' : 'link', shareName: shareName ?? null };
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  app.get("/api/shared-links/:token", shareLookupLimits, async (req, res) => {
+    try {
+      const found = await storage.getSharedLink(req.params.token);
+      const access = await authorizeShareAccess(req, found, { action: 'info', accessToken: req.query.access });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+
+      // Never hand password hashes to recipients
+      const { passwordHash, ...link } = found!;
+
+      if (link.folderId) {
+        const folder = await storage.getFolder(link.folderId);
+        if (!folder) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
+        return res.json({ folder, link });
       }
 
-      // Check password if required
-      if (link.passwordHash && !storage.validatePassword(password, link.passwordHash)) {
-        return res.status(401).json({ error: 'Invalid password' });
+      if (link.bundleId) {
+        const bundle = await storage.getBundle(link.bundleId);
+        if (!bundle) {
+          return res.status(404).json({ error: 'Bundle not found' });
+        }
+        const bundleFiles = (await storage.getBundleFiles(bundle.id)).map(({ passwordHash, ...rest }) => rest);
+        return res.json({ bundle, files: bundleFiles, link });
       }
 
-      // Check if link is expired
-      if (link.expiresAt && new Date() > link.expiresAt) {
-        return res.status(410).json({ error: 'Share link has expired' });
+      const file = link.fileId ? await storage.getFile(link.fileId) : undefined;
+      if (!file) {
+        return res.status(404).json({ error: 'File not found' });
       }
 
-      // Check download limit
-      if (link.downloadLimit && link.downloadCount >= link.downloadLimit) {
-        return res.status(429).json({ error: 'Download limit exceeded' });
+      const { passwordHash: filePasswordHash, ...sharedFile } = await resolveSharedFile(file, found!);
+      res.json({ file: sharedFile, link });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Download via shared link
+  app.post("/api/download/link/:token", downloadLimits, async (req: Request, res: Response) => {
+    try {
+      const { password } = req.body;
+      const found = await storage.getSharedLink(req.params.token);
+      const continuation = found ? await isDownloadContinuation(req, found.fileId, found.id, 'link') : false;
+      const access = await authorizeShareAccess(req, found, { action: 'download', password, continuation });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const link = found!;
+
+      if (!link.fileId) {
+        return res.status(400).json({ error: 'Folder and bundle links are downloaded through /api/download/shared/:token' });
       }
 
-      const file = await storage.getFile(link.fileId);
-      if (!file) {
+      const linkedFile = await storage.getFile(link.fileId);
+      if (!linkedFile) {
         return res.status(404).json({ error: 'File not found' });
       }
+      const file = await resolveSharedFile(linkedFile, link);
 
-      // Log download
-      await storage.createDownloadLog({
-        fileId: file.id,
-        sharedLinkId: link.id,
-        downloadMethod: 'link',
-        downloaderIp: req.ip,
-        downloaderUserAgent: req.get('User-Agent') || null,
-      });
+      // Only files that passed the malware scan are served
+      const served = evaluateSharedFile(file);
+      if (!served.allowed) return sendShareAccessDenial(res, served);
 
-      // Update download counts
-      await storage.updateSharedLink(link.id, {
-        downloadCount: link.downloadCount + 1,
-      });
-      
-      await storage.updateFile(file.id, {
-        downloadCount: file.downloadCount + 1,
-      });
+      // Check if the blob exists in storage
+      const plan = await planDownload(req, file);
+      if (!plan) {
+        return res.status(404).json({ error: 'File not found on server' });
+      }
+
+      // Follow-up range requests belong to an already counted download
+      const isNew = await isNewDownload(req, plan, file.id, link.id, 'link');
+
+      if (isNew) {
+        // Count the download against the link; refused once the limit is used up
+        if (!(await storage.claimSharedLinkDownload(link.id))) {
+          return sendShareAccessDenial(res, shareAccessDenial('limit_reached'));
+        }
+        await storage.incrementFileDownloadCount(file.id);
+
+        // Log download
+        await storage.createDownloadLog({
+          fileId: file.id,
+          sharedLinkId: link.id,
+          downloadMethod: 'link',
+          downloaderIp: req.ip,
+          downloaderUserAgent: req.get('User-Agent') || null,
+        });
+      }
 
       // Send file
-      res.download(file.storagePath, file.originalName);
+      await sendStoredFile(res, file, plan);
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
   // Email sharing (simplified - in production would use actual email service)
-  app.post("/api/send-email", authenticateToken, async (req: any, res) => {
+  app.post("/api/send-email", authenticateToken, rateLimit('email'), async (req: any, res) => {
     try {
       const { recipientEmail, subject, shareUrl, fileName } = req.body;
       
@@ -439,7 +1935,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics routes
-  app.get("/api/analytics/downloads/:fileId", authenticateToken, async (req: any, res) => {
+  app.get("/api/analytics/downloads/:fileId", apiScope('analytics:read'), authenticateToken, async (req: any, res) => {
     try {
       const file = await storage.getFile(req.params.fileId);
       if (!file || file.userId !== req.user.id) {
@@ -470,50 +1966,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   const httpServer = createServer(app);
   // Public file access routes (no authentication required)
-  app.get("/api/public/file/:shareCode", async (req, res) => {
+  const publicFileInfo = async (req: Request, res: Response) => {
     try {
       const { shareCode } = req.params;
-      const { password } = req.query;
+      const password = req.body?.password;
       
       // Find file by share code
-      const file = await storage.getFileByShareCode(shareCode);
-      if (!file) {
-        return res.status(404).json({ error: 'File not found' });
-      }
-
-      // Check if file is public
-      if (!file.isPublic) {
-        return res.status(403).json({ error: 'File is not publicly accessible' });
-      }
-
-      // Check if file is locked and password is required
-      if (file.isLocked && !password) {
-        return res.status(401).json({ error: 'Password required', requiresPassword: true });
-      }
-
-      // Validate password if file is locked
-      if (file.isLocked && password) {
-        const isValidPassword = storage.validatePassword(password as string, file.shareCode || '');
-        if (!isValidPassword) {
-          return res.status(401).json({ error: 'Invalid password' });
-        }
-      }
-
-      // Check expiry
-      if (file.expiresAt && new Date() > file.expiresAt) {
-        return res.status(410).json({ error: 'File has expired' });
-      }
-
-      // Check download limit
-      if (file.downloadLimit && file.downloadCount >= file.downloadLimit) {
-        return res.status(410).json({ error: 'Download limit exceeded' });
-      }
+      const found = await storage.getFileByShareCode(shareCode);
+      const access = await authorizeShareAccess(req, found, { action: 'info', password, accessToken: req.query.access });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const file = found!;
 
       res.json({
         id: file.id,
         originalName: file.originalName,
         fileSize: file.fileSize,
         fileType: file.fileType,
+        contentHash: file.contentHash,
+        isEncrypted: file.isEncrypted,
+        scanStatus: file.scanStatus,
         downloadCount: file.downloadCount,
         downloadLimit: file.downloadLimit,
         expiresAt: file.expiresAt,
@@ -522,200 +1993,393 @@ export async function registerRoutes(app: Express): Promise<Server> {
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
+  };
+
+  // Password-protected files are unlocked by POSTing { password }, or by
+  // passing ?access= with a token from the unlock route below
+  app.get("/api/public/file/:shareCode", shareLookupLimits, publicFileInfo);
+  app.post("/api/public/file/:shareCode", shareLookupLimits, publicFileInfo);
+
+  // Trades a locked file's password for a short-lived token its GET routes
+  // take as ?access=, so downloads can be resumed without the password
+  app.post("/api/public/file/:shareCode/unlock", shareLookupLimits, async (req, res) => {
+    try {
+      const found = await storage.getFileByShareCode(req.params.shareCode);
+      const access = await authorizeShareAccess(req, found, { action: 'info', password: req.body?.password });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+
+      res.json({ accessToken: shareAccessToken(found!) });
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
   });
 
-  app.get("/api/public/download/:shareCode", async (req, res) => {
+  const publicDownload = async (req: Request, res: Response) => {
     try {
       const { shareCode } = req.params;
-      const { password } = req.query;
+      const password = req.body?.password;
       
       // Find file by share code
-      const file = await storage.getFileByShareCode(shareCode);
-      if (!file) {
-        return res.status(404).json({ error: 'File not found' });
+      const found = await storage.getFileByShareCode(shareCode);
+      const continuation = await isDownloadContinuation(req, found?.id);
+      const access = await authorizeShareAccess(req, found, { action: 'download', password, accessToken: req.query.access, continuation });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const file = found!;
+
+      // Only files that passed the malware scan are served
+      const served = evaluateSharedFile(file);
+      if (!served.allowed) return sendShareAccessDenial(res, served);
+
+      // Check if the blob exists in storage
+      const plan = await planDownload(req, file);
+      if (!plan) {
+        return res.status(404).json({ error: 'File not found on server' });
       }
 
-      // Check if file is public
-      if (!file.isPublic) {
-        return res.status(403).json({ error: 'File is not publicly accessible' });
-      }
+      // Follow-up range requests belong to an already counted download
+      const isNew = await isNewDownload(req, plan, file.id);
 
-      // Check if file is locked and validate password
-      if (file.isLocked) {
-        if (!password) {
-          return res.status(401).json({ error: 'Password required', requiresPassword: true });
-        }
-        const isValidPassword = storage.validatePassword(password as string, file.shareCode || '');
-        if (!isValidPassword) {
-          return res.status(401).json({ error: 'Invalid password' });
+      if (isNew) {
+        // Count the download; refused once the limit is used up
+        if (!(await storage.claimFileDownload(file.id))) {
+          return sendShareAccessDenial(res, shareAccessDenial('limit_reached'));
         }
-      }
-
-      // Check expiry
-      if (file.expiresAt && new Date() > file.expiresAt) {
-        return res.status(410).json({ error: 'File has expired' });
-      }
 
-      // Check download limit
-      if (file.downloadLimit && file.downloadCount >= file.downloadLimit) {
-        return res.status(410).json({ error: 'Download limit exceeded' });
+        // Log download
+        await storage.createDownloadLog({
+          fileId: file.id,
+          downloadMethod: 'public_link',
+          downloaderIp: req.ip || req.connection.remoteAddress,
+          downloaderUserAgent: req.get('User-Agent')
+        });
       }
 
-      // Check if file exists on disk
-      const filePath = path.join(process.cwd(), file.storagePath);
-      if (!fs.existsSync(filePath)) {
-        return res.status(404).json({ error: 'File not found on server' });
-      }
+      // Send file
+      await sendStoredFile(res, file, plan);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
 
-      // Increment download count
-      await storage.updateFile(file.id, { downloadCount: file.downloadCount + 1 });
+  app.get("/api/public/download/:shareCode", downloadLimits, publicDownload);
+  app.post("/api/public/download/:shareCode", downloadLimits, publicDownload);
 
-      // Log download
-      await storage.createDownloadLog({
-        fileId: file.id,
-        downloadMethod: 'public_link',
-        downloaderIp: req.ip || req.connection.remoteAddress,
-        downloaderUserAgent: req.get('User-Agent')
-      });
+  // Shared link access routes
+  // Passwords are only accepted in POST bodies; this trades one for a
+  // short-lived token the GET routes below take as ?access=
+  app.post("/api/shared/:token/unlock", shareLookupLimits, async (req, res) => {
+    try {
+      const found = await storage.getSharedLink(req.params.token);
+      const access = await authorizeShareAccess(req, found, { action: 'info', password: req.body?.password });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
 
-      // Send file
-      res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
-      res.setHeader('Content-Type', file.fileType);
-      res.sendFile(filePath);
+      res.json({ accessToken: shareAccessToken(found!) });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Shared link access routes
-  app.get("/api/shared/:token", async (req, res) => {
+  app.get("/api/shared/:token", shareLookupLimits, async (req, res) => {
     try {
       const { token } = req.params;
-      const { password } = req.query;
       
       // Find shared link
-      const sharedLink = await storage.getSharedLink(token);
-      if (!sharedLink) {
-        return res.status(404).json({ error: 'Shared link not found' });
-      }
+      const found = await storage.getSharedLink(token);
+      const access = await authorizeShareAccess(req, found, { action: 'info', accessToken: req.query.access });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const sharedLink = found!;
+
+      const linkInfo = {
+        linkType: sharedLink.linkType,
+        downloadCount: sharedLink.downloadCount,
+        downloadLimit: sharedLink.downloadLimit,
+        expiresAt: sharedLink.expiresAt,
+        allowInlineView: sharedLink.allowInlineView
+      };
 
-      // Check if link is active
-      if (!sharedLink.isActive) {
-        return res.status(410).json({ error: 'Shared link is inactive' });
-      }
+      // Folder shares: list the shared folder or one of its sub-folders
+      if (sharedLink.folderId) {
+        const folderId = (req.query.folderId as string) || sharedLink.folderId;
+        if (!(await isWithinFolder(folderId, sharedLink.folderId))) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
 
-      // Check expiry
-      if (sharedLink.expiresAt && new Date() > sharedLink.expiresAt) {
-        return res.status(410).json({ error: 'Shared link has expired' });
-      }
+        const folder = await storage.getFolder(folderId);
+        if (!folder) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
 
-      // Check download limit
-      if (sharedLink.downloadLimit && sharedLink.downloadCount >= sharedLink.downloadLimit) {
-        return res.status(410).json({ error: 'Download limit exceeded' });
+        const listing = await storage.getFolderContents(folder.userId, folder.id);
+        return res.json({
+          folder: { id: folder.id, name: folder.name },
+          breadcrumbs: trimBreadcrumbs(listing.breadcrumbs, sharedLink.folderId)
+            .map(crumb => ({ id: crumb.id, name: crumb.name })),
+          folders: listing.folders.map(child => ({ id: child.id, name: child.name })),
+          files: listing.files.map(child => sharedFileSummary(child, sharedLink)),
+          sharedLink: linkInfo
+        });
       }
 
-      // Check password if required
-      if (sharedLink.passwordHash) {
-        if (!password) {
-          return res.status(401).json({ error: 'Password required', requiresPassword: true });
-        }
-        const isValidPassword = storage.validatePassword(password as string, sharedLink.passwordHash);
-        if (!isValidPassword) {
-          return res.status(401).json({ error: 'Invalid password' });
+      // Bundle shares: list the bundle's files; password, expiry and limit
+      // apply to the bundle as a whole
+      if (sharedLink.bundleId) {
+        const bundle = await storage.getBundle(sharedLink.bundleId);
+        if (!bundle) {
+          return res.status(404).json({ error: 'Bundle not found' });
         }
+
+        const bundleFiles = await storage.getBundleFiles(bundle.id);
+        return res.json({
+          bundle: { id: bundle.id, name: bundle.name },
+          files: bundleFiles.map(child => sharedFileSummary(child, sharedLink)),
+          sharedLink: linkInfo
+        });
       }
 
       // Get file details
-      const file = await storage.getFile(sharedLink.fileId);
-      if (!file) {
+      const linkedFile = sharedLink.fileId ? await storage.getFile(sharedLink.fileId) : undefined;
+      if (!linkedFile) {
         return res.status(404).json({ error: 'File not found' });
       }
+      const file = await resolveSharedFile(linkedFile, sharedLink);
 
       res.json({
         id: file.id,
         originalName: file.originalName,
         fileSize: file.fileSize,
         fileType: file.fileType,
-        sharedLink: {
-          linkType: sharedLink.linkType,
-          downloadCount: sharedLink.downloadCount,
-          downloadLimit: sharedLink.downloadLimit,
-          expiresAt: sharedLink.expiresAt
-        }
+        contentHash: file.contentHash,
+        isEncrypted: file.isEncrypted,
+        scanStatus: file.scanStatus,
+        viewable: sharedLink.allowInlineView && !!inlineViewType(file),
+        sharedLink: linkInfo
       });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
-  // Download via shared link with password
-  app.post("/api/download/shared/:token", async (req, res) => {
+  // Thumbnail or text snippet for a shared file. Viewing a preview doesn't
+  // count as a download.
+  app.get("/api/shared/:token/preview", shareLookupLimits, async (req, res) => {
     try {
       const { token } = req.params;
-      const { password } = req.body;
-      
+
       // Find shared link
-      const sharedLink = await storage.getSharedLink(token);
-      if (!sharedLink || !sharedLink.isActive) {
-        return res.status(404).json({ error: 'Shared link not found' });
+      const found = await storage.getSharedLink(token);
+      const access = await authorizeShareAccess(req, found, { action: 'preview', accessToken: req.query.access });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const sharedLink = found!;
+
+      // Get file; folder and bundle shares name the file, which must be part of the share
+      const fileId = sharedLink.fileId ?? req.query.fileId;
+      const linkedFile = fileId ? await storage.getFile(String(fileId)) : undefined;
+      if (!linkedFile || !(await isSharedThroughLink(sharedLink, linkedFile))) {
+        return res.status(404).json({ error: 'File not found' });
+      }
+      const file = await resolveSharedFile(linkedFile, sharedLink);
+
+      // Previews are only made for files that passed the malware scan
+      const preview = isScanCleared(file) ? await openPreview(file.contentHash) : undefined;
+      if (!preview) {
+        return res.status(404).json({ error: 'No preview available' });
       }
 
-      // Check expiry
-      if (sharedLink.expiresAt && new Date() > sharedLink.expiresAt) {
-        return res.status(410).json({ error: 'Shared link has expired' });
+      res.setHeader('Content-Type', preview.type);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Cache-Control', 'private, max-age=300');
+      preview.stream.on('error', (error) => res.destroy(error));
+      preview.stream.pipe(res);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
+  // Download via shared link. POST takes the password in the body; GET takes
+  // an access token from /unlock in the query instead, and lets the
+  // browser's own download manager pause and resume the transfer.
+  const downloadSharedLink = async (req: Request, res: Response) => {
+    try {
+      const { token } = req.params;
+      const password = req.body?.password;
+      const accessToken = req.query.access;
+      
+      // Find shared link
+      const found = await storage.getSharedLink(token);
+      const requestedFileId = found?.fileId ?? req.body?.fileId ?? req.query.fileId;
+      const continuation = found && requestedFileId
+        ? await isDownloadContinuation(req, String(requestedFileId), found.id, 'shared_link')
+        : false;
+      const access = await authorizeShareAccess(req, found, { action: 'download', password, accessToken, continuation });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const sharedLink = found!;
+
+      // Get file; folder and bundle shares name the file to download, which must be part of the share
+      const fileId = requestedFileId;
+      const linkedFile = fileId ? await storage.getFile(String(fileId)) : undefined;
+      if (!linkedFile || !(await isSharedThroughLink(sharedLink, linkedFile))) {
+        return res.status(404).json({ error: 'File not found' });
       }
+      const file = await resolveSharedFile(linkedFile, sharedLink);
+
+      // Only files that passed the malware scan are served
+      const served = evaluateSharedFile(file);
+      if (!served.allowed) return sendShareAccessDenial(res, served);
 
-      // Check download limit  
-      if (sharedLink.downloadLimit && sharedLink.downloadCount >= sharedLink.downloadLimit) {
-        return res.status(410).json({ error: 'Download limit exceeded' });
+      // Check if the blob exists in storage
+      const plan = await planDownload(req, file);
+      if (!plan) {
+        return res.status(404).json({ error: 'File not found on server' });
       }
 
-      // Validate password if required
-      if (sharedLink.passwordHash) {
-        if (!password) {
-          return res.status(401).json({ error: 'Password required', requiresPassword: true });
-        }
-        const isValidPassword = storage.validateFilePassword(password, sharedLink.passwordHash);
-        if (!isValidPassword) {
-          return res.status(401).json({ error: 'Invalid password' });
+      // Follow-up range requests belong to an already counted download
+      const isNew = await isNewDownload(req, plan, file.id, sharedLink.id, 'shared_link');
+
+      if (isNew) {
+        // Count the download; refused once the limit is used up
+        if (!(await storage.claimSharedLinkDownload(sharedLink.id))) {
+          return sendShareAccessDenial(res, shareAccessDenial('limit_reached'));
         }
+
+        // Log download
+        await storage.createDownloadLog({
+          fileId: file.id,
+          sharedLinkId: sharedLink.id,
+          downloadMethod: 'shared_link',
+          downloaderIp: req.ip || req.connection.remoteAddress,
+          downloaderUserAgent: req.get('User-Agent')
+        });
       }
 
-      // Get file
-      const file = await storage.getFile(sharedLink.fileId);
-      if (!file) {
+      // Send file
+      await sendStoredFile(res, file, plan);
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  app.get("/api/download/shared/:token", downloadLimits, downloadSharedLink);
+  app.post("/api/download/shared/:token", downloadLimits, downloadSharedLink);
+
+  // View a shared file in the browser. Views are logged separately from
+  // downloads and don't use up the download limit, but stop once it is reached.
+  app.get("/api/view/shared/:token", shareLookupLimits, async (req, res) => {
+    try {
+      const { token } = req.params;
+
+      // Find shared link
+      const found = await storage.getSharedLink(token);
+      const access = await authorizeShareAccess(req, found, { action: 'view', accessToken: req.query.access });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const sharedLink = found!;
+
+      // Get file; folder and bundle shares name the file, which must be part of the share
+      const fileId = sharedLink.fileId ?? req.query.fileId;
+      const linkedFile = fileId ? await storage.getFile(String(fileId)) : undefined;
+      if (!linkedFile || !(await isSharedThroughLink(sharedLink, linkedFile))) {
         return res.status(404).json({ error: 'File not found' });
       }
+      const file = await resolveSharedFile(linkedFile, sharedLink);
 
-      // Check if file exists on disk
-      const filePath = path.join(process.cwd(), file.storagePath);
-      if (!fs.existsSync(filePath)) {
-        return res.status(404).json({ error: 'File not found on server' });
+      // Only files that passed the malware scan are served
+      const served = evaluateSharedFile(file);
+      if (!served.allowed) return sendShareAccessDenial(res, served);
+
+      const inlineType = inlineViewType(file);
+      if (!inlineType) {
+        return res.status(415).json({ error: 'This file type cannot be viewed in the browser' });
       }
 
-      // Increment download count
-      await storage.updateSharedLink(sharedLink.id, { downloadCount: sharedLink.downloadCount + 1 });
+      // Check if the blob exists in storage
+      const plan = await planDownload(req, file);
+      if (!plan) {
+        return res.status(404).json({ error: 'File not found on server' });
+      }
 
-      // Log download
-      await storage.createDownloadLog({
-        fileId: file.id,
-        sharedLinkId: sharedLink.id,
-        downloadMethod: 'shared_link',
-        downloaderIp: req.ip || req.connection.remoteAddress,
-        downloaderUserAgent: req.get('User-Agent')
-      });
+      // Media players fetch many ranges; log the view once per session
+      if (await isNewDownload(req, plan, file.id, sharedLink.id, 'shared_link_view')) {
+        await storage.createDownloadLog({
+          fileId: file.id,
+          sharedLinkId: sharedLink.id,
+          downloadMethod: 'shared_link_view',
+          downloaderIp: req.ip || req.connection.remoteAddress,
+          downloaderUserAgent: req.get('User-Agent')
+        });
+      }
 
-      // Send file
-      res.setHeader('Content-Disposition', `attachment; filename="${file.originalName}"`);
-      res.setHeader('Content-Type', file.fileType);
-      res.sendFile(filePath);
+      await sendStoredFile(res, file, plan, { inlineType });
     } catch (error: any) {
       res.status(500).json({ error: error.message });
     }
   });
 
+  // Download everything in a shared folder or bundle as one ZIP
+  const downloadSharedArchive = async (req: Request, res: Response) => {
+    try {
+      const { token } = req.params;
+      const password = req.body?.password;
+      const accessToken = req.query.access;
+
+      // Find shared link
+      const found = await storage.getSharedLink(token);
+      const access = await authorizeShareAccess(req, found, { action: 'download', password, accessToken });
+      if (!access.allowed) return sendShareAccessDenial(res, access);
+      const sharedLink = found!;
+
+      if (!sharedLink.folderId && !sharedLink.bundleId) {
+        return res.status(400).json({ error: 'Only folder and bundle links can be downloaded as an archive' });
+      }
+
+      let archiveName: string;
+      let contents: ArchiveEntry[];
+      if (sharedLink.folderId) {
+        const folder = await storage.getFolder(sharedLink.folderId);
+        if (!folder) {
+          return res.status(404).json({ error: 'Folder not found' });
+        }
+        archiveName = folder.name;
+        contents = await collectFolderFiles(folder);
+      } else {
+        const bundle = await storage.getBundle(sharedLink.bundleId!);
+        if (!bundle) {
+          return res.status(404).json({ error: 'Bundle not found' });
+        }
+        archiveName = bundle.name;
+        contents = bundleArchiveEntries(await storage.getBundleFiles(bundle.id));
+      }
+
+      // Files that haven't passed the malware scan are left out of the archive
+      const entries = contents.filter(({ file }) => isScanCleared(file));
+
+      // The archive counts as one download of the link; each file is logged
+      if (!(await storage.claimSharedLinkDownload(sharedLink.id))) {
+        return sendShareAccessDenial(res, shareAccessDenial('limit_reached'));
+      }
+      for (const { file } of entries) {
+        await storage.createDownloadLog({
+          fileId: file.id,
+          sharedLinkId: sharedLink.id,
+          downloadMethod: sharedLink.folderId ? 'folder_archive' : 'bundle_archive',
+          downloaderIp: req.ip || req.connection.remoteAddress,
+          downloaderUserAgent: req.get('User-Agent')
+        });
+      }
+
+      await sendZipArchive(res, archiveName, entries);
+    } catch (error: any) {
+      if (res.headersSent) {
+        res.destroy(error);
+        return;
+      }
+      res.status(500).json({ error: error.message });
+    }
+  };
+
+  app.get("/api/download/shared/:token/archive", downloadLimits, downloadSharedArchive);
+  app.post("/api/download/shared/:token/archive", downloadLimits, downloadSharedArchive);
+
   // Paddle webhook for subscription handling
-  app.post("/api/paddle/webhook", async (req, res) => {
+  app.post("/api/paddle/webhook", rateLimit('webhook'), async (req, res) => {
     try {
       const { alert_name, user_email, subscription_id, status, product_id } = req.body;
       
@@ -801,5 +2465,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Last and next run of each background job
+  app.get("/api/system/jobs", authenticateToken, async (req: any, res) => {
+    try {
+      const jobs = await storage.getScheduledJobs();
+      res.json(jobs.map(job => ({
+        name: job.name,
+        running: !!job.lockedUntil && job.lockedUntil > new Date(),
+        nextRunAt: job.nextRunAt,
+        lastFinishedAt: job.lastFinishedAt,
+        lastStatus: job.lastStatus,
+        lastResult: job.lastResult,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ error: error.message });
+    }
+  });
+
   return httpServer;
 }
@@ -0,0 +1,103 @@
+import { describe, it, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Readable } from "stream";
+
+// storage opens its database pool lazily; the methods scanning uses are
+// stubbed with MemStorage's so nothing queries it
+process.env.DATABASE_URL ??= 'postgres://localhost/secureshare_test';
+process.env.UPLOAD_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'scanner-test-'));
+const { storage, MemStorage } = await import("./storage");
+const { storageDriver, toStoragePath } = await import("./storageDriver");
+const { scanFile, isScanCleared, setMalwareScanner, FakeScanner, EICAR_TEST_STRING } = await import("./scanner");
+
+const memory = new MemStorage();
+for (const method of ['getFile', 'updateFile', 'getFileVersions', 'updateFileVersion'] as const) {
+  mock.method(storage, method, memory[method].bind(memory));
+}
+
+async function storeContent(key: string, content: string): Promise<string> {
+  await storageDriver.put(key, Buffer.from(content));
+  return toStoragePath(storageDriver, key);
+}
+
+// A file whose versions hold the given contents, the last one current;
+// contentHash is left empty so no preview is queued
+async function fileWithVersions(contents: Array<{ content: string; scanStatus: string }>) {
+  const paths = await Promise.all(contents.map(({ content }, index) => storeContent(`test/${Date.now()}-${index}`, content)));
+  const current = contents.length - 1;
+  const file = await memory.createFile({
+    userId: 'user-1',
+    originalName: 'report.txt',
+    fileSize: contents[current].content.length,
+    fileType: 'text/plain',
+    storagePath: paths[current],
+    scanStatus: contents[current].scanStatus,
+    currentVersion: contents.length,
+  });
+  const versions = [];
+  for (const [index, { content, scanStatus }] of contents.entries()) {
+    versions.push(await memory.createFileVersion({
+      fileId: file.id,
+      versionNumber: index + 1,
+      fileSize: content.length,
+      fileType: 'text/plain',
+      storagePath: paths[index],
+      scanStatus,
+    }));
+  }
+  return { file, versions };
+}
+
+async function scanStatuses(fileId: string) {
+  const versions = await memory.getFileVersions(fileId);
+  return {
+    file: (await memory.getFile(fileId))?.scanStatus,
+    versions: versions.map(version => version.scanStatus).reverse(),
+  };
+}
+
+describe('scanFile', () => {
+  before(() => setMalwareScanner(new FakeScanner()));
+  after(() => fs.rmSync(process.env.UPLOAD_DIR!, { recursive: true, force: true }));
+
+  it('scans versions replaced before their scan ran', async () => {
+    const { file } = await fileWithVersions([
+      { content: 'first', scanStatus: 'clean' },
+      { content: 'second', scanStatus: 'pending_scan' },
+      { content: 'third', scanStatus: 'pending_scan' },
+    ]);
+
+    await scanFile(file.id);
+    assert.deepEqual(await scanStatuses(file.id), { file: 'clean', versions: ['clean', 'clean', 'clean'] });
+  });
+
+  it('quarantines an infected older version without touching the current one', async () => {
+    const { file } = await fileWithVersions([
+      { content: EICAR_TEST_STRING, scanStatus: 'pending_scan' },
+      { content: 'fixed', scanStatus: 'clean' },
+    ]);
+
+    await scanFile(file.id);
+    assert.deepEqual(await scanStatuses(file.id), { file: 'clean', versions: ['quarantined', 'clean'] });
+  });
+
+  it('does not clear plaintext the scanner refused', async () => {
+    setMalwareScanner({
+      name: 'refusing',
+      async scan(stream: Readable) {
+        for await (const _ of stream);
+        return { infected: false, unscannable: 'Too large to scan' };
+      },
+    });
+    const { file } = await fileWithVersions([{ content: 'padded', scanStatus: 'pending_scan' }]);
+
+    await scanFile(file.id);
+    const scanned = await memory.getFile(file.id);
+    assert.equal(scanned?.scanStatus, 'not_scanned');
+    assert.equal(scanned?.scanResult, 'Too large to scan');
+    assert.equal(isScanCleared(scanned!), false);
+  });
+});
@@ -0,0 +1,253 @@
+import net from "net";
+import type { Readable } from "stream";
+import type { File as StoredFile } from "@shared/schema";
+import { storage } from "./storage";
+import { openBlob } from "./blobs";
+import { createWorkQueue } from "./workQueue";
+import { queuePreview } from "./previews";
+
+// 'not_scanned' is used for content the scanner can't inspect: end-to-end
+// encrypted files, which are served like clean files, and files over clamd's
+// StreamMaxLength, which are only served with SERVE_UNSCANNABLE_FILES=true
+export type ScanStatus = 'pending_scan' | 'clean' | 'quarantined' | 'not_scanned';
+
+// Failed scans (e.g. clamd unreachable) are retried after this long
+export const SCAN_RETRY_DELAY_MS = 60 * 1000;
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string;
+  // Why the scanner refused the content; refusals are final, not retried
+  unscannable?: string;
+}
+
+export interface MalwareScanner {
+  readonly name: string;
+  scan(stream: Readable): Promise<ScanResult>;
+}
+
+export interface ClamdScannerConfig {
+  host?: string;
+  port?: number;
+  socketPath?: string;
+  timeoutMs?: number;
+}
+
+// What clamd answers, then hangs up, once a stream passes its StreamMaxLength
+const CLAMD_SIZE_LIMIT_REPLY = 'INSTREAM size limit exceeded. ERROR';
+
+// Talks to a clamd daemon using the INSTREAM command: the body is sent as
+// length-prefixed chunks terminated by a zero-length chunk
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamd';
+
+  constructor(private config: ClamdScannerConfig = {}) {}
+
+  scan(stream: Readable): Promise<ScanResult> {
+    return new Promise((resolve, reject) => {
+      const socket = this.config.socketPath
+        ? net.createConnection(this.config.socketPath)
+        : net.createConnection(this.config.port ?? 3310, this.config.host ?? '127.0.0.1');
+      socket.setTimeout(this.config.timeoutMs ?? 60_000);
+
+      let reply = '';
+      const fail = (error: Error) => {
+        stream.destroy();
+        socket.destroy();
+        reject(error);
+      };
+
+      // Writing the rest of the file after clamd hung up fails, so the
+      // size limit reply has to win over the write error
+      const refuseTooLarge = () => {
+        stream.destroy();
+        socket.destroy();
+        resolve({ infected: false, unscannable: 'Too large to scan' });
+      };
+
+      socket.on('timeout', () => fail(new Error('clamd scan timed out')));
+      socket.on('error', (error) => (reply.includes(CLAMD_SIZE_LIMIT_REPLY) ? refuseTooLarge() : fail(error)));
+      socket.on('data', (data) => {
+        reply += data.toString();
+        if (reply.includes(CLAMD_SIZE_LIMIT_REPLY)) refuseTooLarge();
+      });
+      socket.on('end', () => {
+        // e.g. "stream: OK" or "stream: Eicar-Signature FOUND"
+        const message = reply.replace(/\0/g, '').trim();
+        const found = /^stream: (.+) FOUND$/.exec(message);
+        if (found) {
+          resolve({ infected: true, signature: found[1] });
+        } else if (message === 'stream: OK') {
+          resolve({ infected: false });
+        } else {
+          reject(new Error(`Unexpected clamd reply: ${message}`));
+        }
+      });
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        stream.on('data', (data: Buffer) => {
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(data.length);
+          // Read no further than clamd keeps up with, instead of queueing
+          // the whole file in the socket's buffer
+          if (!socket.write(Buffer.concat([length, data]))) {
+            stream.pause();
+            socket.once('drain', () => stream.resume());
+          }
+        });
+        stream.on('end', () => socket.write(Buffer.alloc(4)));
+        stream.on('error', fail);
+      });
+    });
+  }
+}
+
+// The standard antivirus test string
+export const EICAR_TEST_STRING = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+// Flags files containing any of the given byte patterns. Stands in for a real
+// scanner in development and tests.
+export class FakeScanner implements MalwareScanner {
+  readonly name = 'fake';
+
+  constructor(private signatures: Record<string, string> = { 'Eicar-Test-Signature': EICAR_TEST_STRING }) {}
+
+  async scan(stream: Readable): Promise<ScanResult> {
+    const patterns = Object.entries(this.signatures).map(([name, pattern]) => ({ name, pattern: Buffer.from(pattern) }));
+    const overlap = Math.max(0, ...patterns.map(({ pattern }) => pattern.length - 1));
+
+    // Keep the tail of the previous chunk so matches across chunk boundaries are found
+    let tail = Buffer.alloc(0);
+    for await (const data of stream) {
+      const window = Buffer.concat([tail, data]);
+      const match = patterns.find(({ pattern }) => window.includes(pattern));
+      if (match) {
+        stream.destroy();
+        return { infected: true, signature: match.name };
+      }
+      tail = window.subarray(Math.max(0, window.length - overlap));
+    }
+    return { infected: false };
+  }
+}
+
+// The fake scanner lets everything but the EICAR test file through, so
+// production refuses to start until a scanner is chosen explicitly
+function createDefaultScanner(): MalwareScanner {
+  const scannerName = process.env.MALWARE_SCANNER || (process.env.NODE_ENV === 'production' ? undefined : 'fake');
+  if (!scannerName) {
+    throw new Error("MALWARE_SCANNER must be set in production, e.g. to 'clamd'");
+  }
+
+  if (scannerName === 'clamd') {
+    return new ClamdScanner({
+      host: process.env.CLAMD_HOST,
+      port: process.env.CLAMD_PORT ? parseInt(process.env.CLAMD_PORT) : undefined,
+      socketPath: process.env.CLAMD_SOCKET,
+    });
+  }
+
+  if (scannerName !== 'fake') {
+    throw new Error(`Unknown MALWARE_SCANNER: ${scannerName}`);
+  }
+  return new FakeScanner();
+}
+
+let scanner = createDefaultScanner();
+
+export function setMalwareScanner(replacement: MalwareScanner) {
+  scanner = replacement;
+}
+
+// Store a result on the file and on every version with the same content.
+// The file row is left alone if a new version replaced the scanned blob.
+async function recordScanResult(file: StoredFile, storagePath: string, scanStatus: ScanStatus, scanResult: string | null) {
+  const current = await storage.getFile(file.id);
+  if (current && current.storagePath === storagePath) {
+    await storage.updateFile(file.id, { scanStatus, scanResult });
+  }
+
+  for (const version of await storage.getFileVersions(file.id)) {
+    if (version.storagePath === storagePath) {
+      await storage.updateFileVersion(version.id, { scanStatus, scanResult });
+    }
+  }
+}
+
+// Scan every pending copy of a file's content: the current one, and versions
+// replaced before their scan ran, which pinned links can still serve
+export async function scanFile(fileId: string) {
+  const file = await storage.getFile(fileId);
+  if (!file) return;
+
+  const pending = new Map<string, string | null>(); // storage path -> wrapped key
+  if (file.scanStatus === 'pending_scan') {
+    pending.set(file.storagePath, file.wrappedKey);
+  }
+  for (const version of await storage.getFileVersions(file.id)) {
+    if (version.scanStatus === 'pending_scan') {
+      pending.set(version.storagePath, version.wrappedKey);
+    }
+  }
+
+  for (const [storagePath, wrappedKey] of Array.from(pending)) {
+    await scanContent(file, storagePath, wrappedKey);
+  }
+}
+
+async function scanContent(file: StoredFile, storagePath: string, wrappedKey: string | null) {
+  if (file.isEncrypted) {
+    await recordScanResult(file, storagePath, 'not_scanned', null);
+    return;
+  }
+
+  const result = await scanner.scan(await openBlob(storagePath, wrappedKey));
+  if (result.unscannable) {
+    console.warn(`Could not scan file ${file.id}: ${result.unscannable}`);
+    await recordScanResult(file, storagePath, 'not_scanned', result.unscannable);
+    return;
+  }
+  if (result.infected) {
+    console.warn(`Quarantined file ${file.id}: ${result.signature ?? 'malware detected'}`);
+  }
+  await recordScanResult(file, storagePath, result.infected ? 'quarantined' : 'clean', result.signature ?? null);
+
+  // Previews are only made from content that passed the scan
+  if (!result.infected) {
+    queuePreview(file.id);
+  }
+}
+
+// Scans run in the background so uploads return immediately
+const scanQueue = createWorkQueue('Malware scan', scanFile, { retryDelayMs: SCAN_RETRY_DELAY_MS });
+
+export function queueScan(fileId: string) {
+  scanQueue.enqueue(fileId);
+}
+
+// Pick up files and versions left pending by a restart (or stored before
+// scanning existed)
+export async function resumePendingScans() {
+  const fileIds = new Set<string>();
+  for (const file of await storage.getFilesByScanStatus('pending_scan')) {
+    fileIds.add(file.id);
+  }
+  for (const version of await storage.getFileVersionsByScanStatus('pending_scan')) {
+    fileIds.add(version.fileId);
+  }
+  for (const fileId of Array.from(fileIds)) {
+    queueScan(fileId);
+  }
+}
+
+// Plaintext the scanner refused could hide anything, e.g. malware padded
+// past clamd's size limit; serving it anyway has to be chosen explicitly
+export function serveUnscannableFiles(): boolean {
+  return process.env.SERVE_UNSCANNABLE_FILES === 'true';
+}
+
+export function isScanCleared(file: StoredFile): boolean {
+  if (file.scanStatus === 'clean') return true;
+  return file.scanStatus === 'not_scanned' && (file.isEncrypted || serveUnscannableFiles());
+}
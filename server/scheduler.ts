@@ -0,0 +1,67 @@
+import { hostname } from "os";
+import { randomUUID } from "crypto";
+import { storage, type ScheduledJobOutcome } from "./storage";
+
+export interface JobDefinition {
+  name: string;
+  intervalMs: number;
+  // Resolves to a short summary of what the run did
+  run: () => Promise<string>;
+}
+
+// Identifies this process in the lock columns of scheduled_jobs
+const INSTANCE_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+const TICK_MS = 60 * 1000;
+// A run still going after this long is presumed dead and another instance
+// may take the job over
+const LOCK_TTL_MS = 30 * 60 * 1000;
+
+async function runJob(job: JobDefinition, now: Date) {
+  const claimed = await storage.claimScheduledJob(job.name, INSTANCE_ID, now, new Date(now.getTime() + LOCK_TTL_MS));
+  if (!claimed) return;
+
+  let outcome: Omit<ScheduledJobOutcome, 'nextRunAt'>;
+  try {
+    outcome = { lastStatus: 'succeeded', lastResult: await job.run() };
+  } catch (error: any) {
+    console.error(`Scheduled job ${job.name} failed:`, error);
+    outcome = { lastStatus: 'failed', lastResult: error?.message ?? String(error) };
+  }
+
+  await storage.finishScheduledJob(job.name, INSTANCE_ID, {
+    ...outcome,
+    nextRunAt: new Date(Date.now() + job.intervalMs),
+  });
+}
+
+// Run every job that is due and not locked by another instance
+export async function runDueJobs(jobs: JobDefinition[], now = new Date()) {
+  for (const job of jobs) {
+    try {
+      await runJob(job, now);
+    } catch (error) {
+      console.error(`Failed to run scheduled job ${job.name}:`, error);
+    }
+  }
+}
+
+export function startScheduler(jobs: JobDefinition[]) {
+  // Ticks don't overlap; a slow run keeps its lock until it finishes
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runDueJobs(jobs);
+    } finally {
+      running = false;
+    }
+  };
+
+  // New jobs are due straight away; existing rows keep their schedule
+  Promise.all(jobs.map(job => storage.ensureScheduledJob(job.name, new Date())))
+    .then(tick)
+    .catch(error => console.error('Failed to start the job scheduler:', error));
+
+  setInterval(tick, TICK_MS).unref();
+}
@@ -0,0 +1,297 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import bcrypt from "bcrypt";
+import type { File, SharedLink } from "@shared/schema";
+import type { ShareAccessCode, ShareAction, ShareAccessDecision } from "./shareAccess";
+
+// storage opens its database pool lazily and nothing here queries it
+process.env.DATABASE_URL ??= 'postgres://localhost/secureshare_test';
+const { evaluateShareAccess, evaluateSharedFile, shareAccessToken } = await import("./shareAccess");
+
+const NOW = new Date('2026-01-15T12:00:00Z');
+const HOUR_MS = 60 * 60 * 1000;
+const PASSWORD = 'correct horse';
+// Low cost keeps thousands of comparisons quick
+const PASSWORD_HASH = bcrypt.hashSync(PASSWORD, 4);
+
+type Kind = 'link' | 'file';
+type Expiry = 'none' | 'future' | 'past';
+type Limit = 'none' | 'below' | 'reached';
+// 'unset' = no password on the share; 'locked_without_hash' = a locked file
+// that never got a password, which nothing can unlock
+type Password = 'unset' | 'missing' | 'wrong' | 'right' | 'locked_without_hash';
+
+interface Case {
+  kind: Kind;
+  enabled: boolean; // links: isActive; files: isPublic
+  trashed: boolean; // files only; a link's file is checked by evaluateSharedFile
+  expiry: Expiry;
+  limit: Limit;
+  continuation: boolean;
+  action: ShareAction;
+  inlineView: boolean; // links only
+  password: Password;
+}
+
+// The policy as a table: the first rule that matches decides, in the
+// order evaluateShareAccess documents. No match means access is allowed.
+const RULES: Array<[ShareAccessCode, (c: Case) => boolean]> = [
+  ['not_found', c => c.kind === 'file' && c.trashed],
+  ['inactive', c => c.kind === 'link' && !c.enabled],
+  ['not_public', c => c.kind === 'file' && !c.enabled],
+  ['expired', c => c.expiry === 'past'],
+  ['limit_reached', c => c.limit === 'reached' && !c.continuation],
+  ['view_disabled', c => c.kind === 'link' && c.action === 'view' && !c.inlineView],
+  ['password_required', c => c.password === 'missing'],
+  ['invalid_password', c => c.password === 'wrong' || c.password === 'locked_without_hash'],
+];
+
+const STATUS: Record<ShareAccessCode, number> = {
+  not_found: 404,
+  inactive: 410,
+  not_public: 403,
+  expired: 410,
+  limit_reached: 410,
+  view_disabled: 403,
+  password_required: 401,
+  invalid_password: 401,
+  too_many_attempts: 429,
+  scan_pending: 423,
+  quarantined: 403,
+  unscannable: 403,
+};
+
+function expectedCode(c: Case): ShareAccessCode | undefined {
+  return RULES.find(([, matches]) => matches(c))?.[0];
+}
+
+function* combinations(): Generator<Case> {
+  for (const kind of ['link', 'file'] as Kind[])
+  for (const enabled of [true, false])
+  for (const trashed of kind === 'file' ? [false, true] : [false])
+  for (const expiry of ['none', 'future', 'past'] as Expiry[])
+  for (const limit of ['none', 'below', 'reached'] as Limit[])
+  for (const continuation of [false, true])
+  for (const action of ['info', 'download', 'view', 'preview'] as ShareAction[])
+  for (const inlineView of kind === 'link' ? [true, false] : [true])
+  for (const password of ['unset', 'missing', 'wrong', 'right', 'locked_without_hash'] as Password[]) {
+    // Only files can be locked without a password
+    if (password === 'locked_without_hash' && kind === 'link') continue;
+    yield { kind, enabled, trashed, expiry, limit, continuation, action, inlineView, password };
+  }
+}
+
+function expiresAt(expiry: Expiry): Date | null {
+  if (expiry === 'none') return null;
+  return new Date(NOW.getTime() + (expiry === 'future' ? HOUR_MS : -HOUR_MS));
+}
+
+function downloads(limit: Limit): { downloadLimit: number | null; downloadCount: number } {
+  if (limit === 'none') return { downloadLimit: null, downloadCount: 7 };
+  return { downloadLimit: 3, downloadCount: limit === 'below' ? 2 : 3 };
+}
+
+function makeFile(overrides: Partial<File> = {}): File {
+  return {
+    id: 'file-1',
+    userId: 'user-1',
+    folderId: null,
+    originalName: 'report.pdf',
+    fileSize: 1024,
+    fileType: 'application/pdf',
+    storagePath: 'local:sha256/ab/abc',
+    contentHash: 'abc',
+    isEncrypted: false,
+    wrappedKey: null,
+    scanStatus: 'clean',
+    scanResult: null,
+    shareCode: 'ABCD1234',
+    isPublic: true,
+    isLocked: false,
+    passwordHash: null,
+    downloadLimit: null,
+    downloadCount: 0,
+    expiresAt: null,
+    currentVersion: 1,
+    fileRequestId: null,
+    uploaderName: null,
+    uploaderEmail: null,
+    deletedAt: null,
+    createdAt: NOW,
+    updatedAt: NOW,
+    ...overrides,
+  };
+}
+
+function makeLink(overrides: Partial<SharedLink> = {}): SharedLink {
+  return {
+    id: 'link-1',
+    fileId: 'file-1',
+    folderId: null,
+    bundleId: null,
+    linkType: 'public',
+    shareToken: 'token-1',
+    pinnedVersionId: null,
+    recipientEmail: null,
+    passwordHash: null,
+    expiresAt: null,
+    downloadLimit: null,
+    downloadCount: 0,
+    isActive: true,
+    allowInlineView: true,
+    createdAt: NOW,
+    ...overrides,
+  };
+}
+
+function targetFor(c: Case): File | SharedLink {
+  const common = { expiresAt: expiresAt(c.expiry), ...downloads(c.limit) };
+  if (c.kind === 'link') {
+    return makeLink({
+      ...common,
+      isActive: c.enabled,
+      allowInlineView: c.inlineView,
+      passwordHash: c.password === 'unset' ? null : PASSWORD_HASH,
+    });
+  }
+  return makeFile({
+    ...common,
+    isPublic: c.enabled,
+    deletedAt: c.trashed ? new Date(NOW.getTime() - HOUR_MS) : null,
+    isLocked: c.password !== 'unset',
+    passwordHash: c.password === 'unset' || c.password === 'locked_without_hash' ? null : PASSWORD_HASH,
+  });
+}
+
+function passwordFor(c: Case): string | undefined {
+  if (c.password === 'missing' || c.password === 'unset') return undefined;
+  return c.password === 'right' ? PASSWORD : 'wrong password';
+}
+
+function describeCase(c: Case): string {
+  return Object.entries(c).map(([key, value]) => `${key}=${value}`).join(' ');
+}
+
+function assertDecision(decision: ShareAccessDecision, code: ShareAccessCode | undefined, label: string) {
+  if (!code) {
+    assert.deepEqual(decision, { allowed: true }, label);
+    return;
+  }
+  assert.equal(decision.allowed, false, label);
+  if (decision.allowed) return;
+  assert.equal(decision.code, code, label);
+  assert.equal(decision.status, STATUS[code], label);
+}
+
+describe('evaluateShareAccess', () => {
+  it('returns not_found for a missing share', () => {
+    assertDecision(evaluateShareAccess(undefined, { action: 'download', now: NOW }), 'not_found', 'missing share');
+  });
+
+  it('decides every combination of state, expiry, limit, action, inline viewing and password by the rule table', () => {
+    let checked = 0;
+    for (const c of combinations()) {
+      const decision = evaluateShareAccess(targetFor(c), {
+        action: c.action,
+        password: passwordFor(c),
+        continuation: c.continuation,
+        now: NOW,
+      });
+      assertDecision(decision, expectedCode(c), describeCase(c));
+      checked++;
+    }
+    // 1152 link and 1440 file cases
+    assert.equal(checked, 2592);
+  });
+
+  it('treats a share expiring right now as still valid', () => {
+    assertDecision(evaluateShareAccess(makeLink({ expiresAt: NOW }), { action: 'download', now: NOW }), undefined, 'expires now');
+  });
+
+  it('does not accept a non-string password', () => {
+    const link = makeLink({ passwordHash: PASSWORD_HASH });
+    assertDecision(evaluateShareAccess(link, { action: 'download', password: [PASSWORD], now: NOW }), 'password_required', 'array password');
+  });
+});
+
+describe('share access tokens', () => {
+  const link = makeLink({ passwordHash: PASSWORD_HASH });
+  const accessToken = shareAccessToken(link);
+
+  it('stand in for the password of the share they were issued for', () => {
+    for (const action of ['info', 'download', 'view', 'preview'] as ShareAction[]) {
+      assertDecision(evaluateShareAccess(link, { action, accessToken, now: NOW }), undefined, action);
+    }
+  });
+
+  it('do not unlock another share', () => {
+    const other = makeLink({ id: 'link-2', shareToken: 'token-2', passwordHash: PASSWORD_HASH });
+    assertDecision(evaluateShareAccess(other, { action: 'download', accessToken, now: NOW }), 'password_required', 'other link');
+    const file = makeFile({ id: 'link-1', isLocked: true, passwordHash: PASSWORD_HASH });
+    assertDecision(evaluateShareAccess(file, { action: 'download', accessToken, now: NOW }), 'password_required', 'file with the same id');
+  });
+
+  it('stop working once the password changes', () => {
+    const changed = makeLink({ passwordHash: bcrypt.hashSync('new password', 4) });
+    assertDecision(evaluateShareAccess(changed, { action: 'download', accessToken, now: NOW }), 'password_required', 'changed password');
+  });
+
+  it('only replace the password check', () => {
+    const expired = makeLink({ passwordHash: PASSWORD_HASH, expiresAt: new Date(NOW.getTime() - HOUR_MS) });
+    assertDecision(evaluateShareAccess(expired, { action: 'download', accessToken, now: NOW }), 'expired', 'expired link');
+    const exhausted = makeLink({ passwordHash: PASSWORD_HASH, downloadLimit: 1, downloadCount: 1 });
+    assertDecision(evaluateShareAccess(exhausted, { action: 'download', accessToken, now: NOW }), 'limit_reached', 'limit reached');
+  });
+
+  it('never unlock a locked file without a password', () => {
+    const file = makeFile({ isLocked: true, passwordHash: null });
+    const fileToken = shareAccessToken(file);
+    assertDecision(evaluateShareAccess(file, { action: 'download', accessToken: fileToken, now: NOW }), 'password_required', 'locked without hash');
+  });
+
+  it('reject tokens that are not share access tokens', () => {
+    assertDecision(evaluateShareAccess(link, { action: 'download', accessToken: 'not-a-token', now: NOW }), 'password_required', 'garbage');
+    assertDecision(evaluateShareAccess(link, { action: 'download', accessToken: [accessToken], now: NOW }), 'password_required', 'array');
+  });
+});
+
+describe('evaluateSharedFile', () => {
+  // Only encrypted files are served without a scan, unless
+  // SERVE_UNSCANNABLE_FILES says otherwise
+  const table: Array<{ scanStatus: string; trashed: boolean; encrypted?: boolean; code?: ShareAccessCode }> = [
+    { scanStatus: 'clean', trashed: false },
+    { scanStatus: 'not_scanned', trashed: false, encrypted: true },
+    { scanStatus: 'not_scanned', trashed: false, code: 'unscannable' },
+    { scanStatus: 'pending_scan', trashed: false, code: 'scan_pending' },
+    { scanStatus: 'quarantined', trashed: false, code: 'quarantined' },
+    { scanStatus: 'clean', trashed: true, code: 'not_found' },
+    { scanStatus: 'not_scanned', trashed: true, code: 'not_found' },
+    { scanStatus: 'pending_scan', trashed: true, code: 'not_found' },
+    { scanStatus: 'quarantined', trashed: true, code: 'not_found' },
+  ];
+
+  for (const row of table) {
+    const label = `${row.trashed ? 'trashed' : 'live'} ${row.encrypted ? 'encrypted' : 'plaintext'} ${row.scanStatus} file`;
+    it(`${label}: ${row.code ?? 'allowed'}`, () => {
+      const file = makeFile({ scanStatus: row.scanStatus, isEncrypted: !!row.encrypted, deletedAt: row.trashed ? NOW : null });
+      assertDecision(evaluateSharedFile(file, NOW), row.code, JSON.stringify(row));
+    });
+  }
+
+  it('serves unscannable plaintext when SERVE_UNSCANNABLE_FILES=true', (t) => {
+    t.after(() => { delete process.env.SERVE_UNSCANNABLE_FILES; });
+    process.env.SERVE_UNSCANNABLE_FILES = 'true';
+    assertDecision(evaluateSharedFile(makeFile({ scanStatus: 'not_scanned' }), NOW), undefined, 'opted in');
+  });
+
+  it('returns not_found for a file that no longer exists', () => {
+    assertDecision(evaluateSharedFile(undefined, NOW), 'not_found', 'missing file');
+  });
+
+  it('asks clients to retry while the scan is pending', () => {
+    const decision = evaluateSharedFile(makeFile({ scanStatus: 'pending_scan' }), NOW);
+    assert.equal(decision.allowed, false);
+    if (decision.allowed) return;
+    assert.equal(decision.retryAfter?.getTime(), NOW.getTime() + 30 * 1000);
+  });
+});
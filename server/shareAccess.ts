@@ -0,0 +1,204 @@
+import type { Request, Response } from "express";
+import type { File, SharedLink } from "@shared/schema";
+import { storage } from "./storage";
+import { activeLockout, recordFailure } from "./bruteForce";
+import { isScanCleared } from "./scanner";
+import { issueShareAccessToken, readShareAccessToken } from "./auth";
+
+// A share is either a shared link or a file reached by its share code
+export type ShareTarget = SharedLink | File;
+
+// What the recipient is asking for; only 'view' depends on link settings
+export type ShareAction = 'info' | 'download' | 'view' | 'preview';
+
+export type ShareAccessCode =
+  | 'not_found'
+  | 'inactive'
+  | 'not_public'
+  | 'expired'
+  | 'limit_reached'
+  | 'view_disabled'
+  | 'password_required'
+  | 'invalid_password'
+  | 'too_many_attempts'
+  | 'scan_pending'
+  | 'quarantined'
+  | 'unscannable';
+
+export interface ShareAccessRequest {
+  action: ShareAction;
+  password?: unknown;
+  // Stands in for the password on GET and Range URLs; see shareAccessToken
+  accessToken?: unknown;
+  // A ranged follow-up of a download that was already counted; see
+  // isDownloadContinuation in server/downloads.ts
+  continuation?: boolean;
+  now?: Date;
+}
+
+export interface ShareAccessDenial {
+  allowed: false;
+  code: ShareAccessCode;
+  status: number;
+  error: string;
+  retryAfter?: Date; // when a locked out client may try again
+}
+
+export type ShareAccessDecision = { allowed: true } | ShareAccessDenial;
+
+const DENIALS: Record<ShareAccessCode, { status: number; error: string }> = {
+  not_found: { status: 404, error: 'Share not found' },
+  inactive: { status: 410, error: 'This share has been deactivated' },
+  not_public: { status: 403, error: 'File is not publicly accessible' },
+  expired: { status: 410, error: 'This share has expired' },
+  limit_reached: { status: 410, error: 'Download limit exceeded' },
+  view_disabled: { status: 403, error: 'Viewing in the browser is disabled for this link' },
+  password_required: { status: 401, error: 'Password required' },
+  invalid_password: { status: 401, error: 'Invalid password' },
+  too_many_attempts: { status: 429, error: 'Too many failed attempts, try again later' },
+  scan_pending: { status: 423, error: 'File is still being scanned for malware' },
+  quarantined: { status: 403, error: 'File has been quarantined because malware was detected' },
+  unscannable: { status: 403, error: 'File could not be scanned for malware' },
+};
+
+// How soon to ask again while a file is being scanned
+const SCAN_RETRY_AFTER_MS = 30 * 1000;
+
+export function shareAccessDenial(code: ShareAccessCode): ShareAccessDenial {
+  return { allowed: false, code, ...DENIALS[code] };
+}
+
+function isSharedLink(target: ShareTarget): target is SharedLink {
+  return 'shareToken' in target;
+}
+
+// The one place that decides whether a share may be used. Checks run in a
+// fixed order: existence, active/public, expiry, download limit, inline
+// viewing, then the password, so a wrong password never reveals more than
+// a dead share would. The limit check here is advisory; downloads still
+// claim their count atomically and report 'limit_reached' if they lose.
+// Continuations skip it, so a download that claimed the last slot can
+// still be resumed.
+export function evaluateShareAccess(target: ShareTarget | undefined, request: ShareAccessRequest): ShareAccessDecision {
+  // Trashed files keep their share code, but nothing resolves them
+  if (!target || (!isSharedLink(target) && target.deletedAt)) return shareAccessDenial('not_found');
+
+  const now = request.now ?? new Date();
+  const link = isSharedLink(target) ? target : undefined;
+
+  if (link && !link.isActive) return shareAccessDenial('inactive');
+  if (!link && !(target as File).isPublic) return shareAccessDenial('not_public');
+
+  if (target.expiresAt && now > target.expiresAt) return shareAccessDenial('expired');
+
+  if (!request.continuation && target.downloadLimit !== null && target.downloadCount >= target.downloadLimit) {
+    return shareAccessDenial('limit_reached');
+  }
+
+  if (request.action === 'view' && link && !link.allowInlineView) {
+    return shareAccessDenial('view_disabled');
+  }
+
+  const passwordHash = sharePasswordHash(target);
+  if (passwordHash !== null && !hasShareAccessToken(target, passwordHash, request.accessToken)) {
+    if (typeof request.password !== 'string' || !request.password) {
+      return shareAccessDenial('password_required');
+    }
+    if (!passwordHash || !storage.validateFilePassword(request.password, passwordHash)) {
+      return shareAccessDenial('invalid_password');
+    }
+  }
+
+  return { allowed: true };
+}
+
+// The hash a share's password is checked against; null when it has none. A
+// locked file without a stored password gets '', which nothing unlocks.
+function sharePasswordHash(target: ShareTarget): string | null {
+  if (isSharedLink(target)) return target.passwordHash;
+  return target.isLocked ? target.passwordHash ?? '' : null;
+}
+
+function hasShareAccessToken(target: ShareTarget, passwordHash: string, accessToken: unknown): boolean {
+  return typeof accessToken === 'string' && !!passwordHash && readShareAccessToken(accessToken, shareAttemptKey(target), passwordHash);
+}
+
+// The second step, once the file a share serves is known: files in the
+// trash resolve to nothing, and only files that passed the malware scan
+// are served
+export function evaluateSharedFile(file: File | undefined, now = new Date()): ShareAccessDecision {
+  if (!file || file.deletedAt) return shareAccessDenial('not_found');
+  if (file.scanStatus === 'quarantined') return shareAccessDenial('quarantined');
+  if (file.scanStatus === 'not_scanned' && !isScanCleared(file)) return shareAccessDenial('unscannable');
+  if (!isScanCleared(file)) {
+    return { ...shareAccessDenial('scan_pending'), retryAfter: new Date(now.getTime() + SCAN_RETRY_AFTER_MS) };
+  }
+  return { allowed: true };
+}
+
+// Guesses that count towards a lockout: unknown codes or tokens, and wrong passwords
+const COUNTED_FAILURES = new Set<ShareAccessCode>(['not_found', 'invalid_password']);
+
+// Attempt-tracking key of a share; see server/bruteForce.ts
+export function shareAttemptKey(target: ShareTarget): string {
+  return isSharedLink(target) ? `link:${target.id}` : `file:${target.id}`;
+}
+
+export async function shareOwnerId(target: ShareTarget): Promise<string | undefined> {
+  if (!isSharedLink(target)) return target.userId;
+  if (target.fileId) return (await storage.getFile(target.fileId))?.userId;
+  if (target.folderId) return (await storage.getFolder(target.folderId))?.userId;
+  if (target.bundleId) return (await storage.getBundle(target.bundleId))?.userId;
+  return undefined;
+}
+
+// evaluateShareAccess behind the brute-force lockout. Failed guesses count
+// against the client's IP; wrong passwords also count against the share, so
+// guessing from many addresses still locks it. Lockouts on a share are
+// recorded for its owner.
+export async function authorizeShareAccess(req: Request, target: ShareTarget | undefined, request: ShareAccessRequest): Promise<ShareAccessDecision> {
+  const now = request.now ?? new Date();
+  const ipKey = `ip:${req.ip}`;
+  const targetKey = target ? shareAttemptKey(target) : undefined;
+
+  const lockedUntil = await activeLockout(targetKey ? [ipKey, targetKey] : [ipKey], now);
+  if (lockedUntil) return { ...shareAccessDenial('too_many_attempts'), retryAfter: lockedUntil };
+
+  const decision = evaluateShareAccess(target, { ...request, now });
+  if (decision.allowed || !COUNTED_FAILURES.has(decision.code)) return decision;
+
+  await recordFailure(ipKey, now);
+  if (target && targetKey && decision.code === 'invalid_password') {
+    const { failures, lockedUntil } = await recordFailure(targetKey, now);
+    const userId = lockedUntil ? await shareOwnerId(target) : undefined;
+    if (lockedUntil && userId) {
+      await storage.createShareSecurityEvent({
+        userId,
+        fileId: isSharedLink(target) ? null : target.id,
+        sharedLinkId: isSharedLink(target) ? target.id : null,
+        eventType: 'lockout',
+        sourceIp: req.ip ?? null,
+        failures,
+        lockedUntil,
+      });
+    }
+  }
+  return decision;
+}
+
+// What a recipient gets for entering the share's password, to carry on GET
+// and Range URLs instead of it, so the password never ends up in a URL
+export function shareAccessToken(target: ShareTarget): string {
+  return issueShareAccessToken(shareAttemptKey(target), sharePasswordHash(target) ?? '');
+}
+
+export function sendShareAccessDenial(res: Response, denial: ShareAccessDenial) {
+  if (denial.retryAfter) {
+    res.setHeader('Retry-After', Math.max(1, Math.ceil((denial.retryAfter.getTime() - Date.now()) / 1000)));
+  }
+  res.status(denial.status).json({
+    error: denial.error,
+    code: denial.code,
+    ...(denial.code === 'password_required' ? { requiresPassword: true } : {}),
+  });
+}
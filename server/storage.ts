@@ -1,53 +1,284 @@
 import { 
   users, 
+  sessions,
+  userIdentities,
+  apiKeys,
+  emailTokens,
+  twoFactorAuth,
+  recoveryCodes,
   profiles,
+  folders,
+  fileRequests,
   files,
+  fileVersions,
+  blobs,
+  bundles,
+  bundleFiles,
   sharedLinks,
   downloadLogs,
+  uploadSessions,
+  uploadChunks,
+  scheduledJobs,
+  accessAttempts,
+  shareSecurityEvents,
+  rateLimitCounters,
   type User, 
   type InsertUser,
+  type Session,
+  type InsertSession,
+  type UserIdentity,
+  type InsertUserIdentity,
+  type ApiKey,
+  type InsertApiKey,
+  type EmailToken,
+  type InsertEmailToken,
+  type TwoFactorAuth,
+  type RecoveryCode,
   type Profile,
   type InsertProfile,
+  type Folder,
+  type InsertFolder,
+  type FileRequest,
+  type InsertFileRequest,
   type File,
   type InsertFile,
+  type FileVersion,
+  type InsertFileVersion,
+  type StoredBlob,
+  type InsertBlob,
+  type Bundle,
+  type InsertBundle,
   type SharedLink,
   type InsertSharedLink,
   type DownloadLog,
-  type InsertDownloadLog
+  type InsertDownloadLog,
+  type UploadSession,
+  type InsertUploadSession,
+  type UploadChunk,
+  type InsertUploadChunk,
+  type ScheduledJob,
+  type AccessAttempt,
+  type ShareSecurityEvent,
+  type InsertShareSecurityEvent,
+  type RateLimitCounter
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, asc, desc, gte, lt, lte, inArray, isNull, isNotNull, sql } from "drizzle-orm";
 import bcrypt from "bcrypt";
+import { randomInt } from "crypto";
+
+// Share codes are the only secret protecting a public file, so they come
+// from the CSPRNG; SHARE_CODE_LENGTH makes them longer
+const SHARE_CODE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const SHARE_CODE_LENGTH = Math.max(Number(process.env.SHARE_CODE_LENGTH) || 8, 6);
+
+function randomShareCode(): string {
+  let result = '';
+  for (let i = 0; i < SHARE_CODE_LENGTH; i++) {
+    result += SHARE_CODE_ALPHABET[randomInt(SHARE_CODE_ALPHABET.length)];
+  }
+  return result;
+}
+
+export interface RecentDownloadQuery {
+  fileId: string;
+  sharedLinkId: string | null;
+  downloaderIp: string | null;
+  downloaderUserAgent: string | null;
+  downloadMethod?: string; // any method when omitted
+  since: Date;
+}
+
+export interface SessionRotation {
+  refreshTokenHash: string;
+  rotatedAt: Date;
+  expiresAt: Date;
+  lastSeenAt: Date;
+  ipAddress: string | null;
+  userAgent: string | null;
+}
+
+export interface ScheduledJobOutcome {
+  nextRunAt: Date;
+  lastStatus: 'succeeded' | 'failed';
+  lastResult: string | null;
+}
+
+export interface FolderListing {
+  folder: Folder | null; // null for the root
+  breadcrumbs: Folder[]; // root first, ending with `folder`
+  folders: Folder[];
+  files: File[];
+}
 
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  markEmailVerified(userId: string, now: Date): Promise<void>;
+  updateUserPassword(userId: string, passwordHash: string): Promise<void>;
+  
+  // Linked identity operations
+  getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined>;
+  getUserIdentities(userId: string): Promise<UserIdentity[]>;
+  createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity>;
+  touchUserIdentity(id: string, email: string | null, now: Date): Promise<void>;
+  deleteUserIdentity(id: string): Promise<void>;
+  
+  // API key operations
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  getUserApiKeys(userId: string): Promise<ApiKey[]>;
+  touchApiKey(id: string, now: Date): Promise<void>;
+  deleteApiKey(id: string): Promise<void>;
+  
+  // Email token operations
+  createEmailToken(token: InsertEmailToken): Promise<EmailToken>;
+  consumeEmailToken(tokenHash: string, purpose: string, now: Date): Promise<EmailToken | undefined>;
+  supersedeEmailTokens(userId: string, purpose: string, now: Date): Promise<void>;
+  deleteExpiredEmailTokens(before: Date): Promise<number>;
+  
+  // Session operations
+  createSession(session: InsertSession): Promise<Session>;
+  getSession(id: string): Promise<Session | undefined>;
+  getSessionByRefreshToken(tokenHash: string): Promise<Session | undefined>;
+  getSessionByPreviousToken(tokenHash: string): Promise<Session | undefined>;
+  rotateSessionToken(id: string, currentHash: string, update: SessionRotation): Promise<Session | undefined>;
+  touchSession(id: string, lastSeenAt: Date): Promise<void>;
+  getActiveUserSessions(userId: string, now: Date): Promise<Session[]>;
+  revokeSession(id: string, now: Date): Promise<void>;
+  revokeUserSessions(userId: string, now: Date): Promise<number>;
+  deleteExpiredSessions(before: Date): Promise<number>;
+  
+  // Two-factor operations
+  getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | undefined>;
+  setPendingTotpSecret(userId: string, secret: string): Promise<void>;
+  enableTwoFactorAuth(userId: string, secret: string, step: number, now: Date): Promise<boolean>;
+  claimTotpStep(userId: string, step: number): Promise<boolean>;
+  deleteTwoFactorAuth(userId: string): Promise<void>;
+  replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void>;
+  useRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean>;
+  countRecoveryCodes(userId: string): Promise<number>;
   
   // Profile operations
   getProfile(userId: string): Promise<Profile | undefined>;
   createProfile(profile: InsertProfile): Promise<Profile>;
   updateProfile(userId: string, profile: Partial<InsertProfile>): Promise<Profile | undefined>;
+  resetDailyUploadCounts(today: string): Promise<number>;
   
-  // File operations
+  // Folder operations
+  getFolder(id: string): Promise<Folder | undefined>;
+  createFolder(folder: InsertFolder): Promise<Folder>;
+  updateFolder(id: string, folder: Partial<InsertFolder>): Promise<Folder | undefined>;
+  deleteFolder(id: string): Promise<boolean>;
+  renameFolder(id: string, name: string): Promise<Folder | undefined>;
+  moveFolder(id: string, parentId: string | null): Promise<Folder | undefined>;
+  getFolderPath(folderId: string): Promise<Folder[]>;
+  getFolderContents(userId: string, folderId: string | null): Promise<FolderListing>;
+  
+  // File operations; files in the trash are left out of all of these
   getFile(id: string): Promise<File | undefined>;
   getFileByShareCode(shareCode: string): Promise<File | undefined>;
   getUserFiles(userId: string): Promise<File[]>;
+  getFilesByScanStatus(scanStatus: string): Promise<File[]>;
+  getExpiredFiles(now: Date): Promise<File[]>;
   createFile(file: InsertFile): Promise<File>;
   updateFile(id: string, file: Partial<InsertFile>): Promise<File | undefined>;
   deleteFile(id: string): Promise<boolean>;
+  renameFile(id: string, name: string): Promise<File | undefined>;
+  moveFile(id: string, folderId: string | null): Promise<File | undefined>;
+  // Download counting is a single conditional increment, so concurrent
+  // requests can't overshoot a limit; false when the limit is used up
+  claimFileDownload(id: string): Promise<boolean>;
+  incrementFileDownloadCount(id: string): Promise<void>;
+  
+  // Trash operations
+  getTrashedFile(id: string): Promise<File | undefined>;
+  getTrashedFiles(userId: string): Promise<File[]>;
+  getFilesTrashedBefore(cutoff: Date): Promise<File[]>;
+  
+  // File request operations
+  getFileRequest(id: string): Promise<FileRequest | undefined>;
+  getFileRequestByToken(token: string): Promise<FileRequest | undefined>;
+  getUserFileRequests(userId: string): Promise<FileRequest[]>;
+  createFileRequest(request: InsertFileRequest): Promise<FileRequest>;
+  updateFileRequest(id: string, request: Partial<InsertFileRequest>): Promise<FileRequest | undefined>;
+  deleteFileRequest(id: string): Promise<boolean>;
+  
+  // File version operations
+  getFileVersion(id: string): Promise<FileVersion | undefined>;
+  getFileVersions(fileId: string): Promise<FileVersion[]>;
+  createFileVersion(version: InsertFileVersion): Promise<FileVersion>;
+  updateFileVersion(id: string, version: Partial<InsertFileVersion>): Promise<FileVersion | undefined>;
+  getFileVersionsByScanStatus(scanStatus: string): Promise<FileVersion[]>;
+  
+  // Content-addressed blob operations
+  // acquireBlob and releaseBlob lock the blob's storage path for their whole
+  // run, including the callback that moves or deletes its bytes
+  getBlob(hash: string): Promise<StoredBlob | undefined>;
+  // Take a reference on the blob, or create it: `store` puts the bytes in
+  // place first, so the row never points at a path that isn't written yet
+  acquireBlob(blob: InsertBlob, store: () => Promise<void>): Promise<StoredBlob>;
+  updateBlob(hash: string, blob: Partial<InsertBlob>): Promise<StoredBlob | undefined>;
+  // Drop a reference; after the last, `remove` deletes the bytes and then the
+  // row goes. Undefined when no blob has this path.
+  releaseBlob(storagePath: string, remove: (blob: StoredBlob) => Promise<void>): Promise<StoredBlob | undefined>;
+  
+  // Bundle operations
+  getBundle(id: string): Promise<Bundle | undefined>;
+  getUserBundles(userId: string): Promise<Bundle[]>;
+  createBundle(bundle: InsertBundle): Promise<Bundle>;
+  updateBundle(id: string, bundle: Partial<InsertBundle>): Promise<Bundle | undefined>;
+  deleteBundle(id: string): Promise<boolean>;
+  getBundleFiles(bundleId: string): Promise<File[]>;
+  setBundleFiles(bundleId: string, fileIds: string[]): Promise<void>;
   
   // Shared link operations
   getSharedLink(token: string): Promise<SharedLink | undefined>;
+  getSharedLinkById(id: string): Promise<SharedLink | undefined>;
   getFileSharedLinks(fileId: string): Promise<SharedLink[]>;
   createSharedLink(link: InsertSharedLink): Promise<SharedLink>;
   updateSharedLink(id: string, link: Partial<InsertSharedLink>): Promise<SharedLink | undefined>;
   deleteSharedLink(id: string): Promise<boolean>;
+  claimSharedLinkDownload(id: string): Promise<boolean>;
   
   // Download log operations
   createDownloadLog(log: InsertDownloadLog): Promise<DownloadLog>;
   getFileDownloadLogs(fileId: string): Promise<DownloadLog[]>;
+  findRecentDownloadLog(query: RecentDownloadQuery): Promise<DownloadLog | undefined>;
+  anonymizeDownloadLogs(fileId: string, userId: string): Promise<void>;
+  
+  // Upload session operations
+  getUploadSession(id: string): Promise<UploadSession | undefined>;
+  createUploadSession(session: InsertUploadSession): Promise<UploadSession>;
+  updateUploadSession(id: string, session: Partial<InsertUploadSession>): Promise<UploadSession | undefined>;
+  // Move a pending, unexpired session to 'finalizing'; false if another
+  // request already did, or it expired
+  claimUploadSession(id: string, now: Date): Promise<boolean>;
+  deleteUploadSession(id: string): Promise<boolean>;
+  getUploadChunks(sessionId: string): Promise<UploadChunk[]>;
+  saveUploadChunk(chunk: InsertUploadChunk): Promise<UploadChunk>;
+  getExpiredUploadSessions(now: Date): Promise<UploadSession[]>;
+  
+  // Scheduled job operations
+  getScheduledJobs(): Promise<ScheduledJob[]>;
+  ensureScheduledJob(name: string, nextRunAt: Date): Promise<void>;
+  claimScheduledJob(name: string, lockedBy: string, now: Date, lockedUntil: Date): Promise<ScheduledJob | undefined>;
+  finishScheduledJob(name: string, lockedBy: string, outcome: ScheduledJobOutcome): Promise<ScheduledJob | undefined>;
+  
+  // Brute-force tracking operations
+  getAccessAttempts(keys: string[]): Promise<AccessAttempt[]>;
+  recordFailedAccessAttempt(key: string, now: Date, forgetBefore: Date): Promise<AccessAttempt>;
+  lockAccessAttempt(key: string, lockedUntil: Date): Promise<void>;
+  clearAccessAttempt(key: string): Promise<void>;
+  deleteStaleAccessAttempts(before: Date): Promise<number>;
+  createShareSecurityEvent(event: InsertShareSecurityEvent): Promise<ShareSecurityEvent>;
+  getUserShareSecurityEvents(userId: string, limit: number): Promise<ShareSecurityEvent[]>;
+  
+  // Rate limit counter operations
+  hitRateLimitCounter(key: string, now: Date, resetAt: Date): Promise<RateLimitCounter>;
+  deleteExpiredRateLimitCounters(now: Date): Promise<number>;
   
   // Utility functions
   generateShareCode(): string;
@@ -57,19 +288,58 @@ export interface IStorage {
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private sessions: Map<string, Session>;
+  private userIdentities: Map<string, UserIdentity>;
+  private apiKeys: Map<string, ApiKey>;
+  private emailTokens: Map<string, EmailToken>;
+  private twoFactorAuth: Map<string, TwoFactorAuth>;
+  private recoveryCodes: Map<string, RecoveryCode>;
   private profiles: Map<string, Profile>;
+  private folders: Map<string, Folder>;
+  private fileRequests: Map<string, FileRequest>;
   private files: Map<string, File>;
+  private fileVersions: Map<string, FileVersion>;
+  private blobs: Map<string, StoredBlob>;
+  private bundles: Map<string, Bundle>;
+  private bundleFileIds: Map<string, string[]>;
   private sharedLinks: Map<string, SharedLink>;
   private downloadLogs: Map<string, DownloadLog>;
+  private uploadSessions: Map<string, UploadSession>;
+  private uploadChunks: Map<string, UploadChunk>;
+  private scheduledJobs: Map<string, ScheduledJob>;
+  private accessAttempts: Map<string, AccessAttempt>;
+  private shareSecurityEvents: Map<string, ShareSecurityEvent>;
+  private rateLimitCounters: Map<string, RateLimitCounter>;
   private shareCodeToFileId: Map<string, string>;
   private shareTokenToLinkId: Map<string, string>;
+  // Tail of the queued operations on each blob storage path
+  private blobLocks: Map<string, Promise<unknown>>;
 
   constructor() {
     this.users = new Map();
+    this.sessions = new Map();
+    this.userIdentities = new Map();
+    this.apiKeys = new Map();
+    this.emailTokens = new Map();
+    this.twoFactorAuth = new Map();
+    this.recoveryCodes = new Map();
     this.profiles = new Map();
+    this.folders = new Map();
+    this.fileRequests = new Map();
     this.files = new Map();
+    this.fileVersions = new Map();
+    this.blobs = new Map();
+    this.blobLocks = new Map();
+    this.bundles = new Map();
+    this.bundleFileIds = new Map();
     this.sharedLinks = new Map();
     this.downloadLogs = new Map();
+    this.uploadSessions = new Map();
+    this.uploadChunks = new Map();
+    this.scheduledJobs = new Map();
+    this.accessAttempts = new Map();
+    this.shareSecurityEvents = new Map();
+    this.rateLimitCounters = new Map();
     this.shareCodeToFileId = new Map();
     this.shareTokenToLinkId = new Map();
   }
@@ -88,12 +358,281 @@ export class MemStorage implements IStorage {
     const user: User = { 
       ...insertUser, 
       id,
+      emailVerifiedAt: insertUser.emailVerifiedAt === undefined ? new Date() : insertUser.emailVerifiedAt,
       createdAt: new Date(),
     };
     this.users.set(id, user);
     return user;
   }
 
+  async markEmailVerified(userId: string, now: Date): Promise<void> {
+    const user = this.users.get(userId);
+    if (user && !user.emailVerifiedAt) {
+      this.users.set(userId, { ...user, emailVerifiedAt: now });
+    }
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+    const user = this.users.get(userId);
+    if (user) {
+      this.users.set(userId, { ...user, password: passwordHash });
+    }
+  }
+
+  // Linked identity operations
+  async getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    return Array.from(this.userIdentities.values())
+      .find(identity => identity.provider === provider && identity.subject === subject);
+  }
+
+  async getUserIdentities(userId: string): Promise<UserIdentity[]> {
+    return Array.from(this.userIdentities.values())
+      .filter(identity => identity.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createUserIdentity(insertIdentity: InsertUserIdentity): Promise<UserIdentity> {
+    const id = crypto.randomUUID();
+    const identity: UserIdentity = {
+      ...insertIdentity,
+      id,
+      email: insertIdentity.email ?? null,
+      lastUsedAt: insertIdentity.lastUsedAt ?? new Date(),
+      createdAt: new Date(),
+    };
+    this.userIdentities.set(id, identity);
+    return identity;
+  }
+
+  async touchUserIdentity(id: string, email: string | null, now: Date): Promise<void> {
+    const identity = this.userIdentities.get(id);
+    if (identity) {
+      this.userIdentities.set(id, { ...identity, email, lastUsedAt: now });
+    }
+  }
+
+  async deleteUserIdentity(id: string): Promise<void> {
+    this.userIdentities.delete(id);
+  }
+
+  // API key operations
+  async createApiKey(insertApiKey: InsertApiKey): Promise<ApiKey> {
+    const id = crypto.randomUUID();
+    const apiKey: ApiKey = {
+      ...insertApiKey,
+      id,
+      expiresAt: insertApiKey.expiresAt ?? null,
+      lastUsedAt: insertApiKey.lastUsedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.apiKeys.set(id, apiKey);
+    return apiKey;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    return Array.from(this.apiKeys.values()).find(apiKey => apiKey.keyHash === keyHash);
+  }
+
+  async getUserApiKeys(userId: string): Promise<ApiKey[]> {
+    return Array.from(this.apiKeys.values())
+      .filter(apiKey => apiKey.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async touchApiKey(id: string, now: Date): Promise<void> {
+    const apiKey = this.apiKeys.get(id);
+    if (apiKey) {
+      this.apiKeys.set(id, { ...apiKey, lastUsedAt: now });
+    }
+  }
+
+  async deleteApiKey(id: string): Promise<void> {
+    this.apiKeys.delete(id);
+  }
+
+  // Email token operations
+  async createEmailToken(insertToken: InsertEmailToken): Promise<EmailToken> {
+    const id = crypto.randomUUID();
+    const token: EmailToken = {
+      ...insertToken,
+      id,
+      usedAt: insertToken.usedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.emailTokens.set(id, token);
+    return token;
+  }
+
+  async consumeEmailToken(tokenHash: string, purpose: string, now: Date): Promise<EmailToken | undefined> {
+    const token = Array.from(this.emailTokens.values()).find(token => token.tokenHash === tokenHash);
+    if (!token || token.purpose !== purpose || token.usedAt || token.expiresAt <= now) return undefined;
+
+    const used: EmailToken = { ...token, usedAt: now };
+    this.emailTokens.set(token.id, used);
+    return used;
+  }
+
+  async supersedeEmailTokens(userId: string, purpose: string, now: Date): Promise<void> {
+    for (const token of Array.from(this.emailTokens.values())) {
+      if (token.userId === userId && token.purpose === purpose && !token.usedAt) {
+        this.emailTokens.set(token.id, { ...token, usedAt: now });
+      }
+    }
+  }
+
+  async deleteExpiredEmailTokens(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const token of Array.from(this.emailTokens.values())) {
+      if (token.expiresAt < before) {
+        this.emailTokens.delete(token.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Session operations
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const id = crypto.randomUUID();
+    const session: Session = {
+      ...insertSession,
+      id,
+      previousTokenHash: insertSession.previousTokenHash ?? null,
+      rotatedAt: insertSession.rotatedAt ?? null,
+      userAgent: insertSession.userAgent ?? null,
+      ipAddress: insertSession.ipAddress ?? null,
+      lastSeenAt: insertSession.lastSeenAt ?? new Date(),
+      revokedAt: insertSession.revokedAt ?? null,
+      createdAt: new Date(),
+    };
+    this.sessions.set(id, session);
+    return session;
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    return this.sessions.get(id);
+  }
+
+  async getSessionByRefreshToken(tokenHash: string): Promise<Session | undefined> {
+    return Array.from(this.sessions.values()).find(session => session.refreshTokenHash === tokenHash);
+  }
+
+  async getSessionByPreviousToken(tokenHash: string): Promise<Session | undefined> {
+    return Array.from(this.sessions.values()).find(session => session.previousTokenHash === tokenHash);
+  }
+
+  async rotateSessionToken(id: string, currentHash: string, update: SessionRotation): Promise<Session | undefined> {
+    const session = this.sessions.get(id);
+    if (!session || session.refreshTokenHash !== currentHash || session.revokedAt) return undefined;
+
+    const rotated: Session = { ...session, ...update, previousTokenHash: currentHash };
+    this.sessions.set(id, rotated);
+    return rotated;
+  }
+
+  async touchSession(id: string, lastSeenAt: Date): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session) {
+      this.sessions.set(id, { ...session, lastSeenAt });
+    }
+  }
+
+  async getActiveUserSessions(userId: string, now: Date): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && !session.revokedAt && session.expiresAt > now)
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+  }
+
+  async revokeSession(id: string, now: Date): Promise<void> {
+    const session = this.sessions.get(id);
+    if (session && !session.revokedAt) {
+      this.sessions.set(id, { ...session, revokedAt: now });
+    }
+  }
+
+  async revokeUserSessions(userId: string, now: Date): Promise<number> {
+    let revoked = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.userId === userId && !session.revokedAt) {
+        this.sessions.set(session.id, { ...session, revokedAt: now });
+        revoked++;
+      }
+    }
+    return revoked;
+  }
+
+  async deleteExpiredSessions(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.expiresAt < before || (session.revokedAt && session.revokedAt < before)) {
+        this.sessions.delete(session.id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Two-factor operations
+  async getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | undefined> {
+    return this.twoFactorAuth.get(userId);
+  }
+
+  async setPendingTotpSecret(userId: string, secret: string): Promise<void> {
+    const existing = this.twoFactorAuth.get(userId);
+    this.twoFactorAuth.set(userId, {
+      userId,
+      secret: existing?.secret ?? null,
+      pendingSecret: secret,
+      enabledAt: existing?.enabledAt ?? null,
+      lastUsedStep: existing?.lastUsedStep ?? null,
+      updatedAt: new Date(),
+    });
+  }
+
+  async enableTwoFactorAuth(userId: string, secret: string, step: number, now: Date): Promise<boolean> {
+    const existing = this.twoFactorAuth.get(userId);
+    if (!existing || existing.pendingSecret !== secret) return false;
+
+    this.twoFactorAuth.set(userId, { ...existing, secret, pendingSecret: null, enabledAt: now, lastUsedStep: step, updatedAt: now });
+    return true;
+  }
+
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const existing = this.twoFactorAuth.get(userId);
+    if (!existing || (existing.lastUsedStep !== null && existing.lastUsedStep >= step)) return false;
+
+    this.twoFactorAuth.set(userId, { ...existing, lastUsedStep: step });
+    return true;
+  }
+
+  async deleteTwoFactorAuth(userId: string): Promise<void> {
+    this.twoFactorAuth.delete(userId);
+    await this.replaceRecoveryCodes(userId, []);
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    for (const code of Array.from(this.recoveryCodes.values())) {
+      if (code.userId === userId) this.recoveryCodes.delete(code.id);
+    }
+    for (const codeHash of codeHashes) {
+      const id = crypto.randomUUID();
+      this.recoveryCodes.set(id, { id, userId, codeHash, usedAt: null, createdAt: new Date() });
+    }
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean> {
+    const code = Array.from(this.recoveryCodes.values())
+      .find(code => code.userId === userId && code.codeHash === codeHash && !code.usedAt);
+    if (!code) return false;
+
+    this.recoveryCodes.set(code.id, { ...code, usedAt: now });
+    return true;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    return Array.from(this.recoveryCodes.values()).filter(code => code.userId === userId && !code.usedAt).length;
+  }
+
   // Profile operations
   async getProfile(userId: string): Promise<Profile | undefined> {
     return this.profiles.get(userId);
@@ -126,19 +665,122 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
+  async resetDailyUploadCounts(today: string): Promise<number> {
+    let reset = 0;
+    for (const profile of Array.from(this.profiles.values())) {
+      if (!profile.lastUploadReset || profile.lastUploadReset < today) {
+        this.profiles.set(profile.id, { ...profile, dailyUploadCount: 0, lastUploadReset: today, updatedAt: new Date() });
+        reset++;
+      }
+    }
+    return reset;
+  }
+
+  // Folder operations
+  async getFolder(id: string): Promise<Folder | undefined> {
+    return this.folders.get(id);
+  }
+
+  async createFolder(insertFolder: InsertFolder): Promise<Folder> {
+    const id = crypto.randomUUID();
+    const folder: Folder = {
+      ...insertFolder,
+      id,
+      parentId: insertFolder.parentId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.folders.set(id, folder);
+    return folder;
+  }
+
+  async updateFolder(id: string, folderUpdate: Partial<InsertFolder>): Promise<Folder | undefined> {
+    const existing = this.folders.get(id);
+    if (!existing) return undefined;
+
+    const updated: Folder = {
+      ...existing,
+      ...folderUpdate,
+      updatedAt: new Date(),
+    };
+    this.folders.set(id, updated);
+    return updated;
+  }
+
+  async deleteFolder(id: string): Promise<boolean> {
+    if (!this.folders.has(id)) return false;
+
+    // Mirror the database cascade: sub-folders and their files go too
+    const children = Array.from(this.folders.values()).filter(folder => folder.parentId === id);
+    for (const child of children) {
+      await this.deleteFolder(child.id);
+    }
+    const filesToDelete = Array.from(this.files.values()).filter(file => file.folderId === id);
+    for (const file of filesToDelete) {
+      await this.deleteFile(file.id);
+    }
+
+    this.folders.delete(id);
+    return true;
+  }
+
+  async renameFolder(id: string, name: string): Promise<Folder | undefined> {
+    return this.updateFolder(id, { name });
+  }
+
+  async moveFolder(id: string, parentId: string | null): Promise<Folder | undefined> {
+    return this.updateFolder(id, { parentId });
+  }
+
+  async getFolderPath(folderId: string): Promise<Folder[]> {
+    const path: Folder[] = [];
+    let current = this.folders.get(folderId);
+    while (current) {
+      path.unshift(current);
+      current = current.parentId ? this.folders.get(current.parentId) : undefined;
+    }
+    return path;
+  }
+
+  async getFolderContents(userId: string, folderId: string | null): Promise<FolderListing> {
+    const folder = folderId ? this.folders.get(folderId) ?? null : null;
+    return {
+      folder,
+      breadcrumbs: folderId ? await this.getFolderPath(folderId) : [],
+      folders: Array.from(this.folders.values())
+        .filter(f => f.userId === userId && f.parentId === folderId)
+        .sort((a, b) => a.name.localeCompare(b.name)),
+      files: Array.from(this.files.values())
+        .filter(f => f.userId === userId && f.folderId === folderId && !f.deletedAt)
+        .sort((a, b) => a.originalName.localeCompare(b.originalName)),
+    };
+  }
+
   // File operations
   async getFile(id: string): Promise<File | undefined> {
-    return this.files.get(id);
+    const file = this.files.get(id);
+    return file?.deletedAt ? undefined : file;
   }
 
   async getFileByShareCode(shareCode: string): Promise<File | undefined> {
     const fileId = this.shareCodeToFileId.get(shareCode);
     if (!fileId) return undefined;
-    return this.files.get(fileId);
+    return this.getFile(fileId);
   }
 
   async getUserFiles(userId: string): Promise<File[]> {
-    return Array.from(this.files.values()).filter(file => file.userId === userId);
+    return Array.from(this.files.values()).filter(file => file.userId === userId && !file.deletedAt);
+  }
+
+  async getFilesByScanStatus(scanStatus: string): Promise<File[]> {
+    return Array.from(this.files.values()).filter(file => file.scanStatus === scanStatus && !file.deletedAt);
+  }
+
+  async getExpiredFiles(now: Date): Promise<File[]> {
+    return Array.from(this.files.values()).filter(file => !file.deletedAt && (
+      (!!file.expiresAt && file.expiresAt <= now) ||
+      (file.downloadLimit !== null && file.downloadCount >= file.downloadLimit)
+    ));
   }
 
   async createFile(insertFile: InsertFile): Promise<File> {
@@ -146,9 +788,24 @@ export class MemStorage implements IStorage {
     const file: File = {
       ...insertFile,
       id,
+      folderId: insertFile.folderId ?? null,
+      contentHash: insertFile.contentHash ?? null,
+      isEncrypted: insertFile.isEncrypted ?? false,
+      wrappedKey: insertFile.wrappedKey ?? null,
+      scanStatus: insertFile.scanStatus ?? 'pending_scan',
+      scanResult: insertFile.scanResult ?? null,
       shareCode: insertFile.shareCode ?? null,
+      isPublic: insertFile.isPublic ?? false,
+      isLocked: insertFile.isLocked ?? false,
+      passwordHash: insertFile.passwordHash ?? null,
       downloadLimit: insertFile.downloadLimit ?? null,
+      downloadCount: insertFile.downloadCount ?? 0,
       expiresAt: insertFile.expiresAt ?? null,
+      currentVersion: insertFile.currentVersion ?? 1,
+      fileRequestId: insertFile.fileRequestId ?? null,
+      uploaderName: insertFile.uploaderName ?? null,
+      uploaderEmail: insertFile.uploaderEmail ?? null,
+      deletedAt: insertFile.deletedAt ?? null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
@@ -201,132 +858,857 @@ export class MemStorage implements IStorage {
       this.shareTokenToLinkId.delete(link.shareToken);
     }
     
-    // Delete associated download logs
-    const logsToDelete = Array.from(this.downloadLogs.values())
-      .filter(log => log.fileId === id);
-    for (const log of logsToDelete) {
-      this.downloadLogs.delete(log.id);
+    // Delete associated versions
+    const versionsToDelete = Array.from(this.fileVersions.values())
+      .filter(version => version.fileId === id);
+    for (const version of versionsToDelete) {
+      this.fileVersions.delete(version.id);
+    }
+    
+    // Download logs outlive the file, like the database's set null
+    for (const log of Array.from(this.downloadLogs.values())) {
+      if (log.fileId === id) {
+        this.downloadLogs.set(log.id, { ...log, fileId: null });
+      }
     }
     
     this.files.delete(id);
     return true;
   }
 
-  // Shared link operations
-  async getSharedLink(token: string): Promise<SharedLink | undefined> {
-    const linkId = this.shareTokenToLinkId.get(token);
-    if (!linkId) return undefined;
-    return this.sharedLinks.get(linkId);
+  async renameFile(id: string, name: string): Promise<File | undefined> {
+    return this.updateFile(id, { originalName: name });
   }
 
-  async getFileSharedLinks(fileId: string): Promise<SharedLink[]> {
-    return Array.from(this.sharedLinks.values()).filter(link => link.fileId === fileId);
+  async moveFile(id: string, folderId: string | null): Promise<File | undefined> {
+    return this.updateFile(id, { folderId });
   }
 
-  async createSharedLink(insertLink: InsertSharedLink): Promise<SharedLink> {
-    const id = crypto.randomUUID();
-    const link: SharedLink = {
-      ...insertLink,
-      id,
-      recipientEmail: insertLink.recipientEmail ?? null,
-      passwordHash: insertLink.passwordHash ?? null,
-      expiresAt: insertLink.expiresAt ?? null,
-      downloadLimit: insertLink.downloadLimit ?? null,
-      createdAt: new Date(),
-    };
-    
-    this.sharedLinks.set(id, link);
-    this.shareTokenToLinkId.set(link.shareToken, id);
-    
-    return link;
+  // Check and increment without awaiting in between, so no other request
+  // can interleave
+  async claimFileDownload(id: string): Promise<boolean> {
+    const file = this.files.get(id);
+    if (!file || (file.downloadLimit !== null && file.downloadCount >= file.downloadLimit)) return false;
+
+    this.files.set(id, { ...file, downloadCount: file.downloadCount + 1, updatedAt: new Date() });
+    return true;
   }
 
-  async updateSharedLink(id: string, linkUpdate: Partial<InsertSharedLink>): Promise<SharedLink | undefined> {
-    const existing = this.sharedLinks.get(id);
-    if (!existing) return undefined;
-    
-    // Update token mapping if changed
-    if (linkUpdate.shareToken && linkUpdate.shareToken !== existing.shareToken) {
-      this.shareTokenToLinkId.delete(existing.shareToken);
-      this.shareTokenToLinkId.set(linkUpdate.shareToken, id);
+  async incrementFileDownloadCount(id: string): Promise<void> {
+    const file = this.files.get(id);
+    if (file) {
+      this.files.set(id, { ...file, downloadCount: file.downloadCount + 1, updatedAt: new Date() });
     }
-    
-    const updated: SharedLink = {
-      ...existing,
-      ...linkUpdate,
-    };
-    
-    this.sharedLinks.set(id, updated);
-    return updated;
   }
 
-  async deleteSharedLink(id: string): Promise<boolean> {
-    const link = this.sharedLinks.get(id);
-    if (!link) return false;
-    
-    this.shareTokenToLinkId.delete(link.shareToken);
-    this.sharedLinks.delete(id);
-    return true;
+  // Trash operations
+  async getTrashedFile(id: string): Promise<File | undefined> {
+    const file = this.files.get(id);
+    return file?.deletedAt ? file : undefined;
   }
 
-  // Download log operations
-  async createDownloadLog(insertLog: InsertDownloadLog): Promise<DownloadLog> {
-    const id = crypto.randomUUID();
-    const log: DownloadLog = {
-      ...insertLog,
-      id,
-      sharedLinkId: insertLog.sharedLinkId ?? null,
-      downloaderIp: insertLog.downloaderIp ?? null,
-      downloaderUserAgent: insertLog.downloaderUserAgent ?? null,
-      downloadedAt: new Date(),
-    };
-    
-    this.downloadLogs.set(id, log);
-    return log;
+  async getTrashedFiles(userId: string): Promise<File[]> {
+    return Array.from(this.files.values())
+      .filter(file => file.userId === userId && !!file.deletedAt)
+      .sort((a, b) => b.deletedAt!.getTime() - a.deletedAt!.getTime());
   }
 
-  async getFileDownloadLogs(fileId: string): Promise<DownloadLog[]> {
-    return Array.from(this.downloadLogs.values()).filter(log => log.fileId === fileId);
+  async getFilesTrashedBefore(cutoff: Date): Promise<File[]> {
+    return Array.from(this.files.values()).filter(file => !!file.deletedAt && file.deletedAt <= cutoff);
   }
 
-  // Utility functions
-  generateShareCode(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 8; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
+  // File request operations
+  async getFileRequest(id: string): Promise<FileRequest | undefined> {
+    return this.fileRequests.get(id);
   }
 
-  hashPassword(password: string): string {
-    // Simple hash for demo - in production use bcrypt or similar
-    return btoa(password + 'salt');
+  async getFileRequestByToken(token: string): Promise<FileRequest | undefined> {
+    return Array.from(this.fileRequests.values()).find(request => request.token === token);
   }
 
-  validatePassword(password: string, hash: string): boolean {
-    return this.hashPassword(password) === hash;
+  async getUserFileRequests(userId: string): Promise<FileRequest[]> {
+    return Array.from(this.fileRequests.values())
+      .filter(request => request.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
-}
 
-export class DatabaseStorage implements IStorage {
-  
+  async createFileRequest(insertRequest: InsertFileRequest): Promise<FileRequest> {
+    const id = crypto.randomUUID();
+    const request: FileRequest = {
+      ...insertRequest,
+      id,
+      folderId: insertRequest.folderId ?? null,
+      description: insertRequest.description ?? null,
+      maxFileSize: insertRequest.maxFileSize ?? null,
+      allowedFileTypes: insertRequest.allowedFileTypes ?? null,
+      expiresAt: insertRequest.expiresAt ?? null,
+      isActive: insertRequest.isActive ?? true,
+      uploadCount: insertRequest.uploadCount ?? 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.fileRequests.set(id, request);
+    return request;
+  }
+
+  async updateFileRequest(id: string, requestUpdate: Partial<InsertFileRequest>): Promise<FileRequest | undefined> {
+    const existing = this.fileRequests.get(id);
+    if (!existing) return undefined;
+
+    const updated: FileRequest = {
+      ...existing,
+      ...requestUpdate,
+      updatedAt: new Date(),
+    };
+    this.fileRequests.set(id, updated);
+    return updated;
+  }
+
+  async deleteFileRequest(id: string): Promise<boolean> {
+    // Received files stay; they just lose the link to the request
+    for (const file of Array.from(this.files.values())) {
+      if (file.fileRequestId === id) {
+        this.files.set(file.id, { ...file, fileRequestId: null });
+      }
+    }
+    return this.fileRequests.delete(id);
+  }
+
+  // File version operations
+  async getFileVersion(id: string): Promise<FileVersion | undefined> {
+    return this.fileVersions.get(id);
+  }
+
+  async getFileVersionsByScanStatus(scanStatus: string): Promise<FileVersion[]> {
+    return Array.from(this.fileVersions.values()).filter(version => version.scanStatus === scanStatus);
+  }
+
+  async getFileVersions(fileId: string): Promise<FileVersion[]> {
+    return Array.from(this.fileVersions.values())
+      .filter(version => version.fileId === fileId)
+      .sort((a, b) => b.versionNumber - a.versionNumber);
+  }
+
+  async createFileVersion(insertVersion: InsertFileVersion): Promise<FileVersion> {
+    const id = crypto.randomUUID();
+    const version: FileVersion = {
+      ...insertVersion,
+      id,
+      contentHash: insertVersion.contentHash ?? null,
+      wrappedKey: insertVersion.wrappedKey ?? null,
+      scanStatus: insertVersion.scanStatus ?? 'pending_scan',
+      scanResult: insertVersion.scanResult ?? null,
+      createdAt: new Date(),
+    };
+    this.fileVersions.set(id, version);
+    return version;
+  }
+
+  async updateFileVersion(id: string, versionUpdate: Partial<InsertFileVersion>): Promise<FileVersion | undefined> {
+    const existing = this.fileVersions.get(id);
+    if (!existing) return undefined;
+
+    const updated: FileVersion = { ...existing, ...versionUpdate };
+    this.fileVersions.set(id, updated);
+    return updated;
+  }
+
+  // Content-addressed blob operations
+  async getBlob(hash: string): Promise<StoredBlob | undefined> {
+    return this.blobs.get(hash);
+  }
+
+  // Run one blob operation at a time per storage path
+  private async withBlobLock<T>(storagePath: string, operation: () => Promise<T>): Promise<T> {
+    const previous = this.blobLocks.get(storagePath) ?? Promise.resolve();
+    const result = previous.catch(() => undefined).then(operation);
+    const tail = result.catch(() => undefined);
+    this.blobLocks.set(storagePath, tail);
+    tail.then(() => {
+      if (this.blobLocks.get(storagePath) === tail) this.blobLocks.delete(storagePath);
+    });
+    return result;
+  }
+
+  async acquireBlob(insertBlob: InsertBlob, store: () => Promise<void>): Promise<StoredBlob> {
+    return this.withBlobLock(insertBlob.storagePath, async () => {
+      const existing = this.blobs.get(insertBlob.hash);
+      if (existing) {
+        existing.refCount += 1;
+        return existing;
+      }
+
+      await store();
+      const blob: StoredBlob = {
+        ...insertBlob,
+        wrappedKey: insertBlob.wrappedKey ?? null,
+        previewStatus: insertBlob.previewStatus ?? null,
+        previewType: insertBlob.previewType ?? null,
+        previewPath: insertBlob.previewPath ?? null,
+        previewWrappedKey: insertBlob.previewWrappedKey ?? null,
+        refCount: 1,
+        createdAt: new Date(),
+      };
+      this.blobs.set(blob.hash, blob);
+      return blob;
+    });
+  }
+
+  async updateBlob(hash: string, blobUpdate: Partial<InsertBlob>): Promise<StoredBlob | undefined> {
+    const existing = this.blobs.get(hash);
+    if (!existing) return undefined;
+
+    const updated: StoredBlob = { ...existing, ...blobUpdate };
+    this.blobs.set(hash, updated);
+    return updated;
+  }
+
+  async releaseBlob(storagePath: string, remove: (blob: StoredBlob) => Promise<void>): Promise<StoredBlob | undefined> {
+    return this.withBlobLock(storagePath, async () => {
+      const blob = Array.from(this.blobs.values()).find(b => b.storagePath === storagePath);
+      if (!blob) return undefined;
+
+      if (blob.refCount <= 1) {
+        await remove(blob);
+        this.blobs.delete(blob.hash);
+      }
+      blob.refCount -= 1;
+      return blob;
+    });
+  }
+
+  // Bundle operations
+  async getBundle(id: string): Promise<Bundle | undefined> {
+    return this.bundles.get(id);
+  }
+
+  async getUserBundles(userId: string): Promise<Bundle[]> {
+    return Array.from(this.bundles.values())
+      .filter(bundle => bundle.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async createBundle(insertBundle: InsertBundle): Promise<Bundle> {
+    const id = crypto.randomUUID();
+    const bundle: Bundle = {
+      ...insertBundle,
+      id,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.bundles.set(id, bundle);
+    this.bundleFileIds.set(id, []);
+    return bundle;
+  }
+
+  async updateBundle(id: string, bundleUpdate: Partial<InsertBundle>): Promise<Bundle | undefined> {
+    const existing = this.bundles.get(id);
+    if (!existing) return undefined;
+
+    const updated: Bundle = {
+      ...existing,
+      ...bundleUpdate,
+      updatedAt: new Date(),
+    };
+    this.bundles.set(id, updated);
+    return updated;
+  }
+
+  async deleteBundle(id: string): Promise<boolean> {
+    const linksToDelete = Array.from(this.sharedLinks.values())
+      .filter(link => link.bundleId === id);
+    for (const link of linksToDelete) {
+      this.sharedLinks.delete(link.id);
+      this.shareTokenToLinkId.delete(link.shareToken);
+    }
+
+    this.bundleFileIds.delete(id);
+    return this.bundles.delete(id);
+  }
+
+  async getBundleFiles(bundleId: string): Promise<File[]> {
+    // Deleted files drop out, like the database cascade; trashed ones are
+    // skipped until restored
+    return (this.bundleFileIds.get(bundleId) ?? [])
+      .map(fileId => this.files.get(fileId))
+      .filter((file): file is File => !!file && !file.deletedAt);
+  }
+
+  async setBundleFiles(bundleId: string, fileIds: string[]): Promise<void> {
+    this.bundleFileIds.set(bundleId, [...fileIds]);
+  }
+
+  // Shared link operations
+  async getSharedLink(token: string): Promise<SharedLink | undefined> {
+    const linkId = this.shareTokenToLinkId.get(token);
+    if (!linkId) return undefined;
+    return this.sharedLinks.get(linkId);
+  }
+
+  async getSharedLinkById(id: string): Promise<SharedLink | undefined> {
+    return this.sharedLinks.get(id);
+  }
+
+  async getFileSharedLinks(fileId: string): Promise<SharedLink[]> {
+    return Array.from(this.sharedLinks.values()).filter(link => link.fileId === fileId);
+  }
+
+  async createSharedLink(insertLink: InsertSharedLink): Promise<SharedLink> {
+    const id = crypto.randomUUID();
+    const link: SharedLink = {
+      ...insertLink,
+      id,
+      fileId: insertLink.fileId ?? null,
+      folderId: insertLink.folderId ?? null,
+      bundleId: insertLink.bundleId ?? null,
+      pinnedVersionId: insertLink.pinnedVersionId ?? null,
+      recipientEmail: insertLink.recipientEmail ?? null,
+      passwordHash: insertLink.passwordHash ?? null,
+      expiresAt: insertLink.expiresAt ?? null,
+      downloadLimit: insertLink.downloadLimit ?? null,
+      downloadCount: insertLink.downloadCount ?? 0,
+      isActive: insertLink.isActive ?? true,
+      allowInlineView: insertLink.allowInlineView ?? true,
+      createdAt: new Date(),
+    };
+    
+    this.sharedLinks.set(id, link);
+    this.shareTokenToLinkId.set(link.shareToken, id);
+    
+    return link;
+  }
+
+  async updateSharedLink(id: string, linkUpdate: Partial<InsertSharedLink>): Promise<SharedLink | undefined> {
+    const existing = this.sharedLinks.get(id);
+    if (!existing) return undefined;
+    
+    // Update token mapping if changed
+    if (linkUpdate.shareToken && linkUpdate.shareToken !== existing.shareToken) {
+      this.shareTokenToLinkId.delete(existing.shareToken);
+      this.shareTokenToLinkId.set(linkUpdate.shareToken, id);
+    }
+    
+    const updated: SharedLink = {
+      ...existing,
+      ...linkUpdate,
+    };
+    
+    this.sharedLinks.set(id, updated);
+    return updated;
+  }
+
+  async deleteSharedLink(id: string): Promise<boolean> {
+    const link = this.sharedLinks.get(id);
+    if (!link) return false;
+    
+    this.shareTokenToLinkId.delete(link.shareToken);
+    this.sharedLinks.delete(id);
+    return true;
+  }
+
+  async claimSharedLinkDownload(id: string): Promise<boolean> {
+    const link = this.sharedLinks.get(id);
+    if (!link || (link.downloadLimit !== null && link.downloadCount >= link.downloadLimit)) return false;
+
+    this.sharedLinks.set(id, { ...link, downloadCount: link.downloadCount + 1 });
+    return true;
+  }
+
+  // Download log operations
+  async createDownloadLog(insertLog: InsertDownloadLog): Promise<DownloadLog> {
+    const id = crypto.randomUUID();
+    const log: DownloadLog = {
+      ...insertLog,
+      id,
+      fileId: insertLog.fileId ?? null,
+      userId: insertLog.userId ?? null,
+      sharedLinkId: insertLog.sharedLinkId ?? null,
+      downloaderIp: insertLog.downloaderIp ?? null,
+      downloaderUserAgent: insertLog.downloaderUserAgent ?? null,
+      downloadedAt: new Date(),
+    };
+    
+    this.downloadLogs.set(id, log);
+    return log;
+  }
+
+  async getFileDownloadLogs(fileId: string): Promise<DownloadLog[]> {
+    return Array.from(this.downloadLogs.values()).filter(log => log.fileId === fileId);
+  }
+
+  async findRecentDownloadLog(query: RecentDownloadQuery): Promise<DownloadLog | undefined> {
+    return Array.from(this.downloadLogs.values()).find(log =>
+      log.fileId === query.fileId &&
+      log.sharedLinkId === query.sharedLinkId &&
+      log.downloaderIp === query.downloaderIp &&
+      log.downloaderUserAgent === query.downloaderUserAgent &&
+      (!query.downloadMethod || log.downloadMethod === query.downloadMethod) &&
+      log.downloadedAt >= query.since
+    );
+  }
+
+  async anonymizeDownloadLogs(fileId: string, userId: string): Promise<void> {
+    for (const log of Array.from(this.downloadLogs.values())) {
+      if (log.fileId === fileId) {
+        this.downloadLogs.set(log.id, { ...log, userId, downloaderIp: null, downloaderUserAgent: null });
+      }
+    }
+  }
+
+  // Upload session operations
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    return this.uploadSessions.get(id);
+  }
+
+  async createUploadSession(insertSession: InsertUploadSession): Promise<UploadSession> {
+    const id = crypto.randomUUID();
+    const session: UploadSession = {
+      ...insertSession,
+      id,
+      folderId: insertSession.folderId ?? null,
+      status: insertSession.status ?? 'pending',
+      isPublic: insertSession.isPublic ?? false,
+      generateShareCode: insertSession.generateShareCode ?? false,
+      isEncrypted: insertSession.isEncrypted ?? false,
+      downloadLimit: insertSession.downloadLimit ?? null,
+      fileExpiresAt: insertSession.fileExpiresAt ?? null,
+      fileId: insertSession.fileId ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.uploadSessions.set(id, session);
+    return session;
+  }
+
+  async updateUploadSession(id: string, sessionUpdate: Partial<InsertUploadSession>): Promise<UploadSession | undefined> {
+    const existing = this.uploadSessions.get(id);
+    if (!existing) return undefined;
+
+    const updated: UploadSession = {
+      ...existing,
+      ...sessionUpdate,
+      updatedAt: new Date(),
+    };
+    this.uploadSessions.set(id, updated);
+    return updated;
+  }
+
+  // Check and update without awaiting in between, like claimFileDownload
+  async claimUploadSession(id: string, now: Date): Promise<boolean> {
+    const session = this.uploadSessions.get(id);
+    if (!session || session.status !== 'pending' || session.expiresAt < now) return false;
+
+    this.uploadSessions.set(id, { ...session, status: 'finalizing', updatedAt: new Date() });
+    return true;
+  }
+
+  async deleteUploadSession(id: string): Promise<boolean> {
+    if (!this.uploadSessions.has(id)) return false;
+
+    const chunksToDelete = Array.from(this.uploadChunks.entries())
+      .filter(([, chunk]) => chunk.sessionId === id);
+    for (const [key] of chunksToDelete) {
+      this.uploadChunks.delete(key);
+    }
+
+    this.uploadSessions.delete(id);
+    return true;
+  }
+
+  async getUploadChunks(sessionId: string): Promise<UploadChunk[]> {
+    return Array.from(this.uploadChunks.values())
+      .filter(chunk => chunk.sessionId === sessionId)
+      .sort((a, b) => a.chunkIndex - b.chunkIndex);
+  }
+
+  async saveUploadChunk(insertChunk: InsertUploadChunk): Promise<UploadChunk> {
+    const chunk: UploadChunk = {
+      ...insertChunk,
+      wrappedKey: insertChunk.wrappedKey ?? null,
+      createdAt: new Date(),
+    };
+    this.uploadChunks.set(`${chunk.sessionId}:${chunk.chunkIndex}`, chunk);
+    return chunk;
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return Array.from(this.uploadSessions.values()).filter(session => session.expiresAt <= now);
+  }
+
+  // Scheduled job operations
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return Array.from(this.scheduledJobs.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async ensureScheduledJob(name: string, nextRunAt: Date): Promise<void> {
+    if (this.scheduledJobs.has(name)) return;
+    this.scheduledJobs.set(name, {
+      name,
+      nextRunAt,
+      lockedBy: null,
+      lockedUntil: null,
+      lastStartedAt: null,
+      lastFinishedAt: null,
+      lastStatus: null,
+      lastResult: null,
+      updatedAt: new Date(),
+    });
+  }
+
+  async claimScheduledJob(name: string, lockedBy: string, now: Date, lockedUntil: Date): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobs.get(name);
+    if (!job || job.nextRunAt > now || (job.lockedUntil && job.lockedUntil > now)) return undefined;
+
+    const claimed: ScheduledJob = { ...job, lockedBy, lockedUntil, lastStartedAt: now, updatedAt: new Date() };
+    this.scheduledJobs.set(name, claimed);
+    return claimed;
+  }
+
+  async finishScheduledJob(name: string, lockedBy: string, outcome: ScheduledJobOutcome): Promise<ScheduledJob | undefined> {
+    const job = this.scheduledJobs.get(name);
+    if (!job || job.lockedBy !== lockedBy) return undefined;
+
+    const finished: ScheduledJob = {
+      ...job,
+      ...outcome,
+      lockedBy: null,
+      lockedUntil: null,
+      lastFinishedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.scheduledJobs.set(name, finished);
+    return finished;
+  }
+
+  // Brute-force tracking operations
+  async getAccessAttempts(keys: string[]): Promise<AccessAttempt[]> {
+    return keys.flatMap(key => this.accessAttempts.get(key) ?? []);
+  }
+
+  async recordFailedAccessAttempt(key: string, now: Date, forgetBefore: Date): Promise<AccessAttempt> {
+    const existing = this.accessAttempts.get(key);
+    const attempt: AccessAttempt = existing && existing.lastFailureAt >= forgetBefore
+      ? { ...existing, failures: existing.failures + 1, lastFailureAt: now }
+      : { key, failures: 1, lastFailureAt: now, lockedUntil: null };
+    this.accessAttempts.set(key, attempt);
+    return attempt;
+  }
+
+  async lockAccessAttempt(key: string, lockedUntil: Date): Promise<void> {
+    const attempt = this.accessAttempts.get(key);
+    if (attempt) {
+      this.accessAttempts.set(key, { ...attempt, lockedUntil });
+    }
+  }
+
+  async clearAccessAttempt(key: string): Promise<void> {
+    this.accessAttempts.delete(key);
+  }
+
+  async deleteStaleAccessAttempts(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, attempt] of Array.from(this.accessAttempts.entries())) {
+      if (attempt.lastFailureAt < before && (!attempt.lockedUntil || attempt.lockedUntil < before)) {
+        this.accessAttempts.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async createShareSecurityEvent(insertEvent: InsertShareSecurityEvent): Promise<ShareSecurityEvent> {
+    const id = crypto.randomUUID();
+    const event: ShareSecurityEvent = {
+      ...insertEvent,
+      id,
+      fileId: insertEvent.fileId ?? null,
+      sharedLinkId: insertEvent.sharedLinkId ?? null,
+      sourceIp: insertEvent.sourceIp ?? null,
+      createdAt: new Date(),
+    };
+    this.shareSecurityEvents.set(id, event);
+    return event;
+  }
+
+  async getUserShareSecurityEvents(userId: string, limit: number): Promise<ShareSecurityEvent[]> {
+    return Array.from(this.shareSecurityEvents.values())
+      .filter(event => event.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Rate limit counter operations
+  async hitRateLimitCounter(key: string, now: Date, resetAt: Date): Promise<RateLimitCounter> {
+    const existing = this.rateLimitCounters.get(key);
+    const counter: RateLimitCounter = existing && existing.resetAt > now
+      ? { ...existing, count: existing.count + 1 }
+      : { key, count: 1, resetAt };
+    this.rateLimitCounters.set(key, counter);
+    return counter;
+  }
+
+  async deleteExpiredRateLimitCounters(now: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, counter] of Array.from(this.rateLimitCounters.entries())) {
+      if (counter.resetAt <= now) {
+        this.rateLimitCounters.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  // Utility functions
+  generateShareCode(): string {
+    return randomShareCode();
+  }
+
+  hashPassword(password: string): string {
+    // Simple hash for demo - in production use bcrypt or similar
+    return btoa(password + 'salt');
+  }
+
+  validatePassword(password: string, hash: string): boolean {
+    return this.hashPassword(password) === hash;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  
   // User operations
   async getUser(id: string): Promise<User | undefined> {
     const result = await db.select().from(users).where(eq(users.id, id)).limit(1);
     return result[0];
   }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const result = await db.select().from(users).where(eq(users.email, email)).limit(1);
+    return result[0];
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const result = await db.insert(users).values(insertUser).returning();
+    return result[0];
+  }
+
+  async markEmailVerified(userId: string, now: Date): Promise<void> {
+    await db.update(users).set({ emailVerifiedAt: now }).where(and(eq(users.id, userId), isNull(users.emailVerifiedAt)));
+  }
+
+  async updateUserPassword(userId: string, passwordHash: string): Promise<void> {
+    await db.update(users).set({ password: passwordHash }).where(eq(users.id, userId));
+  }
+
+  // Linked identity operations
+  async getUserIdentity(provider: string, subject: string): Promise<UserIdentity | undefined> {
+    const result = await db.select().from(userIdentities)
+      .where(and(eq(userIdentities.provider, provider), eq(userIdentities.subject, subject)))
+      .limit(1);
+    return result[0];
+  }
+
+  async getUserIdentities(userId: string): Promise<UserIdentity[]> {
+    return await db.select().from(userIdentities)
+      .where(eq(userIdentities.userId, userId))
+      .orderBy(asc(userIdentities.createdAt));
+  }
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    const result = await db.insert(userIdentities).values(identity).returning();
+    return result[0];
+  }
+
+  async touchUserIdentity(id: string, email: string | null, now: Date): Promise<void> {
+    await db.update(userIdentities).set({ email, lastUsedAt: now }).where(eq(userIdentities.id, id));
+  }
+
+  async deleteUserIdentity(id: string): Promise<void> {
+    await db.delete(userIdentities).where(eq(userIdentities.id, id));
+  }
+
+  // API key operations
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const result = await db.insert(apiKeys).values(apiKey).returning();
+    return result[0];
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const result = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash)).limit(1);
     return result[0];
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const result = await db.insert(users).values(insertUser).returning();
+  async getUserApiKeys(userId: string): Promise<ApiKey[]> {
+    return await db.select().from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async touchApiKey(id: string, now: Date): Promise<void> {
+    await db.update(apiKeys).set({ lastUsedAt: now }).where(eq(apiKeys.id, id));
+  }
+
+  async deleteApiKey(id: string): Promise<void> {
+    await db.delete(apiKeys).where(eq(apiKeys.id, id));
+  }
+
+  // Email token operations
+  async createEmailToken(token: InsertEmailToken): Promise<EmailToken> {
+    const result = await db.insert(emailTokens).values(token).returning();
+    return result[0];
+  }
+
+  // A single conditional update, so a token used twice at once only works once
+  async consumeEmailToken(tokenHash: string, purpose: string, now: Date): Promise<EmailToken | undefined> {
+    const result = await db.update(emailTokens)
+      .set({ usedAt: now })
+      .where(and(
+        eq(emailTokens.tokenHash, tokenHash),
+        eq(emailTokens.purpose, purpose),
+        isNull(emailTokens.usedAt),
+        gte(emailTokens.expiresAt, now),
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async supersedeEmailTokens(userId: string, purpose: string, now: Date): Promise<void> {
+    await db.update(emailTokens)
+      .set({ usedAt: now })
+      .where(and(eq(emailTokens.userId, userId), eq(emailTokens.purpose, purpose), isNull(emailTokens.usedAt)));
+  }
+
+  async deleteExpiredEmailTokens(before: Date): Promise<number> {
+    const result = await db.delete(emailTokens)
+      .where(lt(emailTokens.expiresAt, before))
+      .returning({ id: emailTokens.id });
+    return result.length;
+  }
+
+  // Session operations
+  async createSession(session: InsertSession): Promise<Session> {
+    const result = await db.insert(sessions).values(session).returning();
+    return result[0];
+  }
+
+  async getSession(id: string): Promise<Session | undefined> {
+    const result = await db.select().from(sessions).where(eq(sessions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getSessionByRefreshToken(tokenHash: string): Promise<Session | undefined> {
+    const result = await db.select().from(sessions).where(eq(sessions.refreshTokenHash, tokenHash)).limit(1);
+    return result[0];
+  }
+
+  async getSessionByPreviousToken(tokenHash: string): Promise<Session | undefined> {
+    const result = await db.select().from(sessions).where(eq(sessions.previousTokenHash, tokenHash)).limit(1);
+    return result[0];
+  }
+
+  // Conditional on the presented token still being current, so of two
+  // refreshes racing with the same token only one rotates it
+  async rotateSessionToken(id: string, currentHash: string, update: SessionRotation): Promise<Session | undefined> {
+    const result = await db.update(sessions)
+      .set({ ...update, previousTokenHash: currentHash })
+      .where(and(eq(sessions.id, id), eq(sessions.refreshTokenHash, currentHash), isNull(sessions.revokedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async touchSession(id: string, lastSeenAt: Date): Promise<void> {
+    await db.update(sessions).set({ lastSeenAt }).where(eq(sessions.id, id));
+  }
+
+  async getActiveUserSessions(userId: string, now: Date): Promise<Session[]> {
+    return await db.select().from(sessions)
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gte(sessions.expiresAt, now)))
+      .orderBy(desc(sessions.lastSeenAt));
+  }
+
+  async revokeSession(id: string, now: Date): Promise<void> {
+    await db.update(sessions).set({ revokedAt: now }).where(and(eq(sessions.id, id), isNull(sessions.revokedAt)));
+  }
+
+  async revokeUserSessions(userId: string, now: Date): Promise<number> {
+    const result = await db.update(sessions)
+      .set({ revokedAt: now })
+      .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+      .returning({ id: sessions.id });
+    return result.length;
+  }
+
+  async deleteExpiredSessions(before: Date): Promise<number> {
+    const result = await db.delete(sessions)
+      .where(or(lt(sessions.expiresAt, before), lt(sessions.revokedAt, before)))
+      .returning({ id: sessions.id });
+    return result.length;
+  }
+
+  // Two-factor operations
+  async getTwoFactorAuth(userId: string): Promise<TwoFactorAuth | undefined> {
+    const result = await db.select().from(twoFactorAuth).where(eq(twoFactorAuth.userId, userId)).limit(1);
     return result[0];
   }
 
+  async setPendingTotpSecret(userId: string, secret: string): Promise<void> {
+    await db.insert(twoFactorAuth)
+      .values({ userId, pendingSecret: secret })
+      .onConflictDoUpdate({
+        target: twoFactorAuth.userId,
+        set: { pendingSecret: secret, updatedAt: new Date() },
+      });
+  }
+
+  // Conditional on the secret still being the pending one, so a code
+  // verified against a secret replaced meanwhile doesn't enable it
+  async enableTwoFactorAuth(userId: string, secret: string, step: number, now: Date): Promise<boolean> {
+    const result = await db.update(twoFactorAuth)
+      .set({ secret, pendingSecret: null, enabledAt: now, lastUsedStep: step, updatedAt: now })
+      .where(and(eq(twoFactorAuth.userId, userId), eq(twoFactorAuth.pendingSecret, secret)))
+      .returning({ userId: twoFactorAuth.userId });
+    return result.length > 0;
+  }
+
+  // Only succeeds for a time step later than the last one used, so a code
+  // can't be replayed, not even by two requests at once
+  async claimTotpStep(userId: string, step: number): Promise<boolean> {
+    const result = await db.update(twoFactorAuth)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorAuth.userId, userId),
+        or(isNull(twoFactorAuth.lastUsedStep), lt(twoFactorAuth.lastUsedStep, step)),
+      ))
+      .returning({ userId: twoFactorAuth.userId });
+    return result.length > 0;
+  }
+
+  async deleteTwoFactorAuth(userId: string): Promise<void> {
+    await db.delete(twoFactorAuth).where(eq(twoFactorAuth.userId, userId));
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  }
+
+  async replaceRecoveryCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+    if (codeHashes.length > 0) {
+      await db.insert(recoveryCodes).values(codeHashes.map(codeHash => ({ userId, codeHash })));
+    }
+  }
+
+  async useRecoveryCode(userId: string, codeHash: string, now: Date): Promise<boolean> {
+    const result = await db.update(recoveryCodes)
+      .set({ usedAt: now })
+      .where(and(eq(recoveryCodes.userId, userId), eq(recoveryCodes.codeHash, codeHash), isNull(recoveryCodes.usedAt)))
+      .returning({ id: recoveryCodes.id });
+    return result.length > 0;
+  }
+
+  async countRecoveryCodes(userId: string): Promise<number> {
+    const result = await db.select({ count: sql<number>`count(*)::int` }).from(recoveryCodes)
+      .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+    return result[0]?.count ?? 0;
+  }
+
   // Profile operations
   async getProfile(userId: string): Promise<Profile | undefined> {
     const result = await db.select().from(profiles).where(eq(profiles.id, userId)).limit(1);
@@ -346,19 +1728,111 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async resetDailyUploadCounts(today: string): Promise<number> {
+    const result = await db.update(profiles)
+      .set({ dailyUploadCount: 0, lastUploadReset: today, updatedAt: new Date() })
+      .where(or(isNull(profiles.lastUploadReset), lt(profiles.lastUploadReset, today)))
+      .returning({ id: profiles.id });
+    return result.length;
+  }
+
+  // Folder operations
+  async getFolder(id: string): Promise<Folder | undefined> {
+    const result = await db.select().from(folders).where(eq(folders.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createFolder(insertFolder: InsertFolder): Promise<Folder> {
+    const result = await db.insert(folders).values(insertFolder).returning();
+    return result[0];
+  }
+
+  async updateFolder(id: string, folderUpdate: Partial<InsertFolder>): Promise<Folder | undefined> {
+    const result = await db.update(folders)
+      .set({ ...folderUpdate, updatedAt: new Date() })
+      .where(eq(folders.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteFolder(id: string): Promise<boolean> {
+    const result = await db.delete(folders).where(eq(folders.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async renameFolder(id: string, name: string): Promise<Folder | undefined> {
+    return this.updateFolder(id, { name });
+  }
+
+  async moveFolder(id: string, parentId: string | null): Promise<Folder | undefined> {
+    return this.updateFolder(id, { parentId });
+  }
+
+  async getFolderPath(folderId: string): Promise<Folder[]> {
+    const path: Folder[] = [];
+    let current = await this.getFolder(folderId);
+    while (current) {
+      path.unshift(current);
+      current = current.parentId ? await this.getFolder(current.parentId) : undefined;
+    }
+    return path;
+  }
+
+  async getFolderContents(userId: string, folderId: string | null): Promise<FolderListing> {
+    const folder = folderId ? await this.getFolder(folderId) ?? null : null;
+    const childFolders = await db.select()
+      .from(folders)
+      .where(and(
+        eq(folders.userId, userId),
+        folderId ? eq(folders.parentId, folderId) : isNull(folders.parentId),
+      ))
+      .orderBy(asc(folders.name));
+    const folderFiles = await db.select()
+      .from(files)
+      .where(and(
+        eq(files.userId, userId),
+        folderId ? eq(files.folderId, folderId) : isNull(files.folderId),
+        isNull(files.deletedAt),
+      ))
+      .orderBy(asc(files.originalName));
+
+    return {
+      folder,
+      breadcrumbs: folderId ? await this.getFolderPath(folderId) : [],
+      folders: childFolders,
+      files: folderFiles,
+    };
+  }
+
   // File operations
   async getFile(id: string): Promise<File | undefined> {
-    const result = await db.select().from(files).where(eq(files.id, id)).limit(1);
+    const result = await db.select().from(files).where(and(eq(files.id, id), isNull(files.deletedAt))).limit(1);
     return result[0];
   }
 
   async getFileByShareCode(shareCode: string): Promise<File | undefined> {
-    const result = await db.select().from(files).where(eq(files.shareCode, shareCode)).limit(1);
+    const result = await db.select().from(files).where(and(eq(files.shareCode, shareCode), isNull(files.deletedAt))).limit(1);
     return result[0];
   }
 
   async getUserFiles(userId: string): Promise<File[]> {
-    return await db.select().from(files).where(eq(files.userId, userId));
+    return await db.select().from(files).where(and(eq(files.userId, userId), isNull(files.deletedAt)));
+  }
+
+  async getFilesByScanStatus(scanStatus: string): Promise<File[]> {
+    return await db.select().from(files).where(and(eq(files.scanStatus, scanStatus), isNull(files.deletedAt)));
+  }
+
+  async getExpiredFiles(now: Date): Promise<File[]> {
+    return await db.select()
+      .from(files)
+      .where(and(
+        isNull(files.deletedAt),
+        or(
+          lte(files.expiresAt, now),
+          and(isNotNull(files.downloadLimit), gte(files.downloadCount, files.downloadLimit)),
+        ),
+      ));
   }
 
   async createFile(insertFile: InsertFile): Promise<File> {
@@ -379,12 +1853,227 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async renameFile(id: string, name: string): Promise<File | undefined> {
+    return this.updateFile(id, { originalName: name });
+  }
+
+  async moveFile(id: string, folderId: string | null): Promise<File | undefined> {
+    return this.updateFile(id, { folderId });
+  }
+
+  // Postgres re-checks the WHERE clause against the row a concurrent update
+  // committed, so only as many claims as the limit allows can succeed
+  async claimFileDownload(id: string): Promise<boolean> {
+    const result = await db.update(files)
+      .set({ downloadCount: sql`${files.downloadCount} + 1` })
+      .where(and(
+        eq(files.id, id),
+        or(isNull(files.downloadLimit), lt(files.downloadCount, files.downloadLimit)),
+      ))
+      .returning({ id: files.id });
+    return result.length > 0;
+  }
+
+  async incrementFileDownloadCount(id: string): Promise<void> {
+    await db.update(files)
+      .set({ downloadCount: sql`${files.downloadCount} + 1` })
+      .where(eq(files.id, id));
+  }
+
+  // Trash operations
+  async getTrashedFile(id: string): Promise<File | undefined> {
+    const result = await db.select().from(files).where(and(eq(files.id, id), isNotNull(files.deletedAt))).limit(1);
+    return result[0];
+  }
+
+  async getTrashedFiles(userId: string): Promise<File[]> {
+    return await db.select()
+      .from(files)
+      .where(and(eq(files.userId, userId), isNotNull(files.deletedAt)))
+      .orderBy(desc(files.deletedAt));
+  }
+
+  async getFilesTrashedBefore(cutoff: Date): Promise<File[]> {
+    return await db.select().from(files).where(lte(files.deletedAt, cutoff));
+  }
+
+  // File request operations
+  async getFileRequest(id: string): Promise<FileRequest | undefined> {
+    const result = await db.select().from(fileRequests).where(eq(fileRequests.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getFileRequestByToken(token: string): Promise<FileRequest | undefined> {
+    const result = await db.select().from(fileRequests).where(eq(fileRequests.token, token)).limit(1);
+    return result[0];
+  }
+
+  async getUserFileRequests(userId: string): Promise<FileRequest[]> {
+    return await db.select()
+      .from(fileRequests)
+      .where(eq(fileRequests.userId, userId))
+      .orderBy(desc(fileRequests.createdAt));
+  }
+
+  async createFileRequest(insertRequest: InsertFileRequest): Promise<FileRequest> {
+    const result = await db.insert(fileRequests).values(insertRequest).returning();
+    return result[0];
+  }
+
+  async updateFileRequest(id: string, requestUpdate: Partial<InsertFileRequest>): Promise<FileRequest | undefined> {
+    const result = await db.update(fileRequests)
+      .set({ ...requestUpdate, updatedAt: new Date() })
+      .where(eq(fileRequests.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteFileRequest(id: string): Promise<boolean> {
+    const result = await db.delete(fileRequests).where(eq(fileRequests.id, id)).returning();
+    return result.length > 0;
+  }
+
+  // File version operations
+  async getFileVersion(id: string): Promise<FileVersion | undefined> {
+    const result = await db.select().from(fileVersions).where(eq(fileVersions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getFileVersionsByScanStatus(scanStatus: string): Promise<FileVersion[]> {
+    return await db.select().from(fileVersions).where(eq(fileVersions.scanStatus, scanStatus));
+  }
+
+  async getFileVersions(fileId: string): Promise<FileVersion[]> {
+    return await db.select()
+      .from(fileVersions)
+      .where(eq(fileVersions.fileId, fileId))
+      .orderBy(desc(fileVersions.versionNumber));
+  }
+
+  async createFileVersion(insertVersion: InsertFileVersion): Promise<FileVersion> {
+    const result = await db.insert(fileVersions).values(insertVersion).returning();
+    return result[0];
+  }
+
+  async updateFileVersion(id: string, versionUpdate: Partial<InsertFileVersion>): Promise<FileVersion | undefined> {
+    const result = await db.update(fileVersions)
+      .set(versionUpdate)
+      .where(eq(fileVersions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Content-addressed blob operations
+  async getBlob(hash: string): Promise<StoredBlob | undefined> {
+    const result = await db.select().from(blobs).where(eq(blobs.hash, hash)).limit(1);
+    return result[0];
+  }
+
+  // The advisory lock is held until the transaction ends, so a concurrent
+  // upload or release of the same blob waits for the bytes to be moved or
+  // deleted as well as for the row
+  async acquireBlob(insertBlob: InsertBlob, store: () => Promise<void>): Promise<StoredBlob> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${insertBlob.storagePath}))`);
+
+      const existing = await tx.update(blobs)
+        .set({ refCount: sql`${blobs.refCount} + 1` })
+        .where(eq(blobs.hash, insertBlob.hash))
+        .returning();
+      if (existing[0]) return existing[0];
+
+      await store();
+      const result = await tx.insert(blobs)
+        .values({ ...insertBlob, refCount: 1 })
+        .returning();
+      return result[0];
+    });
+  }
+
+  async updateBlob(hash: string, blobUpdate: Partial<InsertBlob>): Promise<StoredBlob | undefined> {
+    const result = await db.update(blobs)
+      .set(blobUpdate)
+      .where(eq(blobs.hash, hash))
+      .returning();
+    return result[0];
+  }
+
+  // If `remove` fails the transaction rolls back and the reference stays
+  async releaseBlob(storagePath: string, remove: (blob: StoredBlob) => Promise<void>): Promise<StoredBlob | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${storagePath}))`);
+
+      const result = await tx.update(blobs)
+        .set({ refCount: sql`${blobs.refCount} - 1` })
+        .where(eq(blobs.storagePath, storagePath))
+        .returning();
+      const blob = result[0];
+      if (blob && blob.refCount <= 0) {
+        await remove(blob);
+        await tx.delete(blobs).where(eq(blobs.hash, blob.hash));
+      }
+      return blob;
+    });
+  }
+
+  // Bundle operations
+  async getBundle(id: string): Promise<Bundle | undefined> {
+    const result = await db.select().from(bundles).where(eq(bundles.id, id)).limit(1);
+    return result[0];
+  }
+
+  async getUserBundles(userId: string): Promise<Bundle[]> {
+    return await db.select()
+      .from(bundles)
+      .where(eq(bundles.userId, userId))
+      .orderBy(desc(bundles.createdAt));
+  }
+
+  async createBundle(insertBundle: InsertBundle): Promise<Bundle> {
+    const result = await db.insert(bundles).values(insertBundle).returning();
+    return result[0];
+  }
+
+  async updateBundle(id: string, bundleUpdate: Partial<InsertBundle>): Promise<Bundle | undefined> {
+    const result = await db.update(bundles)
+      .set({ ...bundleUpdate, updatedAt: new Date() })
+      .where(eq(bundles.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async deleteBundle(id: string): Promise<boolean> {
+    const result = await db.delete(bundles).where(eq(bundles.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getBundleFiles(bundleId: string): Promise<File[]> {
+    const result = await db.select({ file: files })
+      .from(bundleFiles)
+      .innerJoin(files, eq(bundleFiles.fileId, files.id))
+      .where(and(eq(bundleFiles.bundleId, bundleId), isNull(files.deletedAt)))
+      .orderBy(asc(bundleFiles.position));
+    return result.map(row => row.file);
+  }
+
+  async setBundleFiles(bundleId: string, fileIds: string[]): Promise<void> {
+    await db.delete(bundleFiles).where(eq(bundleFiles.bundleId, bundleId));
+    if (fileIds.length > 0) {
+      await db.insert(bundleFiles).values(fileIds.map((fileId, position) => ({ bundleId, fileId, position })));
+    }
+  }
+
   // Shared link operations
   async getSharedLink(token: string): Promise<SharedLink | undefined> {
     const result = await db.select().from(sharedLinks).where(eq(sharedLinks.shareToken, token)).limit(1);
     return result[0];
   }
 
+  async getSharedLinkById(id: string): Promise<SharedLink | undefined> {
+    const result = await db.select().from(sharedLinks).where(eq(sharedLinks.id, id)).limit(1);
+    return result[0];
+  }
+
   async getFileSharedLinks(fileId: string): Promise<SharedLink[]> {
     return await db.select().from(sharedLinks).where(eq(sharedLinks.fileId, fileId));
   }
@@ -407,6 +2096,17 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
+  async claimSharedLinkDownload(id: string): Promise<boolean> {
+    const result = await db.update(sharedLinks)
+      .set({ downloadCount: sql`${sharedLinks.downloadCount} + 1` })
+      .where(and(
+        eq(sharedLinks.id, id),
+        or(isNull(sharedLinks.downloadLimit), lt(sharedLinks.downloadCount, sharedLinks.downloadLimit)),
+      ))
+      .returning({ id: sharedLinks.id });
+    return result.length > 0;
+  }
+
   // Download log operations
   async createDownloadLog(insertLog: InsertDownloadLog): Promise<DownloadLog> {
     const result = await db.insert(downloadLogs).values(insertLog).returning();
@@ -417,14 +2117,202 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(downloadLogs).where(eq(downloadLogs.fileId, fileId));
   }
 
+  async findRecentDownloadLog(query: RecentDownloadQuery): Promise<DownloadLog | undefined> {
+    const result = await db.select()
+      .from(downloadLogs)
+      .where(and(
+        eq(downloadLogs.fileId, query.fileId),
+        query.sharedLinkId ? eq(downloadLogs.sharedLinkId, query.sharedLinkId) : isNull(downloadLogs.sharedLinkId),
+        query.downloaderIp ? eq(downloadLogs.downloaderIp, query.downloaderIp) : isNull(downloadLogs.downloaderIp),
+        query.downloaderUserAgent ? eq(downloadLogs.downloaderUserAgent, query.downloaderUserAgent) : isNull(downloadLogs.downloaderUserAgent),
+        query.downloadMethod ? eq(downloadLogs.downloadMethod, query.downloadMethod) : undefined,
+        gte(downloadLogs.downloadedAt, query.since),
+      ))
+      .orderBy(desc(downloadLogs.downloadedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async anonymizeDownloadLogs(fileId: string, userId: string): Promise<void> {
+    await db.update(downloadLogs)
+      .set({ userId, downloaderIp: null, downloaderUserAgent: null })
+      .where(eq(downloadLogs.fileId, fileId));
+  }
+
+  // Upload session operations
+  async getUploadSession(id: string): Promise<UploadSession | undefined> {
+    const result = await db.select().from(uploadSessions).where(eq(uploadSessions.id, id)).limit(1);
+    return result[0];
+  }
+
+  async createUploadSession(insertSession: InsertUploadSession): Promise<UploadSession> {
+    const result = await db.insert(uploadSessions).values(insertSession).returning();
+    return result[0];
+  }
+
+  async updateUploadSession(id: string, sessionUpdate: Partial<InsertUploadSession>): Promise<UploadSession | undefined> {
+    const result = await db.update(uploadSessions)
+      .set({ ...sessionUpdate, updatedAt: new Date() })
+      .where(eq(uploadSessions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async claimUploadSession(id: string, now: Date): Promise<boolean> {
+    const result = await db.update(uploadSessions)
+      .set({ status: 'finalizing', updatedAt: new Date() })
+      .where(and(
+        eq(uploadSessions.id, id),
+        eq(uploadSessions.status, 'pending'),
+        gte(uploadSessions.expiresAt, now),
+      ))
+      .returning({ id: uploadSessions.id });
+    return result.length > 0;
+  }
+
+  async deleteUploadSession(id: string): Promise<boolean> {
+    const result = await db.delete(uploadSessions).where(eq(uploadSessions.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getUploadChunks(sessionId: string): Promise<UploadChunk[]> {
+    return await db.select()
+      .from(uploadChunks)
+      .where(eq(uploadChunks.sessionId, sessionId))
+      .orderBy(asc(uploadChunks.chunkIndex));
+  }
+
+  async saveUploadChunk(insertChunk: InsertUploadChunk): Promise<UploadChunk> {
+    // Re-sent chunks replace the earlier copy
+    const result = await db.insert(uploadChunks)
+      .values(insertChunk)
+      .onConflictDoUpdate({
+        target: [uploadChunks.sessionId, uploadChunks.chunkIndex],
+        set: {
+          size: insertChunk.size,
+          checksum: insertChunk.checksum,
+          storagePath: insertChunk.storagePath,
+          wrappedKey: insertChunk.wrappedKey ?? null,
+          createdAt: new Date(),
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async getExpiredUploadSessions(now: Date): Promise<UploadSession[]> {
+    return await db.select().from(uploadSessions).where(lte(uploadSessions.expiresAt, now));
+  }
+
+  // Scheduled job operations
+  async getScheduledJobs(): Promise<ScheduledJob[]> {
+    return await db.select().from(scheduledJobs).orderBy(asc(scheduledJobs.name));
+  }
+
+  async ensureScheduledJob(name: string, nextRunAt: Date): Promise<void> {
+    await db.insert(scheduledJobs).values({ name, nextRunAt }).onConflictDoNothing();
+  }
+
+  // A single conditional update, so of several instances racing for a due
+  // job exactly one gets the row back
+  async claimScheduledJob(name: string, lockedBy: string, now: Date, lockedUntil: Date): Promise<ScheduledJob | undefined> {
+    const result = await db.update(scheduledJobs)
+      .set({ lockedBy, lockedUntil, lastStartedAt: now, updatedAt: new Date() })
+      .where(and(
+        eq(scheduledJobs.name, name),
+        lte(scheduledJobs.nextRunAt, now),
+        or(isNull(scheduledJobs.lockedUntil), lte(scheduledJobs.lockedUntil, now)),
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async finishScheduledJob(name: string, lockedBy: string, outcome: ScheduledJobOutcome): Promise<ScheduledJob | undefined> {
+    const result = await db.update(scheduledJobs)
+      .set({ ...outcome, lockedBy: null, lockedUntil: null, lastFinishedAt: new Date(), updatedAt: new Date() })
+      .where(and(eq(scheduledJobs.name, name), eq(scheduledJobs.lockedBy, lockedBy)))
+      .returning();
+    return result[0];
+  }
+
+  // Brute-force tracking operations
+  async getAccessAttempts(keys: string[]): Promise<AccessAttempt[]> {
+    if (keys.length === 0) return [];
+    return await db.select().from(accessAttempts).where(inArray(accessAttempts.key, keys));
+  }
+
+  // One upsert, so concurrent guesses each count; failures older than
+  // forgetBefore are dropped and counting starts again
+  async recordFailedAccessAttempt(key: string, now: Date, forgetBefore: Date): Promise<AccessAttempt> {
+    const result = await db.insert(accessAttempts)
+      .values({ key, failures: 1, lastFailureAt: now })
+      .onConflictDoUpdate({
+        target: accessAttempts.key,
+        set: {
+          failures: sql`case when ${accessAttempts.lastFailureAt} < ${forgetBefore} then 1 else ${accessAttempts.failures} + 1 end`,
+          lastFailureAt: now,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async lockAccessAttempt(key: string, lockedUntil: Date): Promise<void> {
+    await db.update(accessAttempts).set({ lockedUntil }).where(eq(accessAttempts.key, key));
+  }
+
+  async clearAccessAttempt(key: string): Promise<void> {
+    await db.delete(accessAttempts).where(eq(accessAttempts.key, key));
+  }
+
+  async deleteStaleAccessAttempts(before: Date): Promise<number> {
+    const result = await db.delete(accessAttempts)
+      .where(and(
+        lt(accessAttempts.lastFailureAt, before),
+        or(isNull(accessAttempts.lockedUntil), lt(accessAttempts.lockedUntil, before)),
+      ))
+      .returning({ key: accessAttempts.key });
+    return result.length;
+  }
+
+  async createShareSecurityEvent(event: InsertShareSecurityEvent): Promise<ShareSecurityEvent> {
+    const result = await db.insert(shareSecurityEvents).values(event).returning();
+    return result[0];
+  }
+
+  async getUserShareSecurityEvents(userId: string, limit: number): Promise<ShareSecurityEvent[]> {
+    return await db.select().from(shareSecurityEvents)
+      .where(eq(shareSecurityEvents.userId, userId))
+      .orderBy(desc(shareSecurityEvents.createdAt))
+      .limit(limit);
+  }
+
+  // Rate limit counter operations
+  // One upsert per request; a window that has ended starts over at 1
+  async hitRateLimitCounter(key: string, now: Date, resetAt: Date): Promise<RateLimitCounter> {
+    const result = await db.insert(rateLimitCounters)
+      .values({ key, count: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimitCounters.key,
+        set: {
+          count: sql`case when ${rateLimitCounters.resetAt} <= ${now} then 1 else ${rateLimitCounters.count} + 1 end`,
+          resetAt: sql`case when ${rateLimitCounters.resetAt} <= ${now} then ${resetAt} else ${rateLimitCounters.resetAt} end`,
+        },
+      })
+      .returning();
+    return result[0];
+  }
+
+  async deleteExpiredRateLimitCounters(now: Date): Promise<number> {
+    const result = await db.delete(rateLimitCounters)
+      .where(lte(rateLimitCounters.resetAt, now))
+      .returning({ key: rateLimitCounters.key });
+    return result.length;
+  }
+
   // Utility functions
   generateShareCode(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-    let result = '';
-    for (let i = 0; i < 8; i++) {
-      result += chars.charAt(Math.floor(Math.random() * chars.length));
-    }
-    return result;
+    return randomShareCode();
   }
 
   hashPassword(password: string): string {
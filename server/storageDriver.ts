@@ -0,0 +1,342 @@
+import {
+  S3Client,
+  CopyObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from "@aws-sdk/client-s3";
+import { Upload } from "@aws-sdk/lib-storage";
+import { Readable } from "stream";
+import { pipeline } from "stream/promises";
+import path from "path";
+import fs from "fs";
+
+export interface BlobStat {
+  size: number;
+  contentType?: string;
+  lastModified?: Date;
+  etag?: string;
+}
+
+export interface BlobListing extends BlobStat {
+  key: string;
+}
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+export interface PutOptions {
+  contentType?: string;
+  size?: number;
+}
+
+// Blob storage backend. Keys are driver-local; the driver name is only
+// added when the key is persisted as `files.storagePath`.
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Readable | Buffer, options?: PutOptions): Promise<BlobStat>;
+  get(key: string): Promise<Buffer>;
+  stream(key: string, range?: ByteRange): Promise<Readable>;
+  delete(key: string): Promise<boolean>;
+  stat(key: string): Promise<BlobStat | undefined>;
+  move(fromKey: string, toKey: string): Promise<void>;
+  // Every key below a directory-like prefix such as "incoming"
+  list(prefix: string): Promise<BlobListing[]>;
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'local';
+
+  constructor(private root: string) {}
+
+  private resolve(key: string): string {
+    const fullPath = path.resolve(this.root, key);
+    const root = path.resolve(this.root);
+    if (fullPath !== root && !fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, body: Readable | Buffer, _options?: PutOptions): Promise<BlobStat> {
+    const fullPath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+
+    if (Buffer.isBuffer(body)) {
+      await fs.promises.writeFile(fullPath, body);
+    } else {
+      await pipeline(body, fs.createWriteStream(fullPath));
+    }
+
+    const stat = await this.stat(key);
+    if (!stat) {
+      throw new BlobNotFoundError(key);
+    }
+    return stat;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    const fullPath = this.resolve(key);
+    if (!(await this.stat(key))) {
+      throw new BlobNotFoundError(key);
+    }
+    return fs.createReadStream(fullPath, range ? { start: range.start, end: range.end } : undefined);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    try {
+      await fs.promises.unlink(this.resolve(key));
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    const target = this.resolve(toKey);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+    await fs.promises.rename(this.resolve(fromKey), target);
+  }
+
+  async list(prefix: string): Promise<BlobListing[]> {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(this.resolve(prefix), { withFileTypes: true });
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+
+    const listing: BlobListing[] = [];
+    for (const entry of entries) {
+      const key = `${prefix}/${entry.name}`;
+      if (entry.isDirectory()) {
+        listing.push(...await this.list(key));
+      } else if (entry.isFile()) {
+        const stat = await this.stat(key);
+        if (stat) listing.push({ key, ...stat });
+      }
+    }
+    return listing;
+  }
+
+  async stat(key: string): Promise<BlobStat | undefined> {
+    try {
+      const stat = await fs.promises.stat(this.resolve(key));
+      if (!stat.isFile()) return undefined;
+      return {
+        size: stat.size,
+        lastModified: stat.mtime,
+      };
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+}
+
+export interface S3DriverConfig {
+  bucket: string;
+  region: string;
+  endpoint?: string;
+  forcePathStyle?: boolean;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+// Works against AWS S3 and S3-compatible servers (MinIO etc.) when an
+// endpoint is given; path-style addressing is usually needed for the latter.
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+
+  constructor(config: S3DriverConfig) {
+    this.bucket = config.bucket;
+    this.client = new S3Client({
+      region: config.region,
+      endpoint: config.endpoint,
+      forcePathStyle: config.forcePathStyle,
+      credentials: config.accessKeyId && config.secretAccessKey
+        ? { accessKeyId: config.accessKeyId, secretAccessKey: config.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  async put(key: string, body: Readable | Buffer, options?: PutOptions): Promise<BlobStat> {
+    // lib-storage handles unknown-length streams via multipart upload
+    const upload = new Upload({
+      client: this.client,
+      params: {
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: options?.contentType,
+      },
+    });
+    await upload.done();
+
+    const stat = await this.stat(key);
+    if (!stat) {
+      throw new BlobNotFoundError(key);
+    }
+    return stat;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const stream = await this.stream(key);
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async stream(key: string, range?: ByteRange): Promise<Readable> {
+    try {
+      const result = await this.client.send(new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+      }));
+      return result.Body as Readable;
+    } catch (error: any) {
+      if (isS3NotFound(error)) throw new BlobNotFoundError(key);
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<boolean> {
+    // S3 deletes are idempotent, so check first to report whether anything was removed
+    const existing = await this.stat(key);
+    if (!existing) return false;
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+    return true;
+  }
+
+  async move(fromKey: string, toKey: string): Promise<void> {
+    // S3 has no rename: copy server-side, then drop the source
+    await this.client.send(new CopyObjectCommand({
+      Bucket: this.bucket,
+      Key: toKey,
+      CopySource: `${this.bucket}/${encodeURIComponent(fromKey).replace(/%2F/g, '/')}`,
+    }));
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: fromKey }));
+  }
+
+  async list(prefix: string): Promise<BlobListing[]> {
+    const listing: BlobListing[] = [];
+    let continuationToken: string | undefined;
+    do {
+      const result = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: `${prefix}/`,
+        ContinuationToken: continuationToken,
+      }));
+      for (const object of result.Contents ?? []) {
+        if (!object.Key) continue;
+        listing.push({
+          key: object.Key,
+          size: object.Size ?? 0,
+          lastModified: object.LastModified,
+          etag: object.ETag,
+        });
+      }
+      continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+    } while (continuationToken);
+    return listing;
+  }
+
+  async stat(key: string): Promise<BlobStat | undefined> {
+    try {
+      const result = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return {
+        size: result.ContentLength ?? 0,
+        contentType: result.ContentType,
+        lastModified: result.LastModified,
+        etag: result.ETag,
+      };
+    } catch (error: any) {
+      if (isS3NotFound(error)) return undefined;
+      throw error;
+    }
+  }
+}
+
+function isS3NotFound(error: any): boolean {
+  return error?.name === 'NotFound' || error?.name === 'NoSuchKey' || error?.$metadata?.httpStatusCode === 404;
+}
+
+function createDefaultDriver(): StorageDriver {
+  const driverName = process.env.STORAGE_DRIVER || 'local';
+
+  if (driverName === 's3') {
+    if (!process.env.S3_BUCKET) {
+      throw new Error("S3_BUCKET must be set when STORAGE_DRIVER=s3");
+    }
+    return new S3StorageDriver({
+      bucket: process.env.S3_BUCKET,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  if (driverName !== 'local') {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driverName}`);
+  }
+  return new LocalStorageDriver(process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads'));
+}
+
+// Driver used for new uploads
+export const storageDriver = createDefaultDriver();
+
+const drivers = new Map<string, StorageDriver>([[storageDriver.name, storageDriver]]);
+
+// Files uploaded before drivers existed store a bare path relative to the
+// working directory (e.g. `uploads/abc123`)
+const legacyDriver = new LocalStorageDriver(process.cwd());
+
+export function registerStorageDriver(driver: StorageDriver) {
+  drivers.set(driver.name, driver);
+}
+
+export function toStoragePath(driver: StorageDriver, key: string): string {
+  return `${driver.name}:${key}`;
+}
+
+export function resolveStoragePath(storagePath: string): { driver: StorageDriver; key: string } {
+  const separator = storagePath.indexOf(':');
+  if (separator === -1) {
+    return { driver: legacyDriver, key: storagePath };
+  }
+
+  const driverName = storagePath.slice(0, separator);
+  const driver = drivers.get(driverName);
+  if (!driver) {
+    throw new Error(`No storage driver registered for "${driverName}"`);
+  }
+  return { driver, key: storagePath.slice(separator + 1) };
+}
@@ -0,0 +1,75 @@
+import type { File, Folder } from "@shared/schema";
+import { storage } from "./storage";
+import { releaseBlob } from "./blobs";
+import { fileStoragePaths } from "./versions";
+import { collectFolderFiles, isWithinFolder } from "./folders";
+
+// How long a trashed file can be restored before it is purged
+export const TRASH_RETENTION_DAYS = Number(process.env.TRASH_RETENTION_DAYS) || 30;
+const TRASH_RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+export function purgeDate(file: File): Date | null {
+  return file.deletedAt ? new Date(file.deletedAt.getTime() + TRASH_RETENTION_MS) : null;
+}
+
+// Trashed files keep their links and share code, but nothing resolves them
+// until they are restored
+export async function moveToTrash(file: File, update: { folderId?: null } = {}): Promise<File | undefined> {
+  return storage.updateFile(file.id, { ...update, deletedAt: new Date() });
+}
+
+export async function restoreFromTrash(file: File): Promise<File | undefined> {
+  return storage.updateFile(file.id, { deletedAt: null });
+}
+
+// Folders are deleted for good, so their files go to the trash detached
+// from them and are restored to the root. Files already in the trash from
+// below the folder are detached too, or the cascade would take them.
+export async function trashFolderFiles(folder: Folder): Promise<number> {
+  const entries = await collectFolderFiles(folder);
+  for (const { file } of entries) {
+    await moveToTrash(file, { folderId: null });
+  }
+
+  for (const file of await storage.getTrashedFiles(folder.userId)) {
+    if (await isWithinFolder(file.folderId, folder.id)) {
+      await storage.updateFile(file.id, { folderId: null });
+    }
+  }
+  return entries.length;
+}
+
+// Release the blobs of every version of a file; shared content stays
+// until its last reference is gone
+async function releaseFileBlobs(file: File) {
+  for (const storagePath of await fileStoragePaths(file)) {
+    try {
+      await releaseBlob(storagePath);
+    } catch (e) {
+      // Blob might already be gone from the storage backend
+      console.error('Failed to delete blob:', e);
+    }
+  }
+}
+
+// Delete a file for good. Its download history is kept without the
+// downloaders' addresses and user agents.
+export async function purgeFile(file: File) {
+  await releaseFileBlobs(file);
+  await storage.anonymizeDownloadLogs(file.id, file.userId);
+  await storage.deleteFile(file.id);
+}
+
+export async function purgeExpiredTrash(now = new Date()): Promise<number> {
+  const expired = await storage.getFilesTrashedBefore(new Date(now.getTime() - TRASH_RETENTION_MS));
+  let purged = 0;
+  for (const file of expired) {
+    try {
+      await purgeFile(file);
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge file ${file.id}:`, error);
+    }
+  }
+  return purged;
+}
@@ -0,0 +1,28 @@
+import { storage } from "./storage";
+import { generateRecoveryCodes, hashRecoveryCode, verifyTotp } from "./totp";
+
+export async function isTwoFactorEnabled(userId: string): Promise<boolean> {
+  const twoFactor = await storage.getTwoFactorAuth(userId);
+  return !!twoFactor?.enabledAt && !!twoFactor.secret;
+}
+
+// Check a second-factor code: a code from the authenticator, or failing
+// that one of the recovery codes, which is used up
+export async function verifySecondFactor(userId: string, code: string, now = new Date()): Promise<boolean> {
+  const twoFactor = await storage.getTwoFactorAuth(userId);
+  if (!twoFactor?.enabledAt || !twoFactor.secret) return false;
+
+  const step = verifyTotp(twoFactor.secret, code, now);
+  if (step !== undefined) {
+    return await storage.claimTotpStep(userId, step);
+  }
+  return await storage.useRecoveryCode(userId, hashRecoveryCode(code), now);
+}
+
+// New recovery codes in place of any old ones; the plaintext is only
+// available here, to be shown to the user once
+export async function issueRecoveryCodes(userId: string): Promise<string[]> {
+  const codes = generateRecoveryCodes();
+  await storage.replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
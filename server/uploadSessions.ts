@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import { Readable, Transform } from "stream";
+import type { UploadChunk, UploadSession } from "@shared/schema";
+import { resolveStoragePath } from "./storageDriver";
+import { openBlob } from "./blobs";
+
+export const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+export const MIN_CHUNK_SIZE = 256 * 1024;
+export const MAX_CHUNK_SIZE = 64 * 1024 * 1024;
+
+// Sessions that are never finalized are abandoned after this long
+export const UPLOAD_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function totalChunksFor(fileSize: number, chunkSize: number): number {
+  return Math.max(1, Math.ceil(fileSize / chunkSize));
+}
+
+// Expected byte length of a chunk; only the last chunk may be short
+export function expectedChunkSize(session: UploadSession, index: number): number {
+  if (index < session.totalChunks - 1) {
+    return session.chunkSize;
+  }
+  return session.fileSize - session.chunkSize * (session.totalChunks - 1);
+}
+
+// Pass a chunk body through, cutting it off once it runs past maxBytes, so a
+// body without a Content-Length can't stream more than a chunk into storage
+export function cappedStream(source: Readable, maxBytes: number) {
+  let received = 0;
+  const output = new Transform({
+    transform(data: Buffer, _encoding, callback) {
+      received += data.length;
+      callback(received > maxBytes ? new Error(`Body is larger than ${maxBytes} bytes`) : null, data);
+    },
+  });
+  source.on('error', (error) => output.destroy(error));
+  source.pipe(output);
+
+  return {
+    stream: output,
+    exceeded: () => received > maxBytes,
+  };
+}
+
+export function chunkBlobKey(session: UploadSession, index: number): string {
+  return `${session.userId}/sessions/${session.id}/${index}`;
+}
+
+// Merge received chunks into inclusive byte ranges, e.g. [{ start: 0, end: 16777215 }]
+export function receivedRanges(session: UploadSession, chunks: UploadChunk[]) {
+  const ranges: { start: number; end: number }[] = [];
+  const sorted = [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  for (const chunk of sorted) {
+    const start = chunk.chunkIndex * session.chunkSize;
+    const end = start + chunk.size - 1;
+    const last = ranges[ranges.length - 1];
+    if (last && last.end + 1 === start) {
+      last.end = end;
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  return ranges;
+}
+
+export function missingChunks(session: UploadSession, chunks: UploadChunk[]): number[] {
+  const received = new Set(chunks.map(chunk => chunk.chunkIndex));
+  const missing: number[] = [];
+  for (let i = 0; i < session.totalChunks; i++) {
+    if (!received.has(i)) missing.push(i);
+  }
+  return missing;
+}
+
+// Upload checksum: sha256 (hex) over the concatenated raw sha256 digests of
+// every chunk in order. Clients can compute it chunk by chunk without
+// holding the whole file in memory.
+export function compositeChecksum(chunks: UploadChunk[]): string {
+  const hash = createHash('sha256');
+  for (const chunk of [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex)) {
+    hash.update(Buffer.from(chunk.checksum, 'hex'));
+  }
+  return hash.digest('hex');
+}
+
+// Concatenate chunk blobs, in order, into a single stream
+export function assembleChunks(chunks: UploadChunk[]): Readable {
+  const sorted = [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex);
+
+  return Readable.from((async function* () {
+    for (const chunk of sorted) {
+      yield* await openBlob(chunk.storagePath, chunk.wrappedKey);
+    }
+  })());
+}
+
+export async function deleteChunkBlobs(chunks: UploadChunk[]) {
+  for (const chunk of chunks) {
+    const { driver, key } = resolveStoragePath(chunk.storagePath);
+    try {
+      await driver.delete(key);
+    } catch (error) {
+      console.error('Failed to delete upload chunk:', error);
+    }
+  }
+}
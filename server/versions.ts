@@ -0,0 +1,101 @@
+import type { File, FileVersion, SharedLink } from "@shared/schema";
+import { storage } from "./storage";
+import { releaseBlob } from "./blobs";
+
+export interface VersionBlob {
+  fileSize: number;
+  fileType: string;
+  storagePath: string;
+  contentHash: string | null;
+  wrappedKey: string | null;
+}
+
+// Files created before versioning have no history rows; record their
+// current content as version 1 the first time history is needed
+export async function ensureVersionHistory(file: File): Promise<FileVersion[]> {
+  const versions = await storage.getFileVersions(file.id);
+  if (versions.length > 0) return versions;
+
+  const initial = await storage.createFileVersion({
+    fileId: file.id,
+    versionNumber: file.currentVersion,
+    fileSize: file.fileSize,
+    fileType: file.fileType,
+    storagePath: file.storagePath,
+    contentHash: file.contentHash,
+    wrappedKey: file.wrappedKey,
+    scanStatus: file.scanStatus,
+    scanResult: file.scanResult,
+  });
+  return [initial];
+}
+
+// Store a new version and make it current. The file id, share code and
+// existing shared links are untouched. Takes over the caller's reference on
+// the blob.
+export async function addFileVersion(file: File, blob: VersionBlob): Promise<{ file: File; version: FileVersion }> {
+  const versions = await ensureVersionHistory(file);
+  const versionNumber = Math.max(...versions.map(v => v.versionNumber)) + 1;
+
+  // A file holds one reference per distinct blob, so re-uploading content
+  // an earlier version already has doesn't take another
+  if (versions.some(v => v.storagePath === blob.storagePath)) {
+    await releaseBlob(blob.storagePath);
+  }
+
+  // New content has to pass the malware scan before it is served
+  const version = await storage.createFileVersion({
+    fileId: file.id,
+    versionNumber,
+    ...blob,
+    scanStatus: 'pending_scan',
+    scanResult: null,
+  });
+  const updated = await storage.updateFile(file.id, {
+    ...blob,
+    currentVersion: versionNumber,
+    scanStatus: 'pending_scan',
+    scanResult: null,
+  });
+
+  return { file: updated ?? file, version };
+}
+
+export async function restoreFileVersion(file: File, version: FileVersion): Promise<File> {
+  const updated = await storage.updateFile(file.id, {
+    fileSize: version.fileSize,
+    fileType: version.fileType,
+    storagePath: version.storagePath,
+    contentHash: version.contentHash,
+    wrappedKey: version.wrappedKey,
+    scanStatus: version.scanStatus,
+    scanResult: version.scanResult,
+    currentVersion: version.versionNumber,
+  });
+  return updated ?? file;
+}
+
+// The file as seen through a shared link: pinned links serve their version
+export async function resolveSharedFile(file: File, link: SharedLink): Promise<File> {
+  if (!link.pinnedVersionId) return file;
+
+  const version = await storage.getFileVersion(link.pinnedVersionId);
+  if (!version || version.fileId !== file.id) return file;
+
+  return {
+    ...file,
+    fileSize: version.fileSize,
+    fileType: version.fileType,
+    storagePath: version.storagePath,
+    contentHash: version.contentHash,
+    wrappedKey: version.wrappedKey,
+    scanStatus: version.scanStatus,
+    scanResult: version.scanResult,
+  };
+}
+
+// Every blob a file references across its versions
+export async function fileStoragePaths(file: File): Promise<string[]> {
+  const versions = await storage.getFileVersions(file.id);
+  return Array.from(new Set([file.storagePath, ...versions.map(v => v.storagePath)]));
+}
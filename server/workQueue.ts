@@ -0,0 +1,43 @@
+export interface WorkQueue {
+  enqueue(id: string): void;
+}
+
+export interface WorkQueueOptions {
+  // Failed jobs are re-queued after this long; without it they are dropped
+  retryDelayMs?: number;
+}
+
+// In-process background queue keyed by id. Jobs run one at a time so heavy
+// work (scanning, image processing) doesn't compete with request handling,
+// and an id that is already queued is not added twice.
+export function createWorkQueue(name: string, worker: (id: string) => Promise<void>, options: WorkQueueOptions = {}): WorkQueue {
+  const queue: string[] = [];
+  let draining = false;
+
+  const drain = async () => {
+    draining = true;
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      try {
+        await worker(id);
+      } catch (error) {
+        console.error(`${name} failed for ${id}:`, error);
+        if (options.retryDelayMs) {
+          setTimeout(() => enqueue(id), options.retryDelayMs).unref();
+        }
+      }
+    }
+    draining = false;
+  };
+
+  const enqueue = (id: string) => {
+    if (!queue.includes(id)) {
+      queue.push(id);
+    }
+    if (!draining) {
+      void drain();
+    }
+  };
+
+  return { enqueue };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, uuid, bigint, timestamp, inet, date } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, uuid, bigint, timestamp, inet, date, primaryKey, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -8,6 +8,85 @@ export const users = pgTable("users", {
   id: uuid("id").primaryKey().defaultRandom(),
   email: text("email").notNull().unique(),
   password: text("password").notNull(),
+  // Registration sets this to null until the emailed link is followed; the
+  // default only marks accounts that existed before verification as verified
+  emailVerifiedAt: timestamp("email_verified_at").defaultNow(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Accounts at OpenID Connect providers that sign in as a user; one user can
+// have one per provider and several providers
+export const userIdentities = pgTable("user_identities", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  provider: text("provider").notNull(), // id from OIDC_PROVIDERS
+  subject: text("subject").notNull(), // the provider's stable `sub` claim
+  email: text("email"), // as the provider last reported it
+  lastUsedAt: timestamp("last_used_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.provider, table.subject),
+  unique().on(table.userId, table.provider),
+]);
+
+// Personal API keys for scripts and CI jobs, limited to their scopes
+export const apiKeys = pgTable("api_keys", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  keyPrefix: text("key_prefix").notNull(), // start of the key, to tell keys apart in lists
+  keyHash: text("key_hash").notNull().unique(), // sha256 hex; the key itself is only shown once
+  scopes: text("scopes").array().notNull(), // see API_KEY_SCOPES in server/apiKeys.ts
+  expiresAt: timestamp("expires_at"), // null = never
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Single-use tokens sent by email to verify an address or reset a password
+export const emailTokens = pgTable("email_tokens", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: text("purpose").notNull(), // 'verify_email' | 'reset_password'
+  tokenHash: text("token_hash").notNull().unique(), // sha256 hex; the token itself is only in the email
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"), // also set on tokens superseded by a newer one
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Signed-in devices. Each holds a rotating refresh token (kept in an
+// httpOnly cookie) and the short-lived access tokens issued from it carry
+// the session id, so revoking the row signs the device out.
+export const sessions = pgTable("sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  refreshTokenHash: text("refresh_token_hash").notNull().unique(), // sha256 hex of the current refresh token
+  previousTokenHash: text("previous_token_hash"), // the token it replaced; seeing it again means it was stolen
+  rotatedAt: timestamp("rotated_at"), // when previousTokenHash was replaced
+  userAgent: text("user_agent"),
+  ipAddress: inet("ip_address"),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// TOTP second factor. A code is asked for at sign-in once enabledAt is set;
+// pendingSecret holds a secret being enrolled until a code from it checks out.
+export const twoFactorAuth = pgTable("two_factor_auth", {
+  userId: uuid("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: text("secret"), // base32, the one codes are checked against
+  pendingSecret: text("pending_secret"),
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"), // time step of the last accepted code; codes can't be used twice
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// One-time codes for signing in without the authenticator
+export const recoveryCodes = pgTable("recovery_codes", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: text("code_hash").notNull(), // sha256 hex; the codes are only shown once
+  usedAt: timestamp("used_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -27,54 +106,241 @@ export const profiles = pgTable("profiles", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Folders for organising files; parentId is null for top-level folders
+export const folders = pgTable("folders", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  parentId: uuid("parent_id").references((): AnyPgColumn => folders.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Upload-to-me links: anyone with the token can send files into the owner's
+// account, within the owner's limits
+export const fileRequests = pgTable("file_requests", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  folderId: uuid("folder_id").references(() => folders.id, { onDelete: "set null" }), // where received files go; null = root
+  token: text("token").unique().notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  maxFileSize: bigint("max_file_size", { mode: "number" }), // bytes; null = the server default
+  allowedFileTypes: text("allowed_file_types").array(), // extensions (".pdf") or MIME types ("image/*"); null = any
+  expiresAt: timestamp("expires_at"), // deadline for uploads
+  isActive: boolean("is_active").notNull().default(true),
+  uploadCount: integer("upload_count").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Files table to store file metadata
 export const files = pgTable("files", {
   id: uuid("id").primaryKey().defaultRandom(),
   userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  folderId: uuid("folder_id").references(() => folders.id, { onDelete: "cascade" }), // null = root
   originalName: text("original_name").notNull(),
   fileSize: bigint("file_size", { mode: "number" }).notNull(),
   fileType: text("file_type").notNull(),
   storagePath: text("storage_path").notNull(),
+  contentHash: text("content_hash"), // sha256 hex; null for files stored before hashing
+  isEncrypted: boolean("is_encrypted").notNull().default(false), // end-to-end encrypted in the browser; the server only holds ciphertext
+  wrappedKey: text("wrapped_key"), // data key the blob is encrypted with at rest, wrapped by the master key; null = plaintext blob
+  scanStatus: text("scan_status").notNull().default('pending_scan'), // 'pending_scan' | 'clean' | 'quarantined' | 'not_scanned'
+  scanResult: text("scan_result"), // signature name when quarantined
   shareCode: text("share_code").unique(),
   isPublic: boolean("is_public").notNull().default(false),
   isLocked: boolean("is_locked").notNull().default(false),
+  passwordHash: text("password_hash"), // bcrypt; share code access needs it while the file is locked
   downloadLimit: integer("download_limit"),
   downloadCount: integer("download_count").notNull().default(0),
   expiresAt: timestamp("expires_at"),
+  currentVersion: integer("current_version").notNull().default(1),
+  fileRequestId: uuid("file_request_id").references(() => fileRequests.id, { onDelete: "set null" }), // set when received through a file request
+  uploaderName: text("uploader_name"), // as given by whoever sent it through the request
+  uploaderEmail: text("uploader_email"),
+  deletedAt: timestamp("deleted_at"), // set while the file is in the trash; purged after the retention window
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-// Shared links table for different sharing methods
-export const sharedLinks = pgTable("shared_links", {
+// Stored versions of a file. The files row mirrors the size, type and
+// storage key of its current version.
+export const fileVersions = pgTable("file_versions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  fileId: uuid("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  versionNumber: integer("version_number").notNull(),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  fileType: text("file_type").notNull(),
+  storagePath: text("storage_path").notNull(),
+  contentHash: text("content_hash"),
+  wrappedKey: text("wrapped_key"),
+  scanStatus: text("scan_status").notNull().default('pending_scan'),
+  scanResult: text("scan_result"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.fileId, table.versionNumber),
+]);
+
+// Content-addressed blobs shared by every file and version with the same
+// bytes. refCount is the number of files referencing the blob. The at-rest
+// data key belongs to the blob, so deduplicated files share it.
+export const blobs = pgTable("blobs", {
+  hash: text("hash").primaryKey(), // sha256 hex
+  storagePath: text("storage_path").notNull().unique(),
+  size: bigint("size", { mode: "number" }).notNull(),
+  wrappedKey: text("wrapped_key"),
+  refCount: integer("ref_count").notNull().default(1),
+  previewStatus: text("preview_status"), // null = not generated yet | 'ready' | 'unavailable' | 'failed'
+  previewType: text("preview_type"), // 'image/png' | 'application/json' (highlighted text snippet)
+  previewPath: text("preview_path"), // stored next to the blob
+  previewWrappedKey: text("preview_wrapped_key"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Hand-picked files shared together under one link
+export const bundles = pgTable("bundles", {
   id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Files in a bundle, in the order the owner chose
+export const bundleFiles = pgTable("bundle_files", {
+  bundleId: uuid("bundle_id").notNull().references(() => bundles.id, { onDelete: "cascade" }),
   fileId: uuid("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  position: integer("position").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.bundleId, table.fileId] }),
+]);
+
+// Shared links table for different sharing methods; exactly one of
+// fileId / folderId / bundleId is set
+export const sharedLinks = pgTable("shared_links", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  fileId: uuid("file_id").references(() => files.id, { onDelete: "cascade" }),
+  folderId: uuid("folder_id").references(() => folders.id, { onDelete: "cascade" }),
+  bundleId: uuid("bundle_id").references(() => bundles.id, { onDelete: "cascade" }),
   linkType: text("link_type").notNull(), // 'public' | 'email' | 'code'
   shareToken: text("share_token").unique().notNull(),
+  pinnedVersionId: uuid("pinned_version_id").references(() => fileVersions.id, { onDelete: "set null" }), // null = follow the current version
   recipientEmail: text("recipient_email"),
   passwordHash: text("password_hash"),
   expiresAt: timestamp("expires_at"),
   downloadLimit: integer("download_limit"),
   downloadCount: integer("download_count").notNull().default(0),
   isActive: boolean("is_active").notNull().default(true),
+  allowInlineView: boolean("allow_inline_view").notNull().default(true), // recipients may view in the browser
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
-// Download logs for tracking
+// Download logs for tracking. When a file is purged its logs are kept,
+// stripped of the downloader's details and attributed to the owner instead.
 export const downloadLogs = pgTable("download_logs", {
   id: uuid("id").primaryKey().defaultRandom(),
-  fileId: uuid("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  fileId: uuid("file_id").references(() => files.id, { onDelete: "set null" }), // null once the file is purged
+  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }), // owner of the purged file
   sharedLinkId: uuid("shared_link_id").references(() => sharedLinks.id, { onDelete: "set null" }),
   downloaderIp: inet("downloader_ip"),
   downloaderUserAgent: text("downloader_user_agent"),
-  downloadMethod: text("download_method").notNull(), // 'direct' | 'code' | 'email' | 'link'
+  downloadMethod: text("download_method").notNull(), // 'direct' | 'code' | 'email' | 'link' | 'shared_link_view'
   downloadedAt: timestamp("downloaded_at").defaultNow().notNull(),
 });
 
+// Resumable upload sessions; the files row is only created at finalize
+export const uploadSessions = pgTable("upload_sessions", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(),
+  fileSize: bigint("file_size", { mode: "number" }).notNull(),
+  fileType: text("file_type").notNull(),
+  folderId: uuid("folder_id").references(() => folders.id, { onDelete: "set null" }),
+  chunkSize: integer("chunk_size").notNull(),
+  totalChunks: integer("total_chunks").notNull(),
+  status: text("status").notNull().default('pending'), // 'pending' | 'finalizing' | 'completed'
+  isPublic: boolean("is_public").notNull().default(false),
+  generateShareCode: boolean("generate_share_code").notNull().default(false),
+  isEncrypted: boolean("is_encrypted").notNull().default(false),
+  downloadLimit: integer("download_limit"),
+  fileExpiresAt: timestamp("file_expires_at"),
+  fileId: uuid("file_id").references(() => files.id, { onDelete: "set null" }), // target of a new-version upload, or the file created at finalize
+  expiresAt: timestamp("expires_at").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Chunks received for an upload session
+export const uploadChunks = pgTable("upload_chunks", {
+  sessionId: uuid("session_id").notNull().references(() => uploadSessions.id, { onDelete: "cascade" }),
+  chunkIndex: integer("chunk_index").notNull(),
+  size: integer("size").notNull(),
+  checksum: text("checksum").notNull(), // sha256 hex of the chunk bytes
+  storagePath: text("storage_path").notNull(),
+  wrappedKey: text("wrapped_key"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.chunkIndex] }),
+]);
+
+// State of the background jobs in server/scheduler.ts, shared by every
+// server instance. An instance runs a job only while it holds the lock.
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  name: text("name").primaryKey(),
+  nextRunAt: timestamp("next_run_at").notNull(),
+  lockedBy: text("locked_by"), // instance running the job right now
+  lockedUntil: timestamp("locked_until"), // the lock lapses here if that instance dies
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  lastStatus: text("last_status"), // 'succeeded' | 'failed'
+  lastResult: text("last_result"), // summary or error message of the last run
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Failed share code and password guesses, counted per client IP and per
+// share for the lockout in server/bruteForce.ts
+export const accessAttempts = pgTable("access_attempts", {
+  key: text("key").primaryKey(), // 'ip:<address>', 'link:<id>' or 'file:<id>'
+  failures: integer("failures").notNull().default(0), // since the last quiet period
+  lastFailureAt: timestamp("last_failure_at").notNull(),
+  lockedUntil: timestamp("locked_until"), // attempts are refused until then
+});
+
+// Lockouts on a share, so its owner can see it is being guessed at
+export const shareSecurityEvents = pgTable("share_security_events", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: uuid("user_id").notNull().references(() => users.id, { onDelete: "cascade" }), // owner of the share
+  fileId: uuid("file_id").references(() => files.id, { onDelete: "cascade" }), // share code target
+  sharedLinkId: uuid("shared_link_id").references(() => sharedLinks.id, { onDelete: "cascade" }),
+  eventType: text("event_type").notNull(), // 'lockout'
+  sourceIp: inet("source_ip"), // client whose failed attempt triggered the lockout
+  failures: integer("failures").notNull(),
+  lockedUntil: timestamp("locked_until").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Request counters of the rate limiter's shared store (RATE_LIMIT_STORE=database),
+// one fixed window per policy and client
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  key: text("key").primaryKey(), // '<policy>:<ip, user or share token>'
+  count: integer("count").notNull(),
+  resetAt: timestamp("reset_at").notNull(), // end of the current window
+});
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   profile: one(profiles),
   files: many(files),
+  folders: many(folders),
+  bundles: many(bundles),
+  fileRequests: many(fileRequests),
+  sessions: many(sessions),
+  twoFactorAuth: one(twoFactorAuth),
+  recoveryCodes: many(recoveryCodes),
+  emailTokens: many(emailTokens),
+  identities: many(userIdentities),
+  apiKeys: many(apiKeys),
 }));
 
 export const profilesRelations = relations(profiles, ({ one }) => ({
@@ -84,13 +350,119 @@ export const profilesRelations = relations(profiles, ({ one }) => ({
   }),
 }));
 
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+  user: one(users, {
+    fields: [userIdentities.userId],
+    references: [users.id],
+  }),
+}));
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
+export const emailTokensRelations = relations(emailTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [emailTokens.userId],
+    references: [users.id],
+  }),
+}));
+
+export const twoFactorAuthRelations = relations(twoFactorAuth, ({ one }) => ({
+  user: one(users, {
+    fields: [twoFactorAuth.userId],
+    references: [users.id],
+  }),
+}));
+
+export const recoveryCodesRelations = relations(recoveryCodes, ({ one }) => ({
+  user: one(users, {
+    fields: [recoveryCodes.userId],
+    references: [users.id],
+  }),
+}));
+
+export const foldersRelations = relations(folders, ({ one, many }) => ({
+  user: one(users, {
+    fields: [folders.userId],
+    references: [users.id],
+  }),
+  parent: one(folders, {
+    fields: [folders.parentId],
+    references: [folders.id],
+    relationName: "folder_parent",
+  }),
+  children: many(folders, { relationName: "folder_parent" }),
+  files: many(files),
+  sharedLinks: many(sharedLinks),
+}));
+
+export const fileRequestsRelations = relations(fileRequests, ({ one, many }) => ({
+  user: one(users, {
+    fields: [fileRequests.userId],
+    references: [users.id],
+  }),
+  folder: one(folders, {
+    fields: [fileRequests.folderId],
+    references: [folders.id],
+  }),
+  files: many(files),
+}));
+
 export const filesRelations = relations(files, ({ one, many }) => ({
   user: one(users, {
     fields: [files.userId],
     references: [users.id],
   }),
+  folder: one(folders, {
+    fields: [files.folderId],
+    references: [folders.id],
+  }),
+  fileRequest: one(fileRequests, {
+    fields: [files.fileRequestId],
+    references: [fileRequests.id],
+  }),
   sharedLinks: many(sharedLinks),
   downloadLogs: many(downloadLogs),
+  versions: many(fileVersions),
+  bundleFiles: many(bundleFiles),
+}));
+
+export const bundlesRelations = relations(bundles, ({ one, many }) => ({
+  user: one(users, {
+    fields: [bundles.userId],
+    references: [users.id],
+  }),
+  files: many(bundleFiles),
+  sharedLinks: many(sharedLinks),
+}));
+
+export const bundleFilesRelations = relations(bundleFiles, ({ one }) => ({
+  bundle: one(bundles, {
+    fields: [bundleFiles.bundleId],
+    references: [bundles.id],
+  }),
+  file: one(files, {
+    fields: [bundleFiles.fileId],
+    references: [files.id],
+  }),
+}));
+
+export const fileVersionsRelations = relations(fileVersions, ({ one }) => ({
+  file: one(files, {
+    fields: [fileVersions.fileId],
+    references: [files.id],
+  }),
 }));
 
 export const sharedLinksRelations = relations(sharedLinks, ({ one, many }) => ({
@@ -98,9 +470,36 @@ export const sharedLinksRelations = relations(sharedLinks, ({ one, many }) => ({
     fields: [sharedLinks.fileId],
     references: [files.id],
   }),
+  folder: one(folders, {
+    fields: [sharedLinks.folderId],
+    references: [folders.id],
+  }),
+  bundle: one(bundles, {
+    fields: [sharedLinks.bundleId],
+    references: [bundles.id],
+  }),
+  pinnedVersion: one(fileVersions, {
+    fields: [sharedLinks.pinnedVersionId],
+    references: [fileVersions.id],
+  }),
   downloadLogs: many(downloadLogs),
 }));
 
+export const uploadSessionsRelations = relations(uploadSessions, ({ one, many }) => ({
+  user: one(users, {
+    fields: [uploadSessions.userId],
+    references: [users.id],
+  }),
+  chunks: many(uploadChunks),
+}));
+
+export const uploadChunksRelations = relations(uploadChunks, ({ one }) => ({
+  session: one(uploadSessions, {
+    fields: [uploadChunks.sessionId],
+    references: [uploadSessions.id],
+  }),
+}));
+
 export const downloadLogsRelations = relations(downloadLogs, ({ one }) => ({
   file: one(files, {
     fields: [downloadLogs.fileId],
@@ -118,17 +517,73 @@ export const insertUserSchema = createInsertSchema(users).omit({
   createdAt: true,
 });
 
+export const insertSessionSchema = createInsertSchema(sessions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertUserIdentitySchema = createInsertSchema(userIdentities).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertEmailTokenSchema = createInsertSchema(emailTokens).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertTwoFactorAuthSchema = createInsertSchema(twoFactorAuth).omit({
+  updatedAt: true,
+});
+
+export const insertRecoveryCodeSchema = createInsertSchema(recoveryCodes).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertProfileSchema = createInsertSchema(profiles).omit({
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertFolderSchema = createInsertSchema(folders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFileRequestSchema = createInsertSchema(fileRequests).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertFileSchema = createInsertSchema(files).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertFileVersionSchema = createInsertSchema(fileVersions).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBlobSchema = createInsertSchema(blobs).omit({
+  createdAt: true,
+});
+
+export const insertBundleSchema = createInsertSchema(bundles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
 export const insertSharedLinkSchema = createInsertSchema(sharedLinks).omit({
   id: true,
   createdAt: true,
@@ -139,14 +594,71 @@ export const insertDownloadLogSchema = createInsertSchema(downloadLogs).omit({
   downloadedAt: true,
 });
 
+export const insertUploadSessionSchema = createInsertSchema(uploadSessions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertUploadChunkSchema = createInsertSchema(uploadChunks).omit({
+  createdAt: true,
+});
+
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs).omit({
+  updatedAt: true,
+});
+
+export const insertAccessAttemptSchema = createInsertSchema(accessAttempts);
+
+export const insertRateLimitCounterSchema = createInsertSchema(rateLimitCounters);
+
+export const insertShareSecurityEventSchema = createInsertSchema(shareSecurityEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type InsertSession = z.infer<typeof insertSessionSchema>;
+export type Session = typeof sessions.$inferSelect;
+export type InsertUserIdentity = z.infer<typeof insertUserIdentitySchema>;
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type InsertEmailToken = z.infer<typeof insertEmailTokenSchema>;
+export type EmailToken = typeof emailTokens.$inferSelect;
+export type InsertTwoFactorAuth = z.infer<typeof insertTwoFactorAuthSchema>;
+export type TwoFactorAuth = typeof twoFactorAuth.$inferSelect;
+export type InsertRecoveryCode = z.infer<typeof insertRecoveryCodeSchema>;
+export type RecoveryCode = typeof recoveryCodes.$inferSelect;
 export type InsertProfile = z.infer<typeof insertProfileSchema>;
 export type Profile = typeof profiles.$inferSelect;
+export type InsertFolder = z.infer<typeof insertFolderSchema>;
+export type Folder = typeof folders.$inferSelect;
+export type InsertFileRequest = z.infer<typeof insertFileRequestSchema>;
+export type FileRequest = typeof fileRequests.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 export type File = typeof files.$inferSelect;
+export type InsertFileVersion = z.infer<typeof insertFileVersionSchema>;
+export type FileVersion = typeof fileVersions.$inferSelect;
+export type InsertBlob = z.infer<typeof insertBlobSchema>;
+export type StoredBlob = typeof blobs.$inferSelect;
+export type InsertBundle = z.infer<typeof insertBundleSchema>;
+export type Bundle = typeof bundles.$inferSelect;
 export type InsertSharedLink = z.infer<typeof insertSharedLinkSchema>;
 export type SharedLink = typeof sharedLinks.$inferSelect;
 export type InsertDownloadLog = z.infer<typeof insertDownloadLogSchema>;
 export type DownloadLog = typeof downloadLogs.$inferSelect;
+export type InsertUploadSession = z.infer<typeof insertUploadSessionSchema>;
+export type UploadSession = typeof uploadSessions.$inferSelect;
+export type InsertUploadChunk = z.infer<typeof insertUploadChunkSchema>;
+export type UploadChunk = typeof uploadChunks.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertAccessAttempt = z.infer<typeof insertAccessAttemptSchema>;
+export type AccessAttempt = typeof accessAttempts.$inferSelect;
+export type InsertRateLimitCounter = z.infer<typeof insertRateLimitCounterSchema>;
+export type RateLimitCounter = typeof rateLimitCounters.$inferSelect;
+export type InsertShareSecurityEvent = z.infer<typeof insertShareSecurityEventSchema>;
+export type ShareSecurityEvent = typeof shareSecurityEvents.$inferSelect;